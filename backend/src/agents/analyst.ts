@@ -1,5 +1,5 @@
-import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { getWriter, type LangGraphRunnableConfig } from "@langchain/langgraph";
 import { z } from "zod";
 import {
   WorkflowStateType,
@@ -7,7 +7,22 @@ import {
   EntitySchema,
 } from "../graph/state.js";
 import { ANALYST_SYSTEM_PROMPT } from "../config/prompts.js";
-import { createModel } from "../config/llm.js";
+import { createStructuredModel, getLlmNodeConfig } from "../config/llm.js";
+import {
+  estimateTokens,
+  splitTranscriptWindows,
+  type TranscriptWindow,
+} from "../tools/transcript-windows.js";
+import {
+  reconcileWindowAnalyses,
+  type ReconciledAnalysis,
+  type WindowAnalysis,
+} from "../tools/analyst-reconciliation.js";
+import {
+  preprocessSessionTranscript,
+  type TranscriptPartBoundary,
+} from "../tools/preprocessing.js";
+import { matchNamedSpeakers } from "../tools/identity-guardrails.js";
 
 const log = (msg: string, data?: Record<string, unknown>) => {
   const payload = data ? ` ${JSON.stringify(data)}` : "";
@@ -30,30 +45,117 @@ const AnalystOutputSchema = z.object({
       "Liste des associations SPEAKER_XX -> identification (MJ, joueur + personnage)"
     ),
   entities: EntitySchema,
-  scenes: z.array(SceneSchema),
+  // Les horodatages viennent du transcript, pas du modèle
+  scenes: z.array(SceneSchema.omit({ startTime: true, endTime: true })),
 });
 
-// ── Analyst node ─────────────────────────────────────────────────────────────
+// Part de la fenêtre de contexte réservée au transcript ; le reste couvre le
+// prompt système et la réponse JSON.
+const TRANSCRIPT_CONTEXT_SHARE = 0.5;
+const MIN_WINDOW_TOKENS = 2_000;
+export const WINDOW_CONCURRENCY = 3;
 
-export async function analystNode(
-  state: WorkflowStateType
-): Promise<Partial<WorkflowStateType>> {
-  log("Début nœud: analyst", {
-    transcriptLines: state.preprocessedTranscript.split("\n").length,
-  });
-  const model = createModel("pro", 0.2);
+function chunkArray<T>(arr: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) {
+    chunks.push(arr.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function buildWindowMessage(
+  window: TranscriptWindow,
+  windowCount: number,
+  transcriptRange: { startLine: number; endLine: number }
+): string {
+  return (
+    `Analyse cette portion d'un long transcript de session JDR et extrais-en la structure.\n\n` +
+    `## Portion analysée\n` +
+    `Fenêtre ${window.index + 1} sur ${windowCount} : lignes L${window.startLine} à L${window.endLine} ` +
+    `(le transcript complet va de L${transcriptRange.startLine} à L${transcriptRange.endLine}).\n` +
+    `Les fenêtres se chevauchent : une scène peut avoir commencé avant cette portion ou se poursuivre après. ` +
+    `Délimite les scènes à la portion visible, sans numéro de ligne hors de cette plage.\n\n` +
+    `## Transcript (portion)\n\n${window.text}`
+  );
+}
+
+/**
+ * Map-reduce analysis for transcripts that exceed the token budget: each
+ * window is analysed independently, then merged by reconcileWindowAnalyses.
+ */
+async function analyzeByWindows(
+  windows: TranscriptWindow[],
+  systemPrompt: string,
+  config?: LangGraphRunnableConfig
+): Promise<ReconciledAnalysis> {
+  const writer = getWriter();
+  const structuredModel = createStructuredModel("analyst", AnalystOutputSchema);
+  const transcriptRange = {
+    startLine: windows[0].startLine,
+    endLine: windows[windows.length - 1].endLine,
+  };
+
+  const analyses: WindowAnalysis[] = [];
+  for (const batch of chunkArray(windows, WINDOW_CONCURRENCY)) {
+    const results = await Promise.all(
+      batch.map(async (window) => {
+        const result = await structuredModel.invoke(
+          [
+            new SystemMessage(systemPrompt),
+            new HumanMessage(buildWindowMessage(window, windows.length, transcriptRange)),
+          ],
+          { signal: config?.signal }
+        );
+        log("Fenêtre analysée", {
+          window: window.index + 1,
+          startLine: window.startLine,
+          endLine: window.endLine,
+          scenesCount: result.scenes.length,
+        });
+        return { window, ...result };
+      })
+    );
+    analyses.push(...results);
+    writer?.({
+      event: "step:progress",
+      payload: {
+        step: "analyst",
+        label: `Analyse du transcript : fenêtre ${analyses.length}/${windows.length}...`,
+      },
+    });
+  }
+
+  return reconcileWindowAnalyses(analyses);
+}
+
+// ── Prompt & token budget ────────────────────────────────────────────────────
 
+export function buildAnalystSystemPrompt(
+  state: Pick<WorkflowStateType, "playerInfo" | "universeContext" | "sessionHistory">,
+  knownSpeakers: Record<string, string> = {},
+  parts: TranscriptPartBoundary[] = []
+): string {
   // Build the system prompt with context
-  const playerInfoStr = state.playerInfo.length
+  let playerInfoStr = state.playerInfo.length
     ? state.playerInfo
-        .map(
-          (p) =>
-            `- ${p.playerName} joue ${p.characterName}${p.speakerHint ? ` (probablement ${p.speakerHint})` : ""}`
-        )
+        .map((p) => {
+          const hint = p.speakerHint ? ` (probablement ${p.speakerHint})` : "";
+          const pronouns = p.pronouns ? `, pronoms : ${p.pronouns}` : "";
+          return p.isGameMaster
+            ? `- ${p.playerName || "Le MJ"} est le MJ${hint}`
+            : `- ${p.playerName} joue ${p.characterName}${hint}${pronouns}`;
+        })
         .join("\n")
     : "Aucune information sur les joueurs fournie. Déduis-les du transcript.";
 
-  const systemPrompt = ANALYST_SYSTEM_PROMPT.replace(
+  const known = Object.entries(knownSpeakers);
+  if (known.length > 0) {
+    playerInfoStr +=
+      `\n\nSpeakers nommés dans le transcript et déjà identifiés (reprends-les tels quels dans speakerMap) :\n` +
+      known.map(([speaker, identity]) => `- ${speaker} → ${identity}`).join("\n");
+  }
+
+  const prompt = ANALYST_SYSTEM_PROMPT.replace(
     "{universeContext}",
     state.universeContext || "Aucun contexte d'univers spécifié."
   )
@@ -62,41 +164,98 @@ export async function analystNode(
       "{sessionHistory}",
       state.sessionHistory || "Aucun historique de session précédente."
     );
+  if (parts.length < 2) return prompt;
 
-  // Use structured output
-  const structuredModel = model.withStructuredOutput(AnalystOutputSchema);
+  // Session en plusieurs enregistrements : chaque jonction est une pause
+  return (
+    prompt +
+    `\n\n## Parties de l'enregistrement\n` +
+    `La session a été enregistrée en ${parts.length} fichiers, numérotés à la suite :\n` +
+    parts
+      .map((p) => `- Partie ${p.index + 1} (${p.name}) : L${p.startLine} à L${p.endLine}`)
+      .join("\n") +
+    `\nAucune scène ne chevauche deux parties : place une scène de type "pause" à chaque jonction, ` +
+    `entre la dernière scène d'une partie et la première de la suivante.`
+  );
+}
 
-  const result = await structuredModel.invoke([
-    new SystemMessage(systemPrompt),
-    new HumanMessage(
-      `Analyse ce transcript de session JDR et extrais-en la structure.\n\n` +
-        `## Statistiques du preprocessing\n` +
-        `Le transcript contient environ ${state.preprocessedTranscript.split("\n").length} lignes.\n\n` +
-        `## Transcript complet\n\n${state.preprocessedTranscript}`
-    ),
-  ]);
+/** Estimated transcript tokens that fit in one analyst call. */
+export function getAnalystTranscriptBudget(systemPrompt: string): number {
+  return Math.max(
+    MIN_WINDOW_TOKENS,
+    Math.floor(getLlmNodeConfig("analyst").contextTokens * TRANSCRIPT_CONTEXT_SHARE) -
+      estimateTokens(systemPrompt)
+  );
+}
+
+// ── Analyst node ─────────────────────────────────────────────────────────────
+
+export async function analystNode(
+  state: WorkflowStateType,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<WorkflowStateType>> {
+  log("Début nœud: analyst", {
+    transcriptLines: state.preprocessedTranscript.split("\n").length,
+  });
 
-  // Convert array to Record for the rest of the pipeline
-  const speakerMapRecord: Record<string, string> = Object.fromEntries(
-    result.speakerMap.map((s) => [s.speakerId, s.identification])
+  const { parts, stats } = preprocessSessionTranscript(state);
+  // Transcripts à speakers nommés (chat, Discord, Roll20) : les noms reconnus
+  // dans le roster n'ont pas à être devinés
+  const knownSpeakers = matchNamedSpeakers(
+    Object.keys(stats.speakerCounts),
+    state.playerInfo
   );
 
-  // File d'attente pour le summarizer : une scène = une invocation de nœud
-  const pendingSceneIds = result.scenes
-    .filter((s) => s.type !== "meta" && s.type !== "pause")
-    .map((s) => s.id);
+  const systemPrompt = buildAnalystSystemPrompt(state, knownSpeakers, parts);
+  const transcriptBudget = getAnalystTranscriptBudget(systemPrompt);
+
+  let result: ReconciledAnalysis;
+
+  if (estimateTokens(state.preprocessedTranscript) <= transcriptBudget) {
+    // Use structured output
+    const structuredModel = createStructuredModel("analyst", AnalystOutputSchema);
+
+    const output = await structuredModel.invoke(
+      [
+        new SystemMessage(systemPrompt),
+        new HumanMessage(
+          `Analyse ce transcript de session JDR et extrais-en la structure.\n\n` +
+            `## Statistiques du preprocessing\n` +
+            `Le transcript contient environ ${state.preprocessedTranscript.split("\n").length} lignes.\n\n` +
+            `## Transcript complet\n\n${state.preprocessedTranscript}`
+        ),
+      ],
+      { signal: config?.signal }
+    );
+
+    // Convert array to Record for the rest of the pipeline
+    result = {
+      ...output,
+      speakerMap: Object.fromEntries(
+        output.speakerMap.map((s) => [s.speakerId, s.identification])
+      ),
+    };
+  } else {
+    const windows = splitTranscriptWindows(
+      state.preprocessedTranscript,
+      transcriptBudget
+    );
+    log("Transcript découpé en fenêtres", {
+      windowsCount: windows.length,
+      transcriptBudget,
+    });
+    result = await analyzeByWindows(windows, systemPrompt, config);
+  }
 
   log("Fin nœud: analyst", {
     scenesCount: result.scenes.length,
-    narrativeScenesCount: pendingSceneIds.length,
-    speakersCount: result.speakerMap.length,
+    speakersCount: Object.keys(result.speakerMap).length,
   });
 
   return {
-    speakerMap: speakerMapRecord,
+    speakerMap: { ...result.speakerMap, ...knownSpeakers },
     entities: result.entities,
     scenes: result.scenes,
-    pendingSceneIds,
     currentSceneIndex: 0,
     currentStep: "analyst_complete",
   };
@@ -1,7 +1,10 @@
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import type { LangGraphRunnableConfig } from "@langchain/langgraph";
 import { WorkflowStateType } from "../graph/state.js";
 import { FORMATTER_SYSTEM_PROMPT } from "../config/prompts.js";
 import { createModel } from "../config/llm.js";
+import { formatTimestamp } from "../tools/transcript-formats.js";
+import { renderTableTalkNotes } from "../tools/table-talk.js";
 
 const log = (msg: string, data?: Record<string, unknown>) => {
   const payload = data ? ` ${JSON.stringify(data)}` : "";
@@ -11,14 +14,16 @@ const log = (msg: string, data?: Record<string, unknown>) => {
 // ── Formatter node ───────────────────────────────────────────────────────────
 
 export async function formatterNode(
-  state: WorkflowStateType
+  state: WorkflowStateType,
+  config?: LangGraphRunnableConfig
 ): Promise<Partial<WorkflowStateType>> {
   log("Début nœud: formatter", {
     scenesCount: state.sceneSummaries.length,
   });
-  const model = createModel("pro", 0.25);
+  const model = createModel("formatter");
 
   const playerInfoStr = state.playerInfo
+    .filter((p) => !p.isGameMaster)
     .map((p) => `| ${p.playerName} | ${p.characterName} |`)
     .join("\n");
 
@@ -43,6 +48,9 @@ export async function formatterNode(
         `TITLE: ${scene?.title || "Sans titre"}\n` +
         `TYPE: ${scene?.type || "?"}\n` +
         `LOCATION: ${scene?.location || "?"}\n` +
+        (scene?.startTime !== undefined
+          ? `TIMESTAMP: [${formatTimestamp(scene.startTime)}] → [${formatTimestamp(scene.endTime ?? scene.startTime)}]\n`
+          : "") +
         `NARRATIVE_WORD_COUNT: ${narrativeWordCount}\n` +
         `NARRATIVE:\n${s.narrativeSummary}\n` +
         `KEY_EVENTS:\n${s.keyEvents.map((e) => `- ${e}`).join("\n")}\n` +
@@ -54,34 +62,50 @@ export async function formatterNode(
     .join("\n\n===\n\n");
 
   const entitiesStr = JSON.stringify(state.entities, null, 2);
+  const hasTimestamps = orderedSummaries.some(
+    (s) => state.scenes.find((sc) => sc.id === s.sceneId)?.startTime !== undefined
+  );
 
   // Validation warnings to include
+  // Continuité de la session : signalée quelle que soit la gravité
   const warnings = state.validationReport.issues
-    .filter((i) => i.severity === "warning" || i.severity === "info")
-    .map((i) => `- [${i.severity}] ${i.issue}`)
+    .filter((i) => i.severity === "warning" || i.severity === "info" || i.sceneIds)
+    .map((i) =>
+      i.sceneIds
+        ? `- [${i.severity}] Continuité (scènes ${i.sceneIds.join(", ")}) : ${i.issue}`
+        : `- [${i.severity}] ${i.issue}`
+    )
     .join("\n");
 
-  const response = await model.invoke([
-    new SystemMessage(systemPrompt),
-    new HumanMessage(
-      `## Données à formater\n\n` +
-        `### Scènes\n\n${scenesContent}\n\n` +
-        `### Entités complètes\n\n${entitiesStr}\n\n` +
-        (warnings
-          ? `### Notes du validateur\n\n${warnings}\n\n`
-          : "") +
-        `## Contraintes impératives\n` +
-        `- Respecte l'ordre strict des SCENE_ID (chronologie de session).\n` +
-        `- Conserve le bloc NARRATIVE de façon fidèle et détaillée : ne le compresse pas, n'en retire pas les nuances.\n` +
-        `- N'invente aucun événement, aucun dialogue, aucun PNJ.\n\n` +
-        `Génère maintenant le compte-rendu Markdown final complet.`
-    ),
-  ]);
+  const response = await model.invoke(
+    [
+      new SystemMessage(systemPrompt),
+      new HumanMessage(
+        `## Données à formater\n\n` +
+          `### Scènes\n\n${scenesContent}\n\n` +
+          `### Entités complètes\n\n${entitiesStr}\n\n` +
+          (warnings
+            ? `### Notes du validateur\n\n${warnings}\n\n`
+            : "") +
+          `## Contraintes impératives\n` +
+          `- Respecte l'ordre strict des SCENE_ID (chronologie de session).\n` +
+          `- Conserve le bloc NARRATIVE de façon fidèle et détaillée : ne le compresse pas, n'en retire pas les nuances.\n` +
+          `- N'invente aucun événement, aucun dialogue, aucun PNJ.\n` +
+          (hasTimestamps
+            ? `- Quand une scène a un TIMESTAMP, commence son sous-titre par le marqueur de début tel quel (ex: [01:12:40]).\n`
+            : "") +
+          `\n` +
+          `Génère maintenant le compte-rendu Markdown final complet.`
+      ),
+    ],
+    { signal: config?.signal }
+  );
 
-  const finalReport =
-    typeof response.content === "string"
-      ? response.content
-      : JSON.stringify(response.content);
+  // Annexe hors-jeu mise en forme par le code, après le récit
+  const tableTalkNotes = renderTableTalkNotes(state.tableTalkNotes);
+  const finalReport = tableTalkNotes
+    ? `${response.text.trimEnd()}\n\n---\n\n${tableTalkNotes}\n`
+    : response.text;
 
   log("Fin nœud: formatter", { reportLength: finalReport.length });
 
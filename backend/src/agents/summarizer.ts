@@ -1,15 +1,36 @@
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
-import { getWriter } from "@langchain/langgraph";
+import { getWriter, type LangGraphRunnableConfig } from "@langchain/langgraph";
 import { z } from "zod";
 import {
   WorkflowStateType,
   SceneSummarySchema,
   SceneSchema,
+  SummaryPatchSchema,
 } from "../graph/state.js";
 import { SUMMARIZER_SYSTEM_PROMPT } from "../config/prompts.js";
-import { createModel } from "../config/llm.js";
-import { extractSceneText } from "../tools/preprocessing.js";
+import { createStructuredModel } from "../config/llm.js";
 import {
+  getJobSceneSummary,
+  saveJobSceneSummary,
+} from "../config/database.js";
+import {
+  extractSceneText,
+  preprocessSessionTranscript,
+  type PreprocessedLine,
+} from "../tools/preprocessing.js";
+import {
+  attachParsedDiceRoll,
+  formatDiceRoll,
+  mergeParsedDiceRolls,
+} from "../tools/dice.js";
+import { hasAttemptsLeft, type SceneAttempt } from "../tools/scene-attempts.js";
+import {
+  applySummaryPatch,
+  formatNumberedDraft,
+  type SummaryPatchRecord,
+} from "../tools/summary-patch.js";
+import {
+  buildCharacterGenders,
   buildCharacterIdentities,
   buildIdentityGuardrailsText,
 } from "../tools/identity-guardrails.js";
@@ -25,7 +46,7 @@ type Scene = z.infer<typeof SceneSchema>;
 type SceneSummary = z.infer<typeof SceneSummarySchema>;
 type StreamWriter = ((chunk: unknown) => void) | undefined;
 
-const SCENE_CONCURRENCY = 5;
+export const SCENE_CONCURRENCY = 5;
 
 function chunkArray<T>(arr: T[], size: number): T[][] {
   const chunks: T[][] = [];
@@ -35,7 +56,7 @@ function chunkArray<T>(arr: T[], size: number): T[][] {
   return chunks;
 }
 
-function getNarrativeTargets(lineCount: number): {
+export function getNarrativeTargets(lineCount: number): {
   minWords: number;
   minParagraphs: number;
   maxParagraphs: number;
@@ -49,7 +70,12 @@ function getNarrativeTargets(lineCount: number): {
   return { minWords: 350, minParagraphs: 5, maxParagraphs: 8 };
 }
 
-function emitSceneStepStart(writer: StreamWriter, scene: Scene, kind: "analyse" | "correction"): void {
+function emitSceneStepStart(
+  writer: StreamWriter,
+  scene: Scene,
+  kind: "analyse" | "correction",
+  attempt: number
+): void {
   writer?.({
     event: "step:start",
     payload: {
@@ -61,22 +87,36 @@ function emitSceneStepStart(writer: StreamWriter, scene: Scene, kind: "analyse"
         startLine: scene.startLine,
         endLine: scene.endLine,
         mode: kind,
+        attempt,
       },
     },
   });
 }
 
-function emitSceneStepComplete(writer: StreamWriter, scene: Scene): void {
+function emitSceneStepComplete(
+  writer: StreamWriter,
+  scene: Scene,
+  attempt: number,
+  patch?: SummaryPatchRecord
+): void {
   writer?.({
     event: "step:complete",
     payload: {
       step: `summarizer_scene_${scene.id}`,
-      label: `Scène ${scene.id} : ${scene.title} — analysée`,
+      label: patch
+        ? `Scène ${scene.id} : ${scene.title} — corrigée (tentative ${attempt}, ${patch.applied.length} modification(s))`
+        : `Scène ${scene.id} : ${scene.title} — analysée${
+            attempt > 1 ? ` (tentative ${attempt})` : ""
+          }`,
       data: {
         sceneId: scene.id,
         title: scene.title,
         startLine: scene.startLine,
         endLine: scene.endLine,
+        attempt,
+        ...(patch
+          ? { editsApplied: patch.applied.length, editsRejected: patch.rejected.length }
+          : {}),
       },
     },
   });
@@ -84,9 +124,34 @@ function emitSceneStepComplete(writer: StreamWriter, scene: Scene): void {
 
 // ── Helper: build per-scene human message ────────────────────────────────────
 
+function buildParsedDiceText(sceneLines: PreprocessedLine[]): string {
+  const rolls = sceneLines.filter((l) => l.diceRoll);
+  if (rolls.length === 0) return "";
+  return (
+    `## 🎲 Jets lus dans le transcript\n` +
+    `Résultats établis à partir du transcript : ne les recalcule pas. ` +
+    `Pour chacun, indique qui lance et quelle compétence, et commence son context par le repère [Lx].\n` +
+    rolls
+      .map(
+        (l) =>
+          `- [L${l.lineNumber}] ${l.speaker ?? "UNTAGGED"} : ${formatDiceRoll(l.diceRoll!)}`
+      )
+      .join("\n") +
+    `\n\n`
+  );
+}
+
+function formatSceneIssues(scene: Scene, state: WorkflowStateType): string {
+  return state.validationReport.issues
+    .filter((i) => i.sceneId === scene.id || i.sceneIds?.includes(scene.id))
+    .map((i) => `- **${i.severity}** : ${i.issue} → Suggestion : ${i.suggestion}`)
+    .join("\n");
+}
+
 function buildScenePrompt(
   scene: Scene,
   sceneText: string,
+  sceneLines: PreprocessedLine[],
   allScenes: Scene[],
   state: WorkflowStateType
 ): string {
@@ -109,17 +174,18 @@ function buildScenePrompt(
   ].join("\n");
 
   const retryContext =
-    state.retryCount > 0
-      ? `\n### ⚠️ CORRECTION DEMANDÉE\nCette scène est en cours de correction. Problèmes signalés par le validateur :\n${state.validationReport.issues
-          .filter((i) => i.sceneId === scene.id)
-          .map((i) => `- **${i.severity}** : ${i.issue} → Suggestion : ${i.suggestion}`)
-          .join("\n")}\n\nCorrige ces problèmes dans ta nouvelle version.`
+    (state.sceneAttempts[scene.id]?.length ?? 0) > 0
+      ? `\n### ⚠️ CORRECTION DEMANDÉE\nCette scène est en cours de correction. Problèmes signalés par le validateur :\n${formatSceneIssues(
+          scene,
+          state
+        )}\n\nCorrige ces problèmes dans ta nouvelle version.`
       : "";
 
   const lineCount = sceneText.split("\n").length;
   const narrativeTargets = getNarrativeTargets(lineCount);
   const identityGuardrails = buildIdentityGuardrailsText(
-    buildCharacterIdentities(state)
+    buildCharacterIdentities(state),
+    buildCharacterGenders(state)
   );
 
   return (
@@ -137,6 +203,7 @@ function buildScenePrompt(
     `Ci-dessous le transcript intégral de cette scène. Analyse CHAQUE ligne attentivement.\n` +
     `Ne saute aucun dialogue, aucune action, aucun jet de dé.\n\n` +
     `\`\`\`\n${sceneText}\n\`\`\`\n\n` +
+    buildParsedDiceText(sceneLines) +
     `## Rappel\n` +
     `- Ton narrativeSummary doit être COMPLET et DÉTAILLÉ (${lineCount} lignes de transcript → récit proportionnellement long)\n` +
     `- Objectif de densité : au moins ${narrativeTargets.minWords} mots, répartis en ${narrativeTargets.minParagraphs} à ${narrativeTargets.maxParagraphs} paragraphes\n` +
@@ -155,13 +222,57 @@ function buildScenePrompt(
   );
 }
 
+// ── Helper: build per-scene correction message (patch of the previous draft) ─
+
+function buildCorrectionPrompt(
+  scene: Scene,
+  sceneText: string,
+  sceneLines: PreprocessedLine[],
+  previous: SceneSummary,
+  state: WorkflowStateType
+): string {
+  const identityGuardrails = buildIdentityGuardrailsText(
+    buildCharacterIdentities(state),
+    buildCharacterGenders(state)
+  );
+
+  return (
+    `# 🛠️ Ta mission : corriger la Scène ${scene.id} sans la réécrire\n\n` +
+    `## Métadonnées de la scène\n` +
+    `- **Titre** : ${scene.title}\n` +
+    `- **Type** : ${scene.type}\n` +
+    `- **Lieu** : ${scene.location || "Non défini"}\n` +
+    `- **Lignes** : ${scene.startLine} à ${scene.endLine}\n\n` +
+    `${identityGuardrails}\n\n` +
+    `## ⚠️ Problèmes signalés par le validateur\n` +
+    `${formatSceneIssues(scene, state)}\n\n` +
+    `## 📝 Version précédente (chaque élément porte sa position)\n\n` +
+    `${formatNumberedDraft(previous)}\n\n` +
+    `## 📜 Transcript de la scène (référence)\n\n` +
+    `\`\`\`\n${sceneText}\n\`\`\`\n\n` +
+    buildParsedDiceText(sceneLines) +
+    `## Format de la correction\n` +
+    `- Retourne uniquement des modifications ciblées dans edits : une par élément à changer, aucune pour ce qui est correct\n` +
+    `- target : paragraph [P], keyEvent [E], diceRoll [D], npc [N] ou technicalNote [T]\n` +
+    `- action : replace remplace l'élément, delete le supprime, insert_after ajoute un élément après lui (index 0 : en tête)\n` +
+    `- index : position de l'élément dans la version précédente ci-dessus, même après d'autres modifications de la même liste\n` +
+    `- text : nouveau contenu complet de l'élément, sans son repère [P2] ; pour un jet, remplis diceRoll à la place\n` +
+    `- reason : le problème du validateur que la modification corrige\n` +
+    `- Ce que tu ne modifies pas est conservé tel quel : ne reprends pas un élément correct\n` +
+    `- Un key event remplacé ou ajouté commence toujours par [Lx] ou [Lx-Ly], et le context d'un jet par [Lx]\n` +
+    `- Reste fidèle au transcript : une correction n'invente rien`
+  );
+}
+
 // ── Summarizer node : scènes en parallèle, sous-agent par scène ─────────────
 
 export async function summarizerNode(
-  state: WorkflowStateType
+  state: WorkflowStateType,
+  config?: LangGraphRunnableConfig
 ): Promise<Partial<WorkflowStateType>> {
-  const model = createModel("pro", 0.2);
   const writer = getWriter();
+  // Set when the graph runs with a checkpointer (process jobs)
+  const threadId = config?.configurable?.thread_id as string | undefined;
 
   const pendingSceneIds =
     state.pendingSceneIds.length > 0
@@ -170,11 +281,15 @@ export async function summarizerNode(
           .filter((s) => s.type !== "meta" && s.type !== "pause")
           .map((s) => s.id);
 
+  // Une scène dont le budget de tentatives est épuisé n'est plus résumée
   const scenesToProcess = pendingSceneIds
     .map((id) => state.scenes.find((s) => s.id === id))
     .filter(
       (scene): scene is Scene =>
-        !!scene && scene.type !== "meta" && scene.type !== "pause"
+        !!scene &&
+        scene.type !== "meta" &&
+        scene.type !== "pause" &&
+        hasAttemptsLeft(state.sceneAttempts[scene.id] ?? [])
     );
 
   if (scenesToProcess.length === 0) {
@@ -212,11 +327,16 @@ export async function summarizerNode(
     .replace("{entities}", entitiesStr)
     .replace("{scenesOverview}", scenesOverview);
 
-  const structuredModel = model.withStructuredOutput(SceneSummarySchema);
+  const structuredModel = createStructuredModel("summarizer", SceneSummarySchema);
+  const patchModel = createStructuredModel("summarizer", SummaryPatchSchema);
+  const { lines } = preprocessSessionTranscript(state);
 
   const summaries: SceneSummary[] = [];
+  const sceneAttempts: Record<number, SceneAttempt[]> = {};
   const sceneBatches = chunkArray(scenesToProcess, SCENE_CONCURRENCY);
 
+  let reusedCount = 0;
+
   for (let bi = 0; bi < sceneBatches.length; bi++) {
     const batch = sceneBatches[bi];
     log("Summarizer batch", {
@@ -226,10 +346,31 @@ export async function summarizerNode(
     });
     const batchResults = await Promise.all(
       batch.map(async (scene) => {
+        const previousAttempts = state.sceneAttempts[scene.id] ?? [];
+        const attempt = previousAttempts.length + 1;
+        const keep = (summary: SceneSummary, patch?: SummaryPatchRecord): SceneSummary => {
+          sceneAttempts[scene.id] = [
+            ...previousAttempts,
+            { attempt, summary, ...(patch ? { patch } : {}), issues: null, score: null },
+          ];
+          return summary;
+        };
+
+        // Cache indexé par tentative de la scène (retry_count = tentative - 1)
+        const cached = threadId
+          ? getJobSceneSummary(threadId, scene.id, attempt - 1)
+          : null;
+        if (cached) {
+          reusedCount++;
+          emitSceneStepComplete(writer, scene, attempt, cached.patch);
+          return keep(cached.summary, cached.patch);
+        }
+
         emitSceneStepStart(
           writer,
           scene,
-          state.retryCount > 0 ? "correction" : "analyse"
+          attempt > 1 ? "correction" : "analyse",
+          attempt
         );
 
         const sceneText = extractSceneText(
@@ -237,31 +378,79 @@ export async function summarizerNode(
           scene.startLine,
           scene.endLine
         );
+        const sceneLines = lines.filter(
+          (l) => l.lineNumber >= scene.startLine && l.lineNumber <= scene.endLine
+        );
+
+        // Correction : la tentative retenue par le validator est corrigée sur
+        // place au lieu d'être réécrite
+        const previous =
+          attempt > 1
+            ? state.sceneSummaries.find((s) => s.sceneId === scene.id)
+            : undefined;
+        if (previous) {
+          const { edits } = await patchModel.invoke(
+            [
+              new SystemMessage(systemPrompt),
+              new HumanMessage(
+                buildCorrectionPrompt(scene, sceneText, sceneLines, previous, state)
+              ),
+            ],
+            { signal: config?.signal, metadata: { sceneId: scene.id } }
+          );
+          // Seuls les jets ajoutés ou remplacés reprennent le jet lu sur leur ligne
+          const { summary, record } = applySummaryPatch(previous, edits, (roll) =>
+            attachParsedDiceRoll(roll, sceneLines)
+          );
+          if (threadId) {
+            saveJobSceneSummary(threadId, attempt - 1, summary, record);
+          }
+          emitSceneStepComplete(writer, scene, attempt, record);
+          return keep(summary, record);
+        }
+
         const scenePrompt = buildScenePrompt(
           scene,
           sceneText,
+          sceneLines,
           state.scenes,
           state
         );
 
-        const result = await structuredModel.invoke([
-          new SystemMessage(systemPrompt),
-          new HumanMessage(scenePrompt),
-        ]);
+        const result = await structuredModel.invoke(
+          [
+            new SystemMessage(systemPrompt),
+            new HumanMessage(scenePrompt),
+          ],
+          { signal: config?.signal, metadata: { sceneId: scene.id } }
+        );
 
-        emitSceneStepComplete(writer, scene);
+        const summary = {
+          ...result,
+          sceneId: scene.id,
+          diceRolls: mergeParsedDiceRolls(result.diceRolls, sceneLines, state.speakerMap),
+        };
+        if (threadId) {
+          saveJobSceneSummary(threadId, attempt - 1, summary);
+        }
 
-        return { ...result, sceneId: scene.id };
+        emitSceneStepComplete(writer, scene, attempt);
+
+        return keep(summary);
       })
     );
 
     summaries.push(...batchResults);
   }
 
-  log("Fin nœud: summarizer", { summariesCount: summaries.length });
+  log("Fin nœud: summarizer", {
+    summariesCount: summaries.length,
+    reusedCount,
+  });
 
   return {
     sceneSummaries: summaries,
+    sceneAttempts,
     pendingSceneIds,
     currentStep: "summarizer_complete",
     lastProcessedScene: null,
@@ -0,0 +1,135 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import type { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { z } from "zod";
+import { WorkflowStateType, TableTalkNotesSchema } from "../graph/state.js";
+import {
+  TABLE_TALK_SYSTEM_PROMPT,
+  TABLE_TALK_TAGGING_PROMPT,
+} from "../config/prompts.js";
+import { createStructuredModel, getLlmNodeConfig } from "../config/llm.js";
+import { preprocessSessionTranscript } from "../tools/preprocessing.js";
+import { collectTableTalkLines } from "../tools/table-talk.js";
+import {
+  estimateTokens,
+  splitTranscriptWindows,
+} from "../tools/transcript-windows.js";
+
+const log = (msg: string, data?: Record<string, unknown>) => {
+  const payload = data ? ` ${JSON.stringify(data)}` : "";
+  console.log(`[cr] ${msg}${payload}`);
+};
+
+const TableTalkTaggingSchema = z.object({
+  ranges: z
+    .array(
+      z.object({
+        startLine: z.number().describe("Première ligne du passage hors-jeu"),
+        endLine: z.number().describe("Dernière ligne du passage hors-jeu"),
+      })
+    )
+    .describe("Passages hors-jeu, dans l'ordre du transcript"),
+});
+
+// Même partage de la fenêtre de contexte que l'analyst
+const TRANSCRIPT_CONTEXT_SHARE = 0.5;
+const MIN_WINDOW_TOKENS = 2_000;
+
+const NUMBERED_LINE_RE = /^L(\d+)\s/;
+
+/** Estimated transcript tokens that fit in one tagging call. */
+export function getTableTalkTranscriptBudget(): number {
+  return Math.max(
+    MIN_WINDOW_TOKENS,
+    Math.floor(getLlmNodeConfig("tableTalk").contextTokens * TRANSCRIPT_CONTEXT_SHARE) -
+      estimateTokens(TABLE_TALK_TAGGING_PROMPT)
+  );
+}
+
+/** Optional LLM pass: out-of-character line numbers, window by window. */
+async function tagTableTalkLines(
+  preprocessedTranscript: string,
+  config?: LangGraphRunnableConfig
+): Promise<number[]> {
+  const windows = splitTranscriptWindows(
+    preprocessedTranscript,
+    getTableTalkTranscriptBudget()
+  );
+  const structuredModel = createStructuredModel("tableTalk", TableTalkTaggingSchema);
+
+  const tagged = new Set<number>();
+  for (const window of windows) {
+    const result = await structuredModel.invoke(
+      [
+        new SystemMessage(TABLE_TALK_TAGGING_PROMPT),
+        new HumanMessage(
+          `Relève les passages hors-jeu de ce transcript (L${window.startLine} à L${window.endLine}).\n\n` +
+            `## Transcript\n\n${window.text}`
+        ),
+      ],
+      { signal: config?.signal }
+    );
+    for (const range of result.ranges) {
+      // Plages hors de la fenêtre : numéros inventés
+      const start = Math.max(range.startLine, window.startLine);
+      const end = Math.min(range.endLine, window.endLine);
+      for (let line = start; line <= end; line++) tagged.add(line);
+    }
+  }
+  return [...tagged];
+}
+
+// ── Table talk node : notes hors-jeu (scènes meta/pause, lignes HRP) ────────
+
+export async function tableTalkNode(
+  state: WorkflowStateType,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<WorkflowStateType>> {
+  log("Début nœud: tableTalk", { llmTagging: state.tableTalkTagging });
+
+  const { lines } = preprocessSessionTranscript(state);
+  const taggedLines = state.tableTalkTagging
+    ? await tagTableTalkLines(state.preprocessedTranscript, config)
+    : [];
+  const lineNumbers = new Set(collectTableTalkLines(lines, state.scenes, taggedLines));
+
+  if (lineNumbers.size === 0) {
+    log("Fin nœud: tableTalk — aucun échange hors-jeu, skip");
+    return { tableTalkNotes: null, currentStep: "table_talk_complete" };
+  }
+
+  const tableTalkText = state.preprocessedTranscript
+    .split("\n")
+    .filter((line) => {
+      const match = line.match(NUMBERED_LINE_RE);
+      return !!match && lineNumbers.has(Number.parseInt(match[1], 10));
+    })
+    .join("\n");
+
+  const speakerMapStr =
+    Object.entries(state.speakerMap)
+      .map(([k, v]) => `${k} → ${v}`)
+      .join("\n") || "Non disponible.";
+
+  const structuredModel = createStructuredModel("tableTalk", TableTalkNotesSchema);
+  const tableTalkNotes = await structuredModel.invoke(
+    [
+      new SystemMessage(TABLE_TALK_SYSTEM_PROMPT.replace("{speakerMap}", speakerMapStr)),
+      new HumanMessage(
+        `Voici les échanges hors-jeu de la session (${lineNumbers.size} lignes, non contiguës).\n\n` +
+          `## Échanges hors-jeu\n\n\`\`\`\n${tableTalkText}\n\`\`\``
+      ),
+    ],
+    { signal: config?.signal }
+  );
+
+  log("Fin nœud: tableTalk", {
+    lines: lineNumbers.size,
+    taggedLines: taggedLines.length,
+    scheduling: tableTalkNotes.scheduling.length,
+    rulings: tableTalkNotes.rulings.length,
+    houseRules: tableTalkNotes.houseRules.length,
+    todos: tableTalkNotes.todos.length,
+  });
+
+  return { tableTalkNotes, currentStep: "table_talk_complete" };
+}
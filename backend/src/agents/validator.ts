@@ -1,25 +1,47 @@
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
-import { getWriter } from "@langchain/langgraph";
+import { getWriter, type LangGraphRunnableConfig } from "@langchain/langgraph";
 import { z } from "zod";
 import {
   WorkflowStateType,
   ValidationReportSchema,
 } from "../graph/state.js";
-import { VALIDATOR_SYSTEM_PROMPT } from "../config/prompts.js";
-import { createModel } from "../config/llm.js";
-import { extractSceneText } from "../tools/preprocessing.js";
 import {
+  CONTINUITY_SYSTEM_PROMPT,
+  VALIDATOR_SYSTEM_PROMPT,
+} from "../config/prompts.js";
+import { createStructuredModel } from "../config/llm.js";
+import {
+  extractSceneText,
+  preprocessSessionTranscript,
+} from "../tools/preprocessing.js";
+import {
+  buildCharacterGenders,
   buildCharacterIdentities,
+  findGenderAgreementIssues,
   findPotentiallyMergedNames,
+  normalizeForCompare,
 } from "../tools/identity-guardrails.js";
+import { checkDiceConsistency } from "../tools/dice-consistency.js";
+import { findNameVariants } from "../tools/continuity.js";
+import {
+  findCoverageGaps,
+  parseKeyEventLineRange,
+} from "../tools/transcript-coverage.js";
+import {
+  hasAttemptsLeft,
+  scoreIssues,
+  selectBestAttempt,
+  withContinuityIssues,
+  type SceneAttempt,
+  type SceneAttemptSelection,
+} from "../tools/scene-attempts.js";
 
 const log = (msg: string, data?: Record<string, unknown>) => {
   const payload = data ? ` ${JSON.stringify(data)}` : "";
   console.log(`[cr] ${msg}${payload}`);
 };
 
-const MAX_RETRIES = 2;
-const VALIDATION_CONCURRENCY = 5;
+export const VALIDATION_CONCURRENCY = 5;
 
 const PerSceneIssueSchema = z.object({
   issue: z.string(),
@@ -32,17 +54,19 @@ const PerSceneValidationSchema = z.object({
   issues: z.array(PerSceneIssueSchema),
 });
 
-function parseKeyEventLineRange(
-  keyEvent: string
-): { start: number; end: number } | null {
-  const match = keyEvent.match(/^\s*\[L(\d+)(?:-L?(\d+))?\]/i);
-  if (!match) return null;
-  const start = Number.parseInt(match[1], 10);
-  const end = Number.parseInt(match[2] ?? match[1], 10);
-  if (!Number.isFinite(start) || !Number.isFinite(end)) return null;
-  if (start <= 0 || end <= 0 || end < start) return null;
-  return { start, end };
-}
+const SessionIssueSchema = z.object({
+  sceneIds: z.array(z.number()).describe("Identifiants des scènes en cause"),
+  issue: z.string(),
+  severity: z.enum(["error", "warning", "info"]),
+  suggestion: z.string().optional(),
+});
+
+const SessionContinuitySchema = z.object({
+  isConsistent: z.boolean(),
+  issues: z.array(SessionIssueSchema),
+});
+
+type ValidationIssue = z.infer<typeof ValidationReportSchema>["issues"][number];
 
 function truncateForIssue(value: string, maxLength = 140): string {
   const compact = value.replace(/\s+/g, " ").trim();
@@ -58,10 +82,92 @@ function chunkArray<T>(arr: T[], size: number): T[][] {
   return chunks;
 }
 
+// ── Session continuity ───────────────────────────────────────────────────────
+
+/**
+ * Whole-session pass over every narrative scene summary: contradictions no
+ * per-scene validation can see (a dead NPC back on stage, a lost item used
+ * later, a name spelled two ways). Issues carry the scene ids involved.
+ */
+async function validateSessionContinuity(
+  state: WorkflowStateType,
+  config?: LangGraphRunnableConfig
+): Promise<ValidationIssue[]> {
+  const narrativeIds = new Set(
+    state.scenes.filter((s) => s.type !== "meta" && s.type !== "pause").map((s) => s.id)
+  );
+  const summaries = state.sceneSummaries
+    .filter((summary) => narrativeIds.has(summary.sceneId))
+    .sort((a, b) => a.sceneId - b.sceneId);
+  if (summaries.length < 2) return [];
+
+  const nameIssues = findNameVariants(summaries, state.entities).flatMap(
+    (finding): ValidationIssue[] => {
+      const spellings = finding.variants
+        .map((v) => `"${v.name}" (scene(s) ${v.sceneIds.join(", ")})`)
+        .join(", ");
+      if (!finding.canonical) {
+        return [
+          {
+            sceneIds: [...new Set(finding.variants.flatMap((v) => v.sceneIds))],
+            issue: `Meme PNJ probablement ecrit de plusieurs facons: ${spellings}`,
+            severity: "warning",
+            suggestion: "Choisis une orthographe d'apres le transcript et garde-la dans toutes les scenes.",
+          },
+        ];
+      }
+      return finding.variants
+        .filter((v) => normalizeForCompare(v.name) !== normalizeForCompare(finding.canonical!))
+        .map((v) => ({
+          sceneIds: v.sceneIds,
+          issue: `Nom ecrit "${v.name}" au lieu de "${finding.canonical}" (orthographes relevees: ${spellings})`,
+          severity: "error" as const,
+          suggestion: `Ecris "${finding.canonical}", comme dans les entites et les autres scenes.`,
+        }));
+    }
+  );
+
+  const systemPrompt = CONTINUITY_SYSTEM_PROMPT.replace(
+    "{universeContext}",
+    state.universeContext || "Non spécifié."
+  ).replace("{entities}", JSON.stringify(state.entities, null, 2));
+  const scenesContent = summaries
+    .map((summary) => {
+      const scene = state.scenes.find((s) => s.id === summary.sceneId);
+      return (
+        `## Scène ${summary.sceneId} : ${scene?.title ?? "?"}\n` +
+        `${summary.narrativeSummary}\n\n` +
+        `Key events:\n${summary.keyEvents.map((e) => `- ${e}`).join("\n")}\n\n` +
+        `PNJs: ${summary.npcsInvolved.join(", ") || "aucun"}`
+      );
+    })
+    .join("\n\n---\n\n");
+
+  const output = await createStructuredModel("validator", SessionContinuitySchema).invoke(
+    [
+      new SystemMessage(systemPrompt),
+      new HumanMessage(
+        `Relis la session entière et signale les contradictions entre scènes.\n\n${scenesContent}\n\n` +
+          `Retourne uniquement le JSON structuré demandé.`
+      ),
+    ],
+    { signal: config?.signal }
+  );
+
+  // Identifiants inventés ou scènes non racontées : écartés
+  const modelIssues = output.issues.flatMap((issue): ValidationIssue[] => {
+    const sceneIds = [...new Set(issue.sceneIds)].filter((id) => narrativeIds.has(id));
+    return sceneIds.length > 0 ? [{ ...issue, sceneIds }] : [];
+  });
+
+  return [...modelIssues, ...nameIssues];
+}
+
 // ── Validator node ───────────────────────────────────────────────────────────
 
 export async function validatorNode(
-  state: WorkflowStateType
+  state: WorkflowStateType,
+  config?: LangGraphRunnableConfig
 ): Promise<Partial<WorkflowStateType>> {
   const scenesToValidate = state.sceneSummaries.length;
   log("Début nœud: validator", {
@@ -70,7 +176,6 @@ export async function validatorNode(
     retryCount: state.retryCount,
     pendingSceneIds: state.pendingSceneIds,
   });
-  const model = createModel("flash", 0.1);
   const writer = getWriter();
 
   const entitiesStr = JSON.stringify(state.entities, null, 2);
@@ -78,6 +183,8 @@ export async function validatorNode(
     .map(([speaker, identity]) => `${speaker} -> ${identity}`)
     .join("\n");
   const characterIdentities = buildCharacterIdentities(state);
+  const characterGenders = buildCharacterGenders(state);
+  const { lines } = preprocessSessionTranscript(state);
 
   const systemPrompt = VALIDATOR_SYSTEM_PROMPT.replace(
     "{universeContext}",
@@ -89,39 +196,33 @@ export async function validatorNode(
       speakerMapStr || "Aucune carte des speakers disponible."
     );
 
-  const structuredModel = model.withStructuredOutput(PerSceneValidationSchema);
-
-  // On retry, only validate scenes that were re-summarized (pendingSceneIds)
-  const sceneIdsToValidate =
-    state.retryCount > 0 && state.pendingSceneIds.length > 0
-      ? new Set(state.pendingSceneIds)
-      : null;
-
-  const scenesWithSummaries = state.sceneSummaries
-    .map((summary) => ({
-      summary,
-      scene: state.scenes.find((s) => s.id === summary.sceneId),
-    }))
-    .filter(
-      (entry): entry is {
-        summary: (typeof state.sceneSummaries)[number];
-        scene: (typeof state.scenes)[number];
-      } => !!entry.scene
-    )
-    .filter((entry) => entry.scene.type !== "meta" && entry.scene.type !== "pause")
-    .filter((entry) => !sceneIdsToValidate || sceneIdsToValidate.has(entry.scene.id));
-
-  // Carry forward issues from scenes not being re-validated
-  const aggregatedIssues: z.infer<typeof ValidationReportSchema>["issues"] =
-    sceneIdsToValidate
-      ? state.validationReport.issues.filter(
-          (i) => i.sceneId != null && !sceneIdsToValidate.has(i.sceneId)
-        )
-      : [];
+  const structuredModel = createStructuredModel(
+    "validator",
+    PerSceneValidationSchema
+  );
+
+  // Résumé sans tentative enregistrée (checkpoint antérieur) : tentative 1
+  const sceneAttempts: Record<number, SceneAttempt[]> = {};
+  for (const summary of state.sceneSummaries) {
+    sceneAttempts[summary.sceneId] = state.sceneAttempts[summary.sceneId] ?? [
+      { attempt: 1, summary, issues: null, score: null },
+    ];
+  }
+
+  const narrativeScenes = state.scenes.filter(
+    (s) => s.type !== "meta" && s.type !== "pause" && sceneAttempts[s.id]
+  );
+
+  // Only the latest attempt of a scene is validated, once; earlier attempts
+  // keep their score
+  const scenesWithSummaries = narrativeScenes.flatMap((scene) => {
+    const latest = sceneAttempts[scene.id].at(-1)!;
+    return latest.score === null ? [{ scene, summary: latest.summary }] : [];
+  });
 
   const batches = chunkArray(scenesWithSummaries, VALIDATION_CONCURRENCY);
   for (const batch of batches) {
-    const batchResults = await Promise.all(
+    await Promise.all(
       batch.map(async ({ scene, summary }) => {
         writer?.({
           event: "step:start",
@@ -143,39 +244,42 @@ export async function validatorNode(
           scene.endLine
         );
 
-        const perSceneValidation = await structuredModel.invoke([
-          new SystemMessage(systemPrompt),
-          new HumanMessage(
-            `Valide cette scène précisément. Tu as le contexte global, mais tu dois juger la fidélité du résumé par rapport au transcript de CETTE scène.\n\n` +
-              `## Scène ${scene.id}: ${scene.title}\n` +
-              `Type: ${scene.type} | Lieu: ${scene.location || "?"}\n` +
-              `Lignes: ${scene.startLine}-${scene.endLine}\n\n` +
-              `## Transcript source exact (subset)\n` +
-              `\`\`\`\n${sceneText}\n\`\`\`\n\n` +
-              `## Résumé produit pour cette scène\n` +
-              `Narrative:\n${summary.narrativeSummary}\n\n` +
-              `Key events:\n${summary.keyEvents.map((e) => `- ${e}`).join("\n")}\n\n` +
-              `Dice rolls:\n${summary.diceRolls.map((d) => `- ${d.character} | ${d.skill} | ${d.result} | ${d.context}`).join("\n")}\n\n` +
-              `NPCs:\n${summary.npcsInvolved.map((n) => `- ${n}`).join("\n")}\n\n` +
-              `Technical notes:\n${(summary.technicalNotes || []).map((n) => `- ${n}`).join("\n")}\n\n` +
-              `## Ce que tu dois vérifier\n` +
-              `1. Fidélité stricte au transcript (pas d'invention)\n` +
-              `2. Omissions majeures (événements, dialogues clés, jets de dés)\n` +
-              `3. Cohérence des noms/personnages/PNJs\n` +
-              `4. Cohérence mécanique (jets, conséquences)\n` +
-              `5. Clarté et complétude narrative\n` +
-              `6. Chronologie stricte: le résumé suit l'ordre réel des événements dans cette scène\n` +
-              `7. ⚠️ ATTRIBUTION DES ACTIONS (CRITIQUE): Pour CHAQUE action majeure mentionnée dans le résumé:\n` +
-              `   - Identifie dans le transcript source QUEL speaker/personnage réalise cette action\n` +
-              `   - Vérifie que le résumé attribue l'action au BON personnage\n` +
-              `   - Si l'attribution est incorrecte, c'est une "error"\n` +
-              `   - Vérifie aussi: qui parle, qui décide, qui agit, qui subit, qui lance les dés\n` +
-              `   - Les jets de dés doivent être attribués au personnage qui lance, pas à la cible\n` +
-              `8. Interdiction de fusion d'identité (ex: combinaison de 2 personnages dans un nom hybride)\n` +
-              `9. Traçabilité: les keyEvents pointent vers des lignes plausibles [Lx] ou [Lx-Ly]\n\n` +
-              `Retourne uniquement le JSON structuré demandé.`
-          ),
-        ]);
+        const perSceneValidation = await structuredModel.invoke(
+          [
+            new SystemMessage(systemPrompt),
+            new HumanMessage(
+              `Valide cette scène précisément. Tu as le contexte global, mais tu dois juger la fidélité du résumé par rapport au transcript de CETTE scène.\n\n` +
+                `## Scène ${scene.id}: ${scene.title}\n` +
+                `Type: ${scene.type} | Lieu: ${scene.location || "?"}\n` +
+                `Lignes: ${scene.startLine}-${scene.endLine}\n\n` +
+                `## Transcript source exact (subset)\n` +
+                `\`\`\`\n${sceneText}\n\`\`\`\n\n` +
+                `## Résumé produit pour cette scène\n` +
+                `Narrative:\n${summary.narrativeSummary}\n\n` +
+                `Key events:\n${summary.keyEvents.map((e) => `- ${e}`).join("\n")}\n\n` +
+                `Dice rolls:\n${summary.diceRolls.map((d) => `- ${d.character} | ${d.skill} | ${d.result} | ${d.context}`).join("\n")}\n\n` +
+                `NPCs:\n${summary.npcsInvolved.map((n) => `- ${n}`).join("\n")}\n\n` +
+                `Technical notes:\n${(summary.technicalNotes || []).map((n) => `- ${n}`).join("\n")}\n\n` +
+                `## Ce que tu dois vérifier\n` +
+                `1. Fidélité stricte au transcript (pas d'invention)\n` +
+                `2. Omissions majeures (événements, dialogues clés, jets de dés)\n` +
+                `3. Cohérence des noms/personnages/PNJs\n` +
+                `4. Cohérence mécanique (jets, conséquences)\n` +
+                `5. Clarté et complétude narrative\n` +
+                `6. Chronologie stricte: le résumé suit l'ordre réel des événements dans cette scène\n` +
+                `7. ⚠️ ATTRIBUTION DES ACTIONS (CRITIQUE): Pour CHAQUE action majeure mentionnée dans le résumé:\n` +
+                `   - Identifie dans le transcript source QUEL speaker/personnage réalise cette action\n` +
+                `   - Vérifie que le résumé attribue l'action au BON personnage\n` +
+                `   - Si l'attribution est incorrecte, c'est une "error"\n` +
+                `   - Vérifie aussi: qui parle, qui décide, qui agit, qui subit, qui lance les dés\n` +
+                `   - Les jets de dés doivent être attribués au personnage qui lance, pas à la cible\n` +
+                `8. Interdiction de fusion d'identité (ex: combinaison de 2 personnages dans un nom hybride)\n` +
+                `9. Traçabilité: les keyEvents pointent vers des lignes plausibles [Lx] ou [Lx-Ly]\n\n` +
+                `Retourne uniquement le JSON structuré demandé.`
+            ),
+          ],
+          { signal: config?.signal, metadata: { sceneId: scene.id } }
+        );
 
         const summaryTextForChecks = [
           summary.narrativeSummary,
@@ -190,6 +294,50 @@ export async function validatorNode(
           severity: "error" as const,
           suggestion: `Corriger l'attribution en separant clairement "${finding.leftCanonical}" et "${finding.rightCanonical}".`,
         }));
+        const genderIssues = findGenderAgreementIssues(
+          summaryTextForChecks,
+          characterGenders
+        ).map((finding) => ({
+          issue: `Accord en genre incorrect pour ${finding.name} (${finding.pronouns}): "${finding.excerpt}"`,
+          severity: "warning" as const,
+          suggestion: `Accorde "${finding.word}" au ${
+            finding.pronouns === "elle" ? "feminin" : "masculin"
+          }, et verifie les pronoms qui renvoient a ${finding.name}.`,
+        }));
+        const sceneLines = lines.filter(
+          (l) => l.lineNumber >= scene.startLine && l.lineNumber <= scene.endLine
+        );
+        const diceIssues = checkDiceConsistency(summary, sceneLines).map((finding) => {
+          switch (finding.kind) {
+            case "altered":
+              return {
+                issue: `Resultat de jet modifie pour ${finding.character}: "${truncateForIssue(
+                  finding.result
+                )}" ne correspond pas a L${finding.lineNumber} "${truncateForIssue(finding.lineText)}"`,
+                severity: "error" as const,
+                suggestion: `Reprends le resultat tel qu'il est annonce a L${finding.lineNumber}.`,
+              };
+            case "invented":
+              return {
+                issue: `Resultat de jet absent du transcript (${finding.numbers.join(", ")})${
+                  finding.lineNumber !== undefined ? ` pour L${finding.lineNumber}` : ""
+                } dans ${finding.source === "narrative" ? "le recit" : "diceRolls"}: "${truncateForIssue(
+                  finding.excerpt
+                )}"`,
+                severity: "error" as const,
+                suggestion:
+                  "Supprime ce nombre ou remplace-le par le resultat annonce dans le transcript de la scene.",
+              };
+            case "missing":
+              return {
+                issue: `Jet de des L${finding.lineNumber} absent de diceRolls: "${truncateForIssue(
+                  finding.lineText
+                )}"`,
+                severity: "warning" as const,
+                suggestion: `Ajoute ce jet a diceRolls avec le repere [L${finding.lineNumber}] en debut de context.`,
+              };
+          }
+        });
         const keyEventLineIssues = summary.keyEvents.flatMap((event) => {
           const range = parseKeyEventLineRange(event);
           if (!range) {
@@ -215,68 +363,131 @@ export async function validatorNode(
           }
           return [];
         });
-        const sceneIssues = [...perSceneValidation.issues, ...ruleBasedIssues];
-        sceneIssues.push(...keyEventLineIssues);
+        const coverageIssues = findCoverageGaps(sceneLines, summary.keyEvents).map(
+          (gap) => ({
+            issue: `Passage non couvert par les key events: L${gap.startLine}-L${gap.endLine} (${gap.lineCount} lignes de jeu${
+              gap.diceRollCount > 0 ? `, dont ${gap.diceRollCount} jet(s) de des` : ""
+            })`,
+            severity: gap.severity,
+            suggestion: `Verifie ce qui se passe entre L${gap.startLine} et L${gap.endLine} et ajoute le ou les key events manquants avec leur repere de lignes.`,
+          })
+        );
+        const sceneIssues = [
+          ...perSceneValidation.issues,
+          ...ruleBasedIssues,
+          ...genderIssues,
+          ...diceIssues,
+        ];
+        sceneIssues.push(...keyEventLineIssues, ...coverageIssues);
+
+        const issues = sceneIssues.map((issue) => ({ ...issue, sceneId: scene.id }));
+        const attempts = sceneAttempts[scene.id].map((a) =>
+          a.score === null ? { ...a, issues, score: scoreIssues(issues) } : a
+        );
+        sceneAttempts[scene.id] = attempts;
+        const selection = selectBestAttempt(scene.id, attempts)!;
 
         writer?.({
           event: "step:complete",
           payload: {
             step: `validator_scene_${scene.id}`,
-            label: `Validation scène ${scene.id} : ${scene.title} — ${sceneIssues.length} issue(s)`,
+            label:
+              `Validation scène ${scene.id} : ${scene.title} — ${sceneIssues.length} issue(s)` +
+              (attempts.length > 1
+                ? `, tentative ${selection.attempt}/${attempts.length} retenue`
+                : ""),
             data: {
               sceneId: scene.id,
               title: scene.title,
               startLine: scene.startLine,
               endLine: scene.endLine,
               issuesCount: sceneIssues.length,
+              attempt: attempts.length,
+              selection,
             },
           },
         });
-
-        return {
-          sceneId: scene.id,
-          issues: sceneIssues.map((issue) => ({
-            ...issue,
-            sceneId: scene.id,
-          })),
-        };
       })
     );
+  }
+
+  // Chaque scène est représentée par sa meilleure tentative
+  const selectAttempts = () =>
+    narrativeScenes.flatMap((scene) => {
+      const selection = selectBestAttempt(scene.id, sceneAttempts[scene.id]);
+      if (!selection) return [];
+      const selected = sceneAttempts[scene.id].find((a) => a.attempt === selection.attempt)!;
+      return [{ selection, selected }];
+    });
+
+  // Continuité : recalculée à chaque passe sur les tentatives retenues, puis
+  // comptée dans leur score
+  writer?.({
+    event: "step:progress",
+    payload: { step: "validator", label: "Validation de la continuité de la session..." },
+  });
+  const sessionIssues = await validateSessionContinuity(
+    { ...state, sceneSummaries: selectAttempts().map(({ selected }) => selected.summary) },
+    config
+  );
+  for (const { selection, selected } of selectAttempts()) {
+    const continuityIssues = sessionIssues.filter((i) => i.sceneIds?.includes(selection.sceneId));
+    sceneAttempts[selection.sceneId] = sceneAttempts[selection.sceneId].map((a) =>
+      a === selected ? withContinuityIssues(a, continuityIssues) : a
+    );
+  }
 
-    for (const result of batchResults) {
-      aggregatedIssues.push(...result.issues);
+  // Sélection finale : une tentative que la continuité pénalise peut céder sa place
+  const finalSelection = selectAttempts();
+  const selections: SceneAttemptSelection[] = finalSelection.map(({ selection }) => selection);
+  const selectedSummaries: WorkflowStateType["sceneSummaries"] = finalSelection.map(
+    ({ selected }) => selected.summary
+  );
+  const aggregatedIssues: ValidationIssue[] = [];
+  const continuityKeys = new Set<string>();
+  for (const { selected } of finalSelection) {
+    aggregatedIssues.push(...(selected.issues ?? []));
+    // Un problème de continuité cite plusieurs scènes : rapporté une fois
+    for (const issue of selected.continuityIssues ?? []) {
+      const key = JSON.stringify(issue);
+      if (continuityKeys.has(key)) continue;
+      continuityKeys.add(key);
+      aggregatedIssues.push(issue);
     }
   }
 
   const hasErrors = aggregatedIssues.some((i) => i.severity === "error");
+  // Une scène est en erreur d'après le score de sa tentative retenue, qui
+  // compte ses problèmes propres et ceux de continuité qui la citent
+  const errorSceneIds = selections
+    .filter((selection) => selection.score.errors > 0)
+    .map((selection) => selection.sceneId);
+  // Scènes en erreur renvoyées au summarizer tant que leur budget le permet ;
+  // une file vide envoie le workflow au formatter
+  const pendingSceneIds = errorSceneIds.filter(
+    (id) => sceneAttempts[id] && hasAttemptsLeft(sceneAttempts[id])
+  );
   log("Fin nœud: validator", {
     isValid: !hasErrors,
     issuesCount: aggregatedIssues.length,
     errorsCount: aggregatedIssues.filter((i) => i.severity === "error").length,
+    sessionIssuesCount: sessionIssues.length,
     retryCount: state.retryCount + 1,
+    pendingSceneIds,
+    exhaustedSceneIds: errorSceneIds.filter((id) => !pendingSceneIds.includes(id)),
   });
-  const pendingSceneIds = hasErrors
-    ? [
-        ...new Set(
-          aggregatedIssues
-            .filter((i) => i.severity === "error" && i.sceneId != null)
-            .map((i) => i.sceneId!)
-        ),
-      ]
-    : [];
 
   return {
+    sceneSummaries: selectedSummaries,
+    sceneAttempts,
+    sceneAttemptSelections: selections,
     validationReport: {
       isValid: !hasErrors,
       issues: aggregatedIssues,
     },
     retryCount: state.retryCount + 1,
-    ...(pendingSceneIds.length > 0 && state.retryCount + 1 < MAX_RETRIES
-      ? {
-          pendingSceneIds,
-          currentSceneIndex: 0,
-        }
-      : {}),
+    pendingSceneIds,
+    currentSceneIndex: 0,
     currentStep: "validator_complete",
   };
 }
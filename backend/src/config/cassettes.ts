@@ -0,0 +1,109 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { resolve, join } from "path";
+import { fileURLToPath } from "url";
+import type { BaseMessage } from "@langchain/core/messages";
+import { Runnable, RunnableLambda } from "@langchain/core/runnables";
+
+/**
+ * Record/replay des réponses LLM ("cassettes").
+ *
+ * LLM_CASSETTE_MODE=record : appelle le vrai modèle et enregistre chaque
+ * réponse dans LLM_CASSETTE_DIR, sous un nom dérivé du hash du prompt.
+ * LLM_CASSETTE_MODE=replay : relit les réponses enregistrées sans aucun appel
+ * réseau ; un prompt inconnu est une erreur.
+ */
+
+export type CassetteMode = "off" | "record" | "replay";
+
+type Cassette = {
+  node: string;
+  promptHash: string;
+  recordedAt: string;
+  output: unknown;
+};
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const defaultCassetteDir = resolve(__dirname, "..", "..", "data", "cassettes");
+
+export function getCassetteMode(): CassetteMode {
+  const mode = process.env.LLM_CASSETTE_MODE?.trim().toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "off";
+}
+
+function getCassetteDir(): string {
+  return process.env.LLM_CASSETTE_DIR?.trim() || defaultCassetteDir;
+}
+
+/**
+ * Hash of everything that determines the model answer: node, expected output
+ * schema and the exact messages sent.
+ */
+function hashPrompt(
+  node: string,
+  outputKey: string,
+  messages: BaseMessage[]
+): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        node,
+        output: outputKey,
+        messages: messages.map((m) => ({ type: m.getType(), content: m.content })),
+      })
+    )
+    .digest("hex");
+}
+
+function cassettePath(node: string, promptHash: string): string {
+  return join(getCassetteDir(), `${node}-${promptHash.slice(0, 24)}.json`);
+}
+
+/**
+ * Wraps a model runnable with the configured cassette mode. `createInner` is
+ * only called when a real call is needed, so replay works without any
+ * provider credentials.
+ */
+export function withCassette<T>(
+  node: string,
+  outputKey: string,
+  createInner: () => Runnable<BaseMessage[], T>,
+  codec: {
+    encode: (value: T) => unknown;
+    decode: (value: unknown) => T;
+  } = { encode: (v) => v, decode: (v) => v as T }
+): Runnable<BaseMessage[], T> {
+  const mode = getCassetteMode();
+  if (mode === "off") return createInner();
+
+  let inner: Runnable<BaseMessage[], T> | null = null;
+
+  return RunnableLambda.from(
+    async (messages: BaseMessage[], options): Promise<T> => {
+      const promptHash = hashPrompt(node, outputKey, messages);
+      const path = cassettePath(node, promptHash);
+
+      if (mode === "replay") {
+        if (!existsSync(path)) {
+          throw new Error(
+            `Cassette introuvable pour le nœud ${node} (${promptHash.slice(0, 12)}). Relance en mode record.`
+          );
+        }
+        const cassette = JSON.parse(readFileSync(path, "utf-8")) as Cassette;
+        return codec.decode(cassette.output);
+      }
+
+      inner ??= createInner();
+      const output = await inner.invoke(messages, options);
+      const cassette: Cassette = {
+        node,
+        promptHash,
+        recordedAt: new Date().toISOString(),
+        output: codec.encode(output),
+      };
+      mkdirSync(getCassetteDir(), { recursive: true });
+      writeFileSync(path, JSON.stringify(cassette, null, 2), "utf-8");
+      return output;
+    }
+  );
+}
@@ -0,0 +1,10 @@
+import { SqliteSaver } from "@langchain/langgraph-checkpoint-sqlite";
+import db from "./database.js";
+
+/**
+ * LangGraph checkpoints stored in the application database (tables
+ * `checkpoints` / `writes` created by SqliteSaver). The thread id of a run is
+ * the process job id, so a failed or interrupted job can be resumed from its
+ * last completed node.
+ */
+export const workflowCheckpointer = new SqliteSaver(db);
@@ -2,6 +2,19 @@ import Database, { type Database as DatabaseType } from "better-sqlite3";
 import { existsSync, mkdirSync, readFileSync, readdirSync } from "fs";
 import { resolve, join } from "path";
 import { fileURLToPath } from "url";
+import type { z } from "zod";
+import type {
+  EntitySchema,
+  SceneSchema,
+  SceneSummarySchema,
+  TableTalkNotesSchema,
+  ValidationReportSchema,
+} from "../graph/state.js";
+import type {
+  SceneAttempt,
+  SceneAttemptSelection,
+} from "../tools/scene-attempts.js";
+import type { SummaryPatchRecord } from "../tools/summary-patch.js";
 
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
 const dataDir = resolve(__dirname, "..", "data");
@@ -75,6 +88,136 @@ function runMigrations(): void {
         );
       `,
     },
+    {
+      name: "003_report_workflow_state",
+      sql: `
+        CREATE TABLE IF NOT EXISTS report_workflow_state (
+          report_id TEXT PRIMARY KEY REFERENCES reports(id) ON DELETE CASCADE,
+          preprocessed_transcript TEXT NOT NULL DEFAULT '',
+          universe_context TEXT NOT NULL DEFAULT '',
+          session_history TEXT NOT NULL DEFAULT '',
+          speaker_map_json TEXT NOT NULL DEFAULT '{}',
+          entities_json TEXT NOT NULL DEFAULT '{"pcs":[],"npcs":[],"locations":[],"items":[]}',
+          validation_report_json TEXT NOT NULL DEFAULT '{"isValid":true,"issues":[]}',
+          retry_count INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS report_scenes (
+          report_id TEXT NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+          scene_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          type TEXT NOT NULL,
+          start_line INTEGER NOT NULL,
+          end_line INTEGER NOT NULL,
+          location TEXT,
+          summary TEXT,
+          PRIMARY KEY (report_id, scene_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS report_scene_summaries (
+          report_id TEXT NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+          scene_id INTEGER NOT NULL,
+          narrative_summary TEXT NOT NULL,
+          key_events_json TEXT NOT NULL DEFAULT '[]',
+          dice_rolls_json TEXT NOT NULL DEFAULT '[]',
+          npcs_involved_json TEXT NOT NULL DEFAULT '[]',
+          technical_notes_json TEXT,
+          PRIMARY KEY (report_id, scene_id)
+        );
+      `,
+    },
+    {
+      name: "004_process_jobs",
+      sql: `
+        CREATE TABLE IF NOT EXISTS process_jobs (
+          id TEXT PRIMARY KEY,
+          status TEXT NOT NULL DEFAULT 'pending',
+          transcript_name TEXT NOT NULL,
+          universe_name TEXT NOT NULL,
+          input_json TEXT NOT NULL,
+          error TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_process_jobs_status
+          ON process_jobs (status, created_at);
+      `,
+    },
+    {
+      name: "005_job_scene_summaries",
+      sql: `
+        CREATE TABLE IF NOT EXISTS job_scene_summaries (
+          thread_id TEXT NOT NULL,
+          scene_id INTEGER NOT NULL,
+          retry_count INTEGER NOT NULL,
+          summary_json TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          PRIMARY KEY (thread_id, scene_id, retry_count)
+        );
+      `,
+    },
+    {
+      name: "006_job_events",
+      sql: `
+        CREATE TABLE IF NOT EXISTS job_events (
+          job_id TEXT NOT NULL REFERENCES process_jobs(id) ON DELETE CASCADE,
+          event_id INTEGER NOT NULL,
+          type TEXT NOT NULL,
+          data_json TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (job_id, event_id)
+        );
+      `,
+    },
+    {
+      name: "007_llm_usage",
+      sql: `
+        CREATE TABLE IF NOT EXISTS llm_usage (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_id TEXT REFERENCES process_jobs(id) ON DELETE CASCADE,
+          report_id TEXT REFERENCES reports(id) ON DELETE SET NULL,
+          node TEXT NOT NULL,
+          scene_id INTEGER,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          prompt_tokens INTEGER NOT NULL,
+          completion_tokens INTEGER NOT NULL,
+          latency_ms INTEGER NOT NULL,
+          cost_usd REAL,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_llm_usage_job ON llm_usage(job_id);
+        CREATE INDEX IF NOT EXISTS idx_llm_usage_report ON llm_usage(report_id);
+      `,
+    },
+    {
+      name: "008_report_table_talk",
+      sql: `
+        ALTER TABLE report_workflow_state ADD COLUMN table_talk_json TEXT;
+      `,
+    },
+    {
+      name: "009_report_scene_attempts",
+      sql: `
+        ALTER TABLE report_workflow_state ADD COLUMN scene_attempts_json TEXT;
+        ALTER TABLE report_workflow_state ADD COLUMN scene_attempt_selections_json TEXT;
+      `,
+    },
+    {
+      name: "010_report_scene_times",
+      sql: `
+        ALTER TABLE report_scenes ADD COLUMN start_time REAL;
+        ALTER TABLE report_scenes ADD COLUMN end_time REAL;
+      `,
+    },
+    {
+      name: "011_job_scene_summary_patches",
+      sql: `
+        ALTER TABLE job_scene_summaries ADD COLUMN patch_json TEXT;
+      `,
+    },
   ];
 
   const insertMigration = db.prepare(
@@ -156,6 +299,40 @@ export function upsertEditorDraft(
 
 // ── Reports ──────────────────────────────────────────────────────────────────
 
+type Scene = z.infer<typeof SceneSchema>;
+type SceneSummary = z.infer<typeof SceneSummarySchema>;
+
+/**
+ * Final workflow state persisted with a report. Stored across the
+ * report_workflow_state / report_scenes / report_scene_summaries tables so
+ * scenes and their summaries can be edited individually.
+ */
+export interface ReportWorkflowState {
+  preprocessedTranscript: string;
+  universeContext: string;
+  sessionHistory: string;
+  speakerMap: Record<string, string>;
+  entities: z.infer<typeof EntitySchema>;
+  scenes: Scene[];
+  sceneSummaries: SceneSummary[];
+  validationReport: z.infer<typeof ValidationReportSchema>;
+  retryCount: number;
+  /**
+   * Notes hors-jeu ; absentes des rapports antérieurs. Même clé que dans
+   * l'état du workflow : le formatter les relit quand une scène est modifiée.
+   */
+  tableTalkNotes?: z.infer<typeof TableTalkNotesSchema> | null;
+  /** Toutes les tentatives de résumé par scène, avec leur score de validation. */
+  sceneAttempts?: Record<number, SceneAttempt[]>;
+  /** Tentative retenue pour chaque scène, et pourquoi. */
+  sceneAttemptSelections?: SceneAttemptSelection[];
+}
+
+/** Scene as exposed for editing: `summary` is the full scene summary. */
+export interface ReportSceneRow extends Omit<Scene, "summary"> {
+  summary: SceneSummary | null;
+}
+
 export interface ReportRow {
   id: string;
   jobId: string | null;
@@ -163,7 +340,7 @@ export interface ReportRow {
   universeName: string;
   transcriptName: string;
   players: Array<{ playerName: string; characterName: string; speakerHint?: string }>;
-  workflowState: Record<string, unknown> | null;
+  workflowState: ReportWorkflowState | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -174,10 +351,99 @@ export interface ReportSummaryRow {
   universeName: string;
   transcriptName: string;
   players: Array<{ playerName: string; characterName: string; speakerHint?: string }>;
+  /** Total LLM cost in USD (job + corrections), null when unknown. */
+  costUsd: number | null;
   createdAt: string;
   updatedAt: string;
 }
 
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeReportWorkflowState(
+  reportId: string,
+  workflowState: ReportWorkflowState
+): void {
+  db.prepare("DELETE FROM report_scene_summaries WHERE report_id = ?").run(
+    reportId
+  );
+  db.prepare("DELETE FROM report_scenes WHERE report_id = ?").run(reportId);
+
+  db.prepare(
+    `INSERT INTO report_workflow_state (report_id, preprocessed_transcript, universe_context, session_history, speaker_map_json, entities_json, validation_report_json, retry_count, table_talk_json, scene_attempts_json, scene_attempt_selections_json)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(report_id) DO UPDATE SET
+       preprocessed_transcript = excluded.preprocessed_transcript,
+       universe_context = excluded.universe_context,
+       session_history = excluded.session_history,
+       speaker_map_json = excluded.speaker_map_json,
+       entities_json = excluded.entities_json,
+       validation_report_json = excluded.validation_report_json,
+       retry_count = excluded.retry_count,
+       table_talk_json = excluded.table_talk_json,
+       scene_attempts_json = excluded.scene_attempts_json,
+       scene_attempt_selections_json = excluded.scene_attempt_selections_json`
+  ).run(
+    reportId,
+    workflowState.preprocessedTranscript,
+    workflowState.universeContext,
+    workflowState.sessionHistory,
+    JSON.stringify(workflowState.speakerMap),
+    JSON.stringify(workflowState.entities),
+    JSON.stringify(workflowState.validationReport),
+    workflowState.retryCount,
+    workflowState.tableTalkNotes ? JSON.stringify(workflowState.tableTalkNotes) : null,
+    workflowState.sceneAttempts
+      ? JSON.stringify(workflowState.sceneAttempts)
+      : null,
+    workflowState.sceneAttemptSelections
+      ? JSON.stringify(workflowState.sceneAttemptSelections)
+      : null
+  );
+
+  const insertScene = db.prepare(
+    `INSERT INTO report_scenes (report_id, scene_id, position, title, type, start_line, end_line, location, summary, start_time, end_time)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  workflowState.scenes.forEach((scene, position) => {
+    insertScene.run(
+      reportId,
+      scene.id,
+      position,
+      scene.title,
+      scene.type,
+      scene.startLine,
+      scene.endLine,
+      scene.location ?? null,
+      scene.summary ?? null,
+      scene.startTime ?? null,
+      scene.endTime ?? null
+    );
+  });
+
+  const insertSummary = db.prepare(
+    `INSERT INTO report_scene_summaries (report_id, scene_id, narrative_summary, key_events_json, dice_rolls_json, npcs_involved_json, technical_notes_json)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  for (const summary of workflowState.sceneSummaries) {
+    insertSummary.run(
+      reportId,
+      summary.sceneId,
+      summary.narrativeSummary,
+      JSON.stringify(summary.keyEvents),
+      JSON.stringify(summary.diceRolls),
+      JSON.stringify(summary.npcsInvolved),
+      summary.technicalNotes ? JSON.stringify(summary.technicalNotes) : null
+    );
+  }
+}
+
 export function insertReport(report: {
   id: string;
   jobId?: string | null;
@@ -185,20 +451,24 @@ export function insertReport(report: {
   universeName: string;
   transcriptName: string;
   players: Array<{ playerName: string; characterName: string; speakerHint?: string }>;
-  workflowState?: Record<string, unknown> | null;
+  workflowState?: ReportWorkflowState | null;
 }): void {
-  db.prepare(
-    `INSERT INTO reports (id, job_id, report_md, universe_name, transcript_name, players_json, workflow_state_json, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`
-  ).run(
-    report.id,
-    report.jobId ?? null,
-    report.reportMd,
-    report.universeName,
-    report.transcriptName,
-    JSON.stringify(report.players),
-    report.workflowState ? JSON.stringify(report.workflowState) : null
-  );
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO reports (id, job_id, report_md, universe_name, transcript_name, players_json, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`
+    ).run(
+      report.id,
+      report.jobId ?? null,
+      report.reportMd,
+      report.universeName,
+      report.transcriptName,
+      JSON.stringify(report.players)
+    );
+    if (report.workflowState) {
+      writeReportWorkflowState(report.id, report.workflowState);
+    }
+  })();
 }
 
 export function updateReportMd(reportId: string, reportMd: string): void {
@@ -209,11 +479,206 @@ export function updateReportMd(reportId: string, reportMd: string): void {
 
 export function updateReportWorkflowState(
   reportId: string,
-  workflowState: Record<string, unknown>
+  workflowState: ReportWorkflowState
 ): void {
-  db.prepare(
-    `UPDATE reports SET workflow_state_json = ?, updated_at = datetime('now') WHERE id = ?`
-  ).run(JSON.stringify(workflowState), reportId);
+  db.transaction(() => {
+    writeReportWorkflowState(reportId, workflowState);
+    db.prepare(
+      `UPDATE reports SET updated_at = datetime('now') WHERE id = ?`
+    ).run(reportId);
+  })();
+}
+
+type ReportSceneDbRow = {
+  scene_id: number;
+  title: string;
+  type: Scene["type"];
+  start_line: number;
+  end_line: number;
+  location: string | null;
+  summary: string | null;
+  start_time: number | null;
+  end_time: number | null;
+  narrative_summary: string | null;
+  key_events_json: string | null;
+  dice_rolls_json: string | null;
+  npcs_involved_json: string | null;
+  technical_notes_json: string | null;
+};
+
+function toScene(row: ReportSceneDbRow): Scene {
+  return {
+    id: row.scene_id,
+    title: row.title,
+    type: row.type,
+    startLine: row.start_line,
+    endLine: row.end_line,
+    ...(row.location != null ? { location: row.location } : {}),
+    ...(row.summary != null ? { summary: row.summary } : {}),
+    ...(row.start_time != null ? { startTime: row.start_time } : {}),
+    ...(row.end_time != null ? { endTime: row.end_time } : {}),
+  };
+}
+
+function toSceneSummary(row: ReportSceneDbRow): SceneSummary | null {
+  if (row.narrative_summary == null) return null;
+  const technicalNotes = parseJson<string[] | null>(
+    row.technical_notes_json,
+    null
+  );
+  return {
+    sceneId: row.scene_id,
+    narrativeSummary: row.narrative_summary,
+    keyEvents: parseJson(row.key_events_json, []),
+    diceRolls: parseJson(row.dice_rolls_json, []),
+    npcsInvolved: parseJson(row.npcs_involved_json, []),
+    ...(technicalNotes ? { technicalNotes } : {}),
+  };
+}
+
+function readReportSceneRows(reportId: string): ReportSceneDbRow[] {
+  return db
+    .prepare(
+      `SELECT s.scene_id, s.title, s.type, s.start_line, s.end_line, s.location, s.summary, s.start_time, s.end_time,
+              ss.narrative_summary, ss.key_events_json, ss.dice_rolls_json, ss.npcs_involved_json, ss.technical_notes_json
+       FROM report_scenes s
+       LEFT JOIN report_scene_summaries ss
+         ON ss.report_id = s.report_id AND ss.scene_id = s.scene_id
+       WHERE s.report_id = ?
+       ORDER BY s.position ASC`
+    )
+    .all(reportId) as ReportSceneDbRow[];
+}
+
+/**
+ * Scenes of a report joined with their summary by scene id (never by array
+ * position: meta/pause scenes have no summary).
+ */
+export function listReportScenes(reportId: string): ReportSceneRow[] {
+  return readReportSceneRows(reportId).map((row) => {
+    const { summary: _shortSummary, ...scene } = toScene(row);
+    return { ...scene, summary: toSceneSummary(row) };
+  });
+}
+
+export function getReportWorkflowState(
+  reportId: string
+): ReportWorkflowState | null {
+  const row = db
+    .prepare("SELECT * FROM report_workflow_state WHERE report_id = ?")
+    .get(reportId) as
+    | {
+        preprocessed_transcript: string;
+        universe_context: string;
+        session_history: string;
+        speaker_map_json: string;
+        entities_json: string;
+        validation_report_json: string;
+        retry_count: number;
+        table_talk_json: string | null;
+        scene_attempts_json: string | null;
+        scene_attempt_selections_json: string | null;
+      }
+    | undefined;
+
+  if (!row) return null;
+
+  const scenes = readReportSceneRows(reportId).map(toScene);
+  const sceneSummaries = (
+    db
+      .prepare(
+        `SELECT scene_id, narrative_summary, key_events_json, dice_rolls_json, npcs_involved_json, technical_notes_json
+         FROM report_scene_summaries WHERE report_id = ? ORDER BY scene_id ASC`
+      )
+      .all(reportId) as ReportSceneDbRow[]
+  )
+    .map(toSceneSummary)
+    .filter((s): s is SceneSummary => s !== null);
+
+  return {
+    preprocessedTranscript: row.preprocessed_transcript,
+    universeContext: row.universe_context,
+    sessionHistory: row.session_history,
+    speakerMap: parseJson(row.speaker_map_json, {}),
+    entities: parseJson(row.entities_json, {
+      pcs: [],
+      npcs: [],
+      locations: [],
+      items: [],
+    }),
+    scenes,
+    sceneSummaries,
+    validationReport: parseJson(row.validation_report_json, {
+      isValid: true,
+      issues: [],
+    }),
+    retryCount: row.retry_count,
+    tableTalkNotes: parseJson(row.table_talk_json, null),
+    sceneAttempts: parseJson(row.scene_attempts_json, {}),
+    sceneAttemptSelections: parseJson(row.scene_attempt_selections_json, []),
+  };
+}
+
+/**
+ * Dice rolls of every scene summary, for one report or for all reports of a
+ * universe (a campaign), oldest report first.
+ */
+export function listReportDiceRolls(
+  filter: { reportId: string } | { universeName: string }
+): Array<{
+  reportId: string;
+  transcriptName: string;
+  sceneId: number;
+  sceneTitle: string;
+  diceRolls: SceneSummary["diceRolls"];
+}> {
+  const [where, id] =
+    "reportId" in filter
+      ? ["r.id = ?", filter.reportId]
+      : ["r.universe_name = ?", filter.universeName];
+
+  const rows = db
+    .prepare(
+      `SELECT r.id AS report_id, r.transcript_name, ss.scene_id, s.title, ss.dice_rolls_json
+       FROM report_scene_summaries ss
+       JOIN reports r ON r.id = ss.report_id
+       LEFT JOIN report_scenes s ON s.report_id = ss.report_id AND s.scene_id = ss.scene_id
+       WHERE ${where}
+       ORDER BY r.created_at ASC, ss.scene_id ASC`
+    )
+    .all(id) as Array<{
+    report_id: string;
+    transcript_name: string;
+    scene_id: number;
+    title: string | null;
+    dice_rolls_json: string;
+  }>;
+
+  return rows.map((row) => ({
+    reportId: row.report_id,
+    transcriptName: row.transcript_name,
+    sceneId: row.scene_id,
+    sceneTitle: row.title ?? `Scène ${row.scene_id}`,
+    diceRolls: parseJson(row.dice_rolls_json, []),
+  }));
+}
+
+export function updateSceneNarrative(
+  reportId: string,
+  sceneId: number,
+  narrativeSummary: string
+): boolean {
+  const result = db
+    .prepare(
+      `UPDATE report_scene_summaries SET narrative_summary = ? WHERE report_id = ? AND scene_id = ?`
+    )
+    .run(narrativeSummary, reportId, sceneId);
+  if (result.changes > 0) {
+    db.prepare(
+      `UPDATE reports SET updated_at = datetime('now') WHERE id = ?`
+    ).run(reportId);
+  }
+  return result.changes > 0;
 }
 
 export function getReport(reportId: string): ReportRow | null {
@@ -225,7 +690,6 @@ export function getReport(reportId: string): ReportRow | null {
         universe_name: string;
         transcript_name: string;
         players_json: string;
-        workflow_state_json: string | null;
         created_at: string;
         updated_at: string;
       }
@@ -233,30 +697,14 @@ export function getReport(reportId: string): ReportRow | null {
 
   if (!row) return null;
 
-  let players: ReportRow["players"] = [];
-  try {
-    players = JSON.parse(row.players_json);
-  } catch {
-    // ignore
-  }
-
-  let workflowState: Record<string, unknown> | null = null;
-  if (row.workflow_state_json) {
-    try {
-      workflowState = JSON.parse(row.workflow_state_json);
-    } catch {
-      // ignore
-    }
-  }
-
   return {
     id: row.id,
     jobId: row.job_id,
     reportMd: row.report_md,
     universeName: row.universe_name,
     transcriptName: row.transcript_name,
-    players,
-    workflowState,
+    players: parseJson(row.players_json, []),
+    workflowState: getReportWorkflowState(row.id),
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -265,7 +713,9 @@ export function getReport(reportId: string): ReportRow | null {
 export function listReports(): ReportSummaryRow[] {
   const rows = db
     .prepare(
-      "SELECT id, job_id, universe_name, transcript_name, players_json, created_at, updated_at FROM reports ORDER BY created_at DESC"
+      `SELECT id, job_id, universe_name, transcript_name, players_json, created_at, updated_at,
+              (SELECT SUM(cost_usd) FROM llm_usage WHERE llm_usage.report_id = reports.id) AS cost_usd
+       FROM reports ORDER BY created_at DESC`
     )
     .all() as Array<{
     id: string;
@@ -275,6 +725,7 @@ export function listReports(): ReportSummaryRow[] {
     players_json: string;
     created_at: string;
     updated_at: string;
+    cost_usd: number | null;
   }>;
 
   return rows.map((row) => {
@@ -290,6 +741,7 @@ export function listReports(): ReportSummaryRow[] {
       universeName: row.universe_name,
       transcriptName: row.transcript_name,
       players,
+      costUsd: row.cost_usd,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -362,6 +814,465 @@ export function listCorrections(reportId: string): CorrectionRow[] {
   }));
 }
 
+// ── Process Jobs ─────────────────────────────────────────────────────────────
+
+export type ProcessJobStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "failed"
+  | "interrupted"
+  | "cancelled";
+
+export interface ProcessJobInput {
+  rawTranscript: string;
+  transcriptName: string;
+  universeContext: string;
+  sessionHistory: string;
+  universeName: string;
+  playerInfo: Array<{ playerName: string; characterName: string; speakerHint?: string }>;
+  speakerPattern?: string;
+  /** Passe LLM de repérage du hors-jeu, en plus des heuristiques. */
+  tableTalkTagging?: boolean;
+  /** false : corrections du glossaire proposées mais pas appliquées. */
+  applyGlossary?: boolean;
+  fuzzyGlossary?: boolean;
+  /** Présent quand la session a été envoyée en plusieurs fichiers. */
+  transcriptParts?: Array<{
+    name: string;
+    rawText: string;
+    speakerAliases?: Record<string, string>;
+  }>;
+}
+
+export interface ProcessJobRow {
+  id: string;
+  status: ProcessJobStatus;
+  transcriptName: string;
+  universeName: string;
+  input: ProcessJobInput;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type ProcessJobDbRow = {
+  id: string;
+  status: ProcessJobStatus;
+  transcript_name: string;
+  universe_name: string;
+  input_json: string;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function toProcessJobRow(row: ProcessJobDbRow): ProcessJobRow {
+  return {
+    id: row.id,
+    status: row.status,
+    transcriptName: row.transcript_name,
+    universeName: row.universe_name,
+    input: parseJson<ProcessJobInput>(row.input_json, {
+      rawTranscript: "",
+      transcriptName: row.transcript_name,
+      universeContext: "",
+      sessionHistory: "",
+      universeName: row.universe_name,
+      playerInfo: [],
+    }),
+    error: row.error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function insertProcessJob(job: {
+  id: string;
+  input: ProcessJobInput;
+  createdAt: string;
+}): ProcessJobRow {
+  db.prepare(
+    `INSERT INTO process_jobs (id, status, transcript_name, universe_name, input_json, created_at, updated_at)
+     VALUES (?, 'pending', ?, ?, ?, ?, ?)`
+  ).run(
+    job.id,
+    job.input.transcriptName,
+    job.input.universeName,
+    JSON.stringify(job.input),
+    job.createdAt,
+    job.createdAt
+  );
+  return {
+    id: job.id,
+    status: "pending",
+    transcriptName: job.input.transcriptName,
+    universeName: job.input.universeName,
+    input: job.input,
+    error: null,
+    createdAt: job.createdAt,
+    updatedAt: job.createdAt,
+  };
+}
+
+export function getProcessJob(jobId: string): ProcessJobRow | null {
+  const row = db
+    .prepare("SELECT * FROM process_jobs WHERE id = ?")
+    .get(jobId) as ProcessJobDbRow | undefined;
+  return row ? toProcessJobRow(row) : null;
+}
+
+export function listProcessJobs(
+  statuses: ProcessJobStatus[] = [],
+  limit?: number
+): Array<
+  Omit<ProcessJobRow, "input"> & { playersCount: number; costUsd: number | null }
+> {
+  const where =
+    statuses.length > 0
+      ? `WHERE status IN (${statuses.map(() => "?").join(", ")})`
+      : "";
+  const rows = db
+    .prepare(
+      `SELECT id, status, transcript_name, universe_name, error, created_at, updated_at,
+              json_array_length(input_json, '$.playerInfo') AS players_count,
+              (SELECT SUM(cost_usd) FROM llm_usage WHERE llm_usage.job_id = process_jobs.id) AS cost_usd
+       FROM process_jobs ${where}
+       ORDER BY created_at DESC
+       LIMIT ?`
+    )
+    .all(...statuses, limit ?? -1) as Array<
+    Omit<ProcessJobDbRow, "input_json"> & {
+      players_count: number | null;
+      cost_usd: number | null;
+    }
+  >;
+
+  return rows.map((row) => ({
+    id: row.id,
+    status: row.status,
+    transcriptName: row.transcript_name,
+    universeName: row.universe_name,
+    error: row.error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    playersCount: row.players_count ?? 0,
+    costUsd: row.cost_usd,
+  }));
+}
+
+/**
+ * Sets the status of a job. With `expectedStatus`, the row is only updated
+ * while it still has that status; returns whether it was updated.
+ */
+export function updateProcessJobStatus(
+  jobId: string,
+  status: ProcessJobStatus,
+  error: string | null,
+  updatedAt: string,
+  expectedStatus?: ProcessJobStatus
+): boolean {
+  const result = expectedStatus
+    ? db
+        .prepare(
+          `UPDATE process_jobs SET status = ?, error = ?, updated_at = ? WHERE id = ? AND status = ?`
+        )
+        .run(status, error, updatedAt, jobId, expectedStatus)
+    : db
+        .prepare(
+          `UPDATE process_jobs SET status = ?, error = ?, updated_at = ? WHERE id = ?`
+        )
+        .run(status, error, updatedAt, jobId);
+  return result.changes > 0;
+}
+
+/**
+ * Atomically moves the oldest pending job to `running` and returns it, or
+ * null when the queue is empty.
+ */
+export function claimNextProcessJob(): ProcessJobRow | null {
+  return db.transaction(() => {
+    const row = db
+      .prepare(
+        `SELECT * FROM process_jobs WHERE status = 'pending' ORDER BY created_at ASC LIMIT 1`
+      )
+      .get() as ProcessJobDbRow | undefined;
+    if (!row) return null;
+
+    const updatedAt = new Date().toISOString();
+    updateProcessJobStatus(row.id, "running", null, updatedAt);
+    return toProcessJobRow({ ...row, status: "running", updated_at: updatedAt });
+  })();
+}
+
+/**
+ * Jobs still `running` in the database were cut off by a shutdown. They are
+ * either put back in the queue or marked `interrupted`.
+ */
+export function recoverRunningProcessJobs(
+  mode: "requeue" | "interrupt"
+): number {
+  const result =
+    mode === "requeue"
+      ? db
+          .prepare(
+            `UPDATE process_jobs SET status = 'pending', error = NULL, updated_at = ? WHERE status = 'running'`
+          )
+          .run(new Date().toISOString())
+      : db
+          .prepare(
+            `UPDATE process_jobs SET status = 'interrupted', error = ?, updated_at = ? WHERE status = 'running'`
+          )
+          .run(
+            "Traitement interrompu par un redémarrage du serveur.",
+            new Date().toISOString()
+          );
+  return result.changes;
+}
+
+// ── Job events ───────────────────────────────────────────────────────────────
+
+export interface JobEventRow {
+  id: number;
+  type: string;
+  data: unknown;
+  timestamp: string;
+}
+
+export function insertJobEvent(jobId: string, event: JobEventRow): void {
+  db.prepare(
+    `INSERT INTO job_events (job_id, event_id, type, data_json, created_at)
+     VALUES (?, ?, ?, ?, ?)`
+  ).run(jobId, event.id, event.type, JSON.stringify(event.data), event.timestamp);
+}
+
+/** Events of a job with `id >= fromEventId`, in publication order. */
+export function listJobEvents(jobId: string, fromEventId = 0): JobEventRow[] {
+  const rows = db
+    .prepare(
+      `SELECT event_id, type, data_json, created_at FROM job_events
+       WHERE job_id = ? AND event_id >= ?
+       ORDER BY event_id ASC`
+    )
+    .all(jobId, fromEventId) as Array<{
+    event_id: number;
+    type: string;
+    data_json: string;
+    created_at: string;
+  }>;
+
+  return rows.map((row) => ({
+    id: row.event_id,
+    type: row.type,
+    data: parseJson<unknown>(row.data_json, null),
+    timestamp: row.created_at,
+  }));
+}
+
+export function getLastJobEventId(
+  jobId: string,
+  type?: string
+): number | null {
+  const row = db
+    .prepare(
+      type
+        ? "SELECT MAX(event_id) AS id FROM job_events WHERE job_id = ? AND type = ?"
+        : "SELECT MAX(event_id) AS id FROM job_events WHERE job_id = ?"
+    )
+    .get(...(type ? [jobId, type] : [jobId])) as { id: number | null };
+  return row.id;
+}
+
+// ── LLM usage ────────────────────────────────────────────────────────────────
+
+export interface LlmUsageInput {
+  jobId: string | null;
+  reportId: string | null;
+  node: string;
+  sceneId: number | null;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  costUsd: number | null;
+  createdAt: string;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  /** Sum over priced calls only; see `unpricedModels`. */
+  costUsd: number;
+}
+
+export interface LlmUsageSummary {
+  totals: LlmUsageTotals;
+  byNode: Array<LlmUsageTotals & { node: string }>;
+  byScene: Array<LlmUsageTotals & { sceneId: number }>;
+  byModel: Array<LlmUsageTotals & { provider: string; model: string }>;
+  unpricedModels: string[];
+}
+
+const USAGE_TOTALS_COLUMNS = `
+  COUNT(*) AS calls,
+  COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens,
+  COALESCE(SUM(completion_tokens), 0) AS completion_tokens,
+  COALESCE(SUM(latency_ms), 0) AS latency_ms,
+  COALESCE(SUM(cost_usd), 0) AS cost_usd`;
+
+type UsageTotalsDbRow = {
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  cost_usd: number;
+};
+
+function toUsageTotals(row: UsageTotalsDbRow): LlmUsageTotals {
+  return {
+    calls: row.calls,
+    promptTokens: row.prompt_tokens,
+    completionTokens: row.completion_tokens,
+    latencyMs: row.latency_ms,
+    costUsd: row.cost_usd,
+  };
+}
+
+export function insertLlmUsage(usage: LlmUsageInput): void {
+  db.prepare(
+    `INSERT INTO llm_usage (job_id, report_id, node, scene_id, provider, model, prompt_tokens, completion_tokens, latency_ms, cost_usd, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    usage.jobId,
+    usage.reportId,
+    usage.node,
+    usage.sceneId,
+    usage.provider,
+    usage.model,
+    usage.promptTokens,
+    usage.completionTokens,
+    usage.latencyMs,
+    usage.costUsd,
+    usage.createdAt
+  );
+}
+
+/** Once a job has produced its report, its usage also counts for the report. */
+export function attachJobUsageToReport(jobId: string, reportId: string): void {
+  db.prepare("UPDATE llm_usage SET report_id = ? WHERE job_id = ?").run(
+    reportId,
+    jobId
+  );
+}
+
+export function getLlmUsageSummary(
+  filter: { jobId: string } | { reportId: string }
+): LlmUsageSummary {
+  const [where, id] =
+    "jobId" in filter ? ["job_id = ?", filter.jobId] : ["report_id = ?", filter.reportId];
+
+  const totals = db
+    .prepare(`SELECT ${USAGE_TOTALS_COLUMNS} FROM llm_usage WHERE ${where}`)
+    .get(id) as UsageTotalsDbRow;
+
+  const byNode = db
+    .prepare(
+      `SELECT node, ${USAGE_TOTALS_COLUMNS} FROM llm_usage WHERE ${where}
+       GROUP BY node ORDER BY MIN(id)`
+    )
+    .all(id) as Array<UsageTotalsDbRow & { node: string }>;
+
+  const byScene = db
+    .prepare(
+      `SELECT scene_id, ${USAGE_TOTALS_COLUMNS} FROM llm_usage
+       WHERE ${where} AND scene_id IS NOT NULL
+       GROUP BY scene_id ORDER BY scene_id`
+    )
+    .all(id) as Array<UsageTotalsDbRow & { scene_id: number }>;
+
+  const byModel = db
+    .prepare(
+      `SELECT provider, model, ${USAGE_TOTALS_COLUMNS} FROM llm_usage WHERE ${where}
+       GROUP BY provider, model ORDER BY MIN(id)`
+    )
+    .all(id) as Array<UsageTotalsDbRow & { provider: string; model: string }>;
+
+  const unpriced = db
+    .prepare(
+      `SELECT DISTINCT model FROM llm_usage WHERE ${where} AND cost_usd IS NULL ORDER BY model`
+    )
+    .all(id) as Array<{ model: string }>;
+
+  return {
+    totals: toUsageTotals(totals),
+    byNode: byNode.map((row) => ({ node: row.node, ...toUsageTotals(row) })),
+    byScene: byScene.map((row) => ({ sceneId: row.scene_id, ...toUsageTotals(row) })),
+    byModel: byModel.map((row) => ({
+      provider: row.provider,
+      model: row.model,
+      ...toUsageTotals(row),
+    })),
+    unpricedModels: unpriced.map((row) => row.model),
+  };
+}
+
+// ── Scene summaries of running workflows ─────────────────────────────────────
+//
+// The summarizer node only checkpoints once every scene is done. Each scene
+// summary is also written here as soon as it is produced, so resuming a
+// failed run does not pay again for the scenes that succeeded. A correction
+// keeps its patch record (applied and rejected edits) next to the summary.
+
+export function getJobSceneSummary(
+  threadId: string,
+  sceneId: number,
+  retryCount: number
+): { summary: SceneSummary; patch?: SummaryPatchRecord } | null {
+  const row = db
+    .prepare(
+      `SELECT summary_json, patch_json FROM job_scene_summaries WHERE thread_id = ? AND scene_id = ? AND retry_count = ?`
+    )
+    .get(threadId, sceneId, retryCount) as
+    | { summary_json: string; patch_json: string | null }
+    | undefined;
+  if (!row) return null;
+  const summary = parseJson<SceneSummary | null>(row.summary_json, null);
+  if (!summary) return null;
+  const patch = parseJson<SummaryPatchRecord | null>(row.patch_json, null);
+  return patch ? { summary, patch } : { summary };
+}
+
+export function saveJobSceneSummary(
+  threadId: string,
+  retryCount: number,
+  summary: SceneSummary,
+  patch?: SummaryPatchRecord
+): void {
+  db.prepare(
+    `INSERT INTO job_scene_summaries (thread_id, scene_id, retry_count, summary_json, patch_json)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(thread_id, scene_id, retry_count) DO UPDATE SET
+       summary_json = excluded.summary_json,
+       patch_json = excluded.patch_json,
+       created_at = datetime('now')`
+  ).run(
+    threadId,
+    summary.sceneId,
+    retryCount,
+    JSON.stringify(summary),
+    patch ? JSON.stringify(patch) : null
+  );
+}
+
+export function deleteJobSceneSummaries(threadId: string): void {
+  db.prepare("DELETE FROM job_scene_summaries WHERE thread_id = ?").run(
+    threadId
+  );
+}
+
 // ── Migration from disk ──────────────────────────────────────────────────────
 
 export function migrateEditorDraftsFromDisk(): void {
@@ -411,4 +1322,73 @@ export function migrateEditorDraftsFromDisk(): void {
   }
 }
 
+/**
+ * Reports created before 003_report_workflow_state kept their state in
+ * reports.workflow_state_json. Copy whatever is usable into the normalized
+ * tables. Older reports only stored the formatter output (no scenes), so they
+ * stay without scene data.
+ */
+export function migrateReportWorkflowStatesFromJson(): void {
+  const rows = db
+    .prepare(
+      `SELECT r.id, r.workflow_state_json FROM reports r
+       LEFT JOIN report_workflow_state ws ON ws.report_id = r.id
+       WHERE r.workflow_state_json IS NOT NULL AND ws.report_id IS NULL`
+    )
+    .all() as Array<{ id: string; workflow_state_json: string }>;
+
+  let migrated = 0;
+  for (const row of rows) {
+    const legacy = parseJson<Record<string, unknown> | null>(
+      row.workflow_state_json,
+      null
+    );
+    if (!legacy || !Array.isArray(legacy.scenes)) continue;
+
+    try {
+      updateReportWorkflowState(row.id, {
+        preprocessedTranscript:
+          typeof legacy.preprocessedTranscript === "string"
+            ? legacy.preprocessedTranscript
+            : "",
+        universeContext:
+          typeof legacy.universeContext === "string"
+            ? legacy.universeContext
+            : "",
+        sessionHistory:
+          typeof legacy.sessionHistory === "string"
+            ? legacy.sessionHistory
+            : "",
+        speakerMap:
+          legacy.speakerMap && typeof legacy.speakerMap === "object"
+            ? (legacy.speakerMap as Record<string, string>)
+            : {},
+        entities:
+          legacy.entities && typeof legacy.entities === "object"
+            ? (legacy.entities as ReportWorkflowState["entities"])
+            : { pcs: [], npcs: [], locations: [], items: [] },
+        scenes: legacy.scenes as Scene[],
+        sceneSummaries: Array.isArray(legacy.sceneSummaries)
+          ? (legacy.sceneSummaries as SceneSummary[])
+          : [],
+        validationReport:
+          legacy.validationReport && typeof legacy.validationReport === "object"
+            ? (legacy.validationReport as ReportWorkflowState["validationReport"])
+            : { isValid: true, issues: [] },
+        retryCount:
+          typeof legacy.retryCount === "number" ? legacy.retryCount : 0,
+      });
+      migrated++;
+    } catch {
+      // skip invalid legacy state
+    }
+  }
+
+  if (migrated > 0) {
+    console.log(
+      `[db] Migrated ${migrated} report workflow state(s) to normalized tables`
+    );
+  }
+}
+
 export default db;
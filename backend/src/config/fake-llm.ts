@@ -0,0 +1,347 @@
+import {
+  SimpleChatModel,
+  type BaseChatModelParams,
+} from "@langchain/core/language_models/chat_models";
+import type { BaseMessage } from "@langchain/core/messages";
+import { Runnable, RunnableLambda } from "@langchain/core/runnables";
+import { toJsonSchema } from "@langchain/core/utils/json_schema";
+import { z } from "zod";
+
+/**
+ * Fournisseur LLM factice (LLM_PROVIDER=fake) : réponses canoniques et
+ * déterministes, construites à partir du prompt, pour faire tourner le
+ * pipeline complet sans clé API (tests, démos).
+ */
+
+const FAKE_SCENE_LINES = 40;
+const FAKE_KEY_EVENT_LINES = 5;
+
+type JsonSchemaObject = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchemaObject>;
+  items?: JsonSchemaObject;
+  enum?: unknown[];
+  required?: string[];
+};
+
+type TranscriptLine = {
+  lineNumber: number;
+  speaker: string;
+  isDice: boolean;
+  text: string;
+};
+
+const TRANSCRIPT_LINE_RE = /^L(\d+) \[([^\]]+)\]( 🎲)? ?(.*)$/u;
+
+function parseTranscriptLines(text: string): TranscriptLine[] {
+  const lines: TranscriptLine[] = [];
+  for (const raw of text.split("\n")) {
+    const match = raw.trim().match(TRANSCRIPT_LINE_RE);
+    if (!match) continue;
+    lines.push({
+      lineNumber: Number.parseInt(match[1], 10),
+      speaker: match[2],
+      isDice: !!match[3],
+      text: match[4].trim(),
+    });
+  }
+  return lines;
+}
+
+function truncate(value: string, maxLength = 80): string {
+  const compact = value.replace(/\s+/g, " ").trim();
+  return compact.length <= maxLength
+    ? compact
+    : `${compact.slice(0, maxLength - 1)}…`;
+}
+
+function chunk<T>(arr: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) {
+    chunks.push(arr.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// ── Canned structured outputs ────────────────────────────────────────────────
+
+function parseDeclaredPlayers(systemText: string): Array<{
+  playerName: string;
+  characterName: string;
+  speakerHint?: string;
+}> {
+  // Format de playerInfoStr dans l'analyst ; les parenthèses excluent les
+  // consignes du prompt système ("- Le MJ (Maître du Jeu) ... joue ...")
+  const re = /^- ([^()\n]+?) joue ([^()\n]+?)(?: \(probablement ([^)]+)\))?$/gm;
+  return [...systemText.matchAll(re)].map((m) => ({
+    playerName: m[1].trim(),
+    characterName: m[2].trim(),
+    speakerHint: m[3]?.trim(),
+  }));
+}
+
+function parseDeclaredGameMasters(systemText: string): Array<{
+  name: string;
+  speakerHint?: string;
+}> {
+  const re = /^- ([^()\n]+?) est le MJ(?: \(probablement ([^)]+)\))?$/gm;
+  return [...systemText.matchAll(re)].map((m) => ({
+    name: m[1].trim(),
+    speakerHint: m[2]?.trim(),
+  }));
+}
+
+function fakeAnalystOutput(messages: BaseMessage[]) {
+  const allText = messages.map((m) => m.text).join("\n");
+  const lines = parseTranscriptLines(allText);
+  const players = parseDeclaredPlayers(allText);
+  const gameMasters = parseDeclaredGameMasters(allText);
+
+  const speakerCounts = new Map<string, number>();
+  for (const line of lines) {
+    if (line.speaker === "UNTAGGED") continue;
+    speakerCounts.set(line.speaker, (speakerCounts.get(line.speaker) ?? 0) + 1);
+  }
+  const speakers = [...speakerCounts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([speaker]) => speaker);
+
+  const speakerMap = new Map<string, string>();
+  for (const gm of gameMasters) {
+    if (gm.speakerHint && speakers.includes(gm.speakerHint)) {
+      speakerMap.set(gm.speakerHint, "MJ");
+    }
+  }
+  const unassignedPlayers = players.filter((p) => {
+    if (p.speakerHint && speakers.includes(p.speakerHint)) {
+      speakerMap.set(p.speakerHint, `${p.playerName} (${p.characterName})`);
+      return false;
+    }
+    return true;
+  });
+  for (const speaker of speakers) {
+    if (speakerMap.has(speaker)) continue;
+    if (![...speakerMap.values()].includes("MJ")) {
+      speakerMap.set(speaker, "MJ");
+      continue;
+    }
+    const player = unassignedPlayers.shift();
+    speakerMap.set(
+      speaker,
+      player
+        ? `${player.playerName} (${player.characterName})`
+        : `Joueur ${speakerMap.size}`
+    );
+  }
+
+  const sceneChunks = chunk(lines, FAKE_SCENE_LINES);
+  const scenes = sceneChunks.map((sceneLines, index) => {
+    const next = sceneChunks[index + 1];
+    return {
+      id: index + 1,
+      title: `Scène ${index + 1}`,
+      startLine: sceneLines[0].lineNumber,
+      endLine: next ? next[0].lineNumber - 1 : sceneLines[sceneLines.length - 1].lineNumber,
+      type: "narrative",
+      summary: truncate(sceneLines[0].text),
+    };
+  });
+
+  return {
+    speakerMap: [...speakerMap.entries()].map(([speakerId, identification]) => ({
+      speakerId,
+      identification,
+    })),
+    entities: {
+      pcs: players.map((p) => ({ name: p.characterName, player: p.playerName })),
+      npcs: [],
+      locations: [],
+      items: [],
+    },
+    scenes,
+  };
+}
+
+function fakeSceneSummary(messages: BaseMessage[]) {
+  const humanText = messages.map((m) => m.text).join("\n");
+  const sceneId = Number.parseInt(
+    humanText.match(/Scène (\d+) sur/)?.[1] ?? "0",
+    10
+  );
+  const block = humanText.match(/```\n([\s\S]*?)\n```/)?.[1] ?? "";
+  const lines = parseTranscriptLines(block);
+
+  const paragraphs = chunk(lines, Math.max(1, Math.ceil(lines.length / 3))).map(
+    (group) =>
+      group
+        .filter((l) => l.text)
+        .map((l) => `${l.speaker} : « ${truncate(l.text, 120)} »`)
+        .join(" ")
+  );
+
+  return {
+    sceneId,
+    narrativeSummary: paragraphs.join("\n\n") || "Scène sans contenu.",
+    keyEvents: chunk(lines, FAKE_KEY_EVENT_LINES).map((group) => {
+      const first = group[0];
+      const last = group[group.length - 1];
+      const range =
+        first.lineNumber === last.lineNumber
+          ? `[L${first.lineNumber}]`
+          : `[L${first.lineNumber}-L${last.lineNumber}]`;
+      return `${range} ${truncate(first.text)}`;
+    }),
+    diceRolls: lines
+      .filter((l) => l.isDice)
+      .map((l) => ({
+        character: l.speaker,
+        skill: "Jet",
+        result: l.text,
+        context: `L${l.lineNumber}`,
+      })),
+    npcsInvolved: [],
+    technicalNotes: ["Résumé produit par le fournisseur LLM factice."],
+  };
+}
+
+function fakeTableTalkNotes(messages: BaseMessage[]) {
+  const humanText = messages.map((m) => m.text).join("\n");
+  const block = humanText.match(/```\n([\s\S]*?)\n```/)?.[1] ?? "";
+  const lines = parseTranscriptLines(block).filter((l) => l.text);
+  const noted = (re: RegExp) =>
+    lines
+      .filter((l) => re.test(l.text))
+      .map((l) => `[L${l.lineNumber}] ${l.speaker} : ${truncate(l.text)}`);
+
+  return {
+    scheduling: noted(/session|séance|semaine|dispo|absente?\b/i),
+    rulings: noted(/\br[èe]gles?\b(?! maison)|manuel/i),
+    houseRules: noted(/r[èe]gle maison|house rule/i),
+    todos: noted(/à jour|niveau/i),
+  };
+}
+
+/** Minimal value satisfying a JSON schema, for schemas without canned output. */
+function sampleFromJsonSchema(schema: JsonSchemaObject): unknown {
+  if (schema.enum?.length) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {})
+          .filter(([key]) => schema.required?.includes(key))
+          .map(([key, value]) => [key, sampleFromJsonSchema(value)])
+      );
+    case "array":
+      return [];
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return true;
+    case "null":
+      return null;
+    default:
+      return "";
+  }
+}
+
+function fakeStructuredOutput(
+  schema: JsonSchemaObject,
+  messages: BaseMessage[]
+): unknown {
+  const keys = new Set(Object.keys(schema.properties ?? {}));
+  if (keys.has("speakerMap") && keys.has("scenes")) {
+    return fakeAnalystOutput(messages);
+  }
+  if (keys.has("narrativeSummary") && keys.has("keyEvents")) {
+    return fakeSceneSummary(messages);
+  }
+  if (keys.has("scheduling") && keys.has("houseRules")) {
+    return fakeTableTalkNotes(messages);
+  }
+  if (keys.has("isValid") && keys.has("issues")) {
+    return { isValid: true, issues: [] };
+  }
+  if (keys.has("isConsistent") && keys.has("issues")) {
+    return { isConsistent: true, issues: [] };
+  }
+  return sampleFromJsonSchema(schema);
+}
+
+// ── Canned text outputs ──────────────────────────────────────────────────────
+
+function fakeFormattedReport(humanText: string): string {
+  const blocks = humanText.split(/^## SCENE_ID: /m).slice(1);
+  const sections = blocks.map((block) => {
+    const sceneId = block.match(/^(\d+)/)?.[1] ?? "?";
+    const title = block.match(/^TITLE: (.*)$/m)?.[1] ?? "Sans titre";
+    const timestamp = block.match(/^TIMESTAMP: (\[[\d:]+\])/m)?.[1];
+    const narrative =
+      block.match(/^NARRATIVE:\n([\s\S]*?)\nKEY_EVENTS:/m)?.[1]?.trim() ?? "";
+    const subtitle = timestamp ? `*${timestamp}*\n\n` : "";
+    return `## Scène ${sceneId} : ${title}\n\n${subtitle}${narrative}`;
+  });
+  return [
+    "# Compte-rendu de session (fournisseur factice)",
+    ...sections,
+  ].join("\n\n---\n\n");
+}
+
+function fakeTextOutput(messages: BaseMessage[]): string {
+  const humanText = messages
+    .filter((m) => m.getType() === "human")
+    .map((m) => m.text)
+    .join("\n");
+
+  if (humanText.includes("## SCENE_ID:")) {
+    return fakeFormattedReport(humanText);
+  }
+
+  const currentReport = humanText.match(
+    /## Compte-rendu actuel\n\n([\s\S]*?)\n\n## Passage sélectionné/
+  )?.[1];
+  if (currentReport) return currentReport;
+
+  return "Réponse du fournisseur LLM factice.";
+}
+
+// ── Model ────────────────────────────────────────────────────────────────────
+
+interface FakeChatModelParams extends BaseChatModelParams {
+  responseSchema?: JsonSchemaObject;
+}
+
+export class FakeChatModel extends SimpleChatModel {
+  responseSchema?: JsonSchemaObject;
+
+  constructor(fields: FakeChatModelParams = {}) {
+    super(fields);
+    this.responseSchema = fields.responseSchema;
+  }
+
+  _llmType(): string {
+    return "fake";
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    if (this.responseSchema) {
+      return JSON.stringify(fakeStructuredOutput(this.responseSchema, messages));
+    }
+    return fakeTextOutput(messages);
+  }
+}
+
+export function createFakeStructuredModel<T extends z.ZodTypeAny>(
+  schema: T
+): Runnable<BaseMessage[], z.infer<T>> {
+  const model = new FakeChatModel({
+    responseSchema: toJsonSchema(schema) as JsonSchemaObject,
+  });
+  return RunnableLambda.from(
+    async (messages: BaseMessage[], options): Promise<z.infer<T>> => {
+      const response = await model.invoke(messages, options);
+      return schema.parse(JSON.parse(response.text));
+    }
+  );
+}
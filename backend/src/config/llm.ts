@@ -1,24 +1,320 @@
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import { ChatOpenAI } from "@langchain/openai";
+import { ChatAnthropic } from "@langchain/anthropic";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  AIMessage,
+  BaseMessage,
+  SystemMessage,
+} from "@langchain/core/messages";
+import { Runnable, RunnableLambda } from "@langchain/core/runnables";
+import { toJsonSchema } from "@langchain/core/utils/json_schema";
+import { z } from "zod";
 import dotenv from "dotenv";
 import { resolve } from "path";
 import { fileURLToPath } from "url";
+import { FakeChatModel, createFakeStructuredModel } from "./fake-llm.js";
+import { getCassetteMode, withCassette } from "./cassettes.js";
 
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
 dotenv.config({ path: resolve(__dirname, "../../../.env") });
 
+// ── Configuration ────────────────────────────────────────────────────────────
+//
+// Chaque nœud du pipeline a son propre fournisseur, modèle et température.
+// Résolution (du plus spécifique au plus général) :
+//   LLM_<NODE>_PROVIDER  > LLM_PROVIDER  > "gemini" (ou "fake", sans appel réseau)
+//   LLM_<NODE>_MODEL     > LLM_MODEL     > modèle par défaut du fournisseur
+//   LLM_<NODE>_TEMPERATURE                > température par défaut du nœud
+//   LLM_<NODE>_BASE_URL  > LLM_BASE_URL  (openai-compatible uniquement)
+//   LLM_<NODE>_API_KEY   > LLM_API_KEY   > clé propre au fournisseur
+//   LLM_<NODE>_STRUCTURED_OUTPUT > LLM_STRUCTURED_OUTPUT > "native"
+//     ("json-schema" par défaut pour openai-compatible)
+//   LLM_<NODE>_CONTEXT_TOKENS > LLM_CONTEXT_TOKENS > fenêtre par défaut du fournisseur
+//   LLM_CASSETTE_MODE (record | replay) et LLM_CASSETTE_DIR : voir cassettes.ts
+
+export type LlmNode =
+  | "analyst"
+  | "tableTalk"
+  | "summarizer"
+  | "validator"
+  | "formatter"
+  | "correction";
+
+export type LlmProvider =
+  | "gemini"
+  | "openai-compatible"
+  | "anthropic"
+  | "fake";
+
+/**
+ * "native" : tool calling / structured output natif du fournisseur.
+ * "json-schema" : le schéma est injecté dans le prompt et la réponse JSON est
+ * validée avec Zod (serveurs locaux sans tool calling).
+ */
+export type StructuredOutputMode = "native" | "json-schema";
+
+export interface LlmNodeConfig {
+  provider: LlmProvider;
+  model: string;
+  temperature: number;
+  baseUrl?: string;
+  apiKey?: string;
+  structuredOutput: StructuredOutputMode;
+  /** Taille de la fenêtre de contexte du modèle, en tokens. */
+  contextTokens: number;
+}
+
+const LLM_NODES: LlmNode[] = [
+  "analyst",
+  "tableTalk",
+  "summarizer",
+  "validator",
+  "formatter",
+  "correction",
+];
+
+const NODE_DEFAULTS: Record<
+  LlmNode,
+  { tier: "pro" | "flash"; temperature: number }
+> = {
+  analyst: { tier: "pro", temperature: 0.2 },
+  tableTalk: { tier: "flash", temperature: 0.1 },
+  summarizer: { tier: "pro", temperature: 0.2 },
+  validator: { tier: "flash", temperature: 0.1 },
+  formatter: { tier: "pro", temperature: 0.25 },
+  correction: { tier: "pro", temperature: 0.15 },
+};
+
+const DEFAULT_MODELS: Record<LlmProvider, Record<"pro" | "flash", string>> = {
+  gemini: { pro: "gemini-3-flash-preview", flash: "gemini-flash-lite-latest" },
+  "openai-compatible": { pro: "local-model", flash: "local-model" },
+  anthropic: { pro: "claude-sonnet-4-5", flash: "claude-haiku-4-5" },
+  fake: { pro: "fake", flash: "fake" },
+};
+
+// Valeurs prudentes : un serveur local est souvent lancé avec un contexte réduit
+const DEFAULT_CONTEXT_TOKENS: Record<LlmProvider, number> = {
+  gemini: 1_000_000,
+  "openai-compatible": 32_768,
+  anthropic: 200_000,
+  fake: 1_000_000,
+};
+
+const PROVIDER_API_KEY_ENV: Partial<Record<LlmProvider, string>> = {
+  gemini: "GOOGLE_API_KEY",
+  "openai-compatible": "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+};
+
+const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = "http://localhost:8080/v1";
+
+export function isLlmNode(value: string): value is LlmNode {
+  return (LLM_NODES as string[]).includes(value);
+}
+
+function readEnv(node: LlmNode, key: string): string | undefined {
+  const specific = process.env[`LLM_${node.toUpperCase()}_${key}`]?.trim();
+  if (specific) return specific;
+  const global = process.env[`LLM_${key}`]?.trim();
+  return global || undefined;
+}
+
+function parseProvider(value: string | undefined): LlmProvider {
+  switch (value?.toLowerCase()) {
+    case undefined:
+    case "gemini":
+    case "google":
+      return "gemini";
+    case "openai":
+    case "openai-compatible":
+    case "llamacpp":
+    case "ollama":
+      return "openai-compatible";
+    case "anthropic":
+    case "claude":
+      return "anthropic";
+    case "fake":
+      return "fake";
+    default:
+      throw new Error(`Fournisseur LLM inconnu : "${value}"`);
+  }
+}
+
+export function getLlmNodeConfig(node: LlmNode): LlmNodeConfig {
+  const provider = parseProvider(readEnv(node, "PROVIDER"));
+  const defaults = NODE_DEFAULTS[node];
+
+  const rawTemperature = process.env[`LLM_${node.toUpperCase()}_TEMPERATURE`];
+  const parsedTemperature = rawTemperature ? Number(rawTemperature) : NaN;
+
+  const rawStructured = readEnv(node, "STRUCTURED_OUTPUT");
+  const structuredOutput: StructuredOutputMode =
+    rawStructured === "native" || rawStructured === "json-schema"
+      ? rawStructured
+      : provider === "openai-compatible"
+        ? "json-schema"
+        : "native";
+
+  const parsedContextTokens = Number.parseInt(
+    readEnv(node, "CONTEXT_TOKENS") ?? "",
+    10
+  );
+
+  return {
+    provider,
+    model: readEnv(node, "MODEL") ?? DEFAULT_MODELS[provider][defaults.tier],
+    temperature: Number.isFinite(parsedTemperature)
+      ? parsedTemperature
+      : defaults.temperature,
+    baseUrl:
+      readEnv(node, "BASE_URL") ??
+      (provider === "openai-compatible"
+        ? DEFAULT_OPENAI_COMPATIBLE_BASE_URL
+        : undefined),
+    apiKey:
+      readEnv(node, "API_KEY") ??
+      (process.env[PROVIDER_API_KEY_ENV[provider] ?? ""]?.trim() || undefined),
+    structuredOutput,
+    contextTokens:
+      Number.isFinite(parsedContextTokens) && parsedContextTokens > 0
+        ? parsedContextTokens
+        : DEFAULT_CONTEXT_TOKENS[provider],
+  };
+}
+
+/**
+ * True when every node has the credentials its provider needs. A local
+ * OpenAI-compatible server usually runs without key; the fake provider and
+ * cassette replay never call the network.
+ */
+export function isLlmConfigured(): boolean {
+  if (getCassetteMode() === "replay") return true;
+  return LLM_NODES.every((node) => {
+    const config = getLlmNodeConfig(node);
+    return (
+      config.provider === "openai-compatible" ||
+      config.provider === "fake" ||
+      !!config.apiKey
+    );
+  });
+}
+
+export function describeLlmConfig(): Record<LlmNode, string> {
+  return Object.fromEntries(
+    LLM_NODES.map((node) => {
+      const config = getLlmNodeConfig(node);
+      return [node, `${config.provider}:${config.model}`];
+    })
+  ) as Record<LlmNode, string>;
+}
+
+// ── Model factories ──────────────────────────────────────────────────────────
+
+/** What agents invoke: messages in, a single message out. */
+export type ChatRunnable = Runnable<BaseMessage[], BaseMessage>;
+
+function createChatModel(node: LlmNode): BaseChatModel {
+  const config = getLlmNodeConfig(node);
+
+  switch (config.provider) {
+    case "gemini":
+      return new ChatGoogleGenerativeAI({
+        model: config.model,
+        temperature: config.temperature,
+        apiKey: config.apiKey,
+      });
+    case "openai-compatible":
+      return new ChatOpenAI({
+        model: config.model,
+        temperature: config.temperature,
+        // Les serveurs locaux (llama.cpp, Ollama) acceptent n'importe quelle clé
+        apiKey: config.apiKey ?? "not-needed",
+        configuration: { baseURL: config.baseUrl },
+      });
+    case "anthropic":
+      return new ChatAnthropic({
+        model: config.model,
+        temperature: config.temperature,
+        apiKey: config.apiKey,
+      });
+    case "fake":
+      return new FakeChatModel();
+  }
+}
+
 /**
- * Creates a Gemini model instance. Uses Gemini Flash for analysis tasks,
- * Gemini Flash Lite for lighter tasks (summarization, formatting).
+ * Creates the chat model configured for a pipeline node, wrapped with the
+ * cassette recorder/player when enabled.
  */
-export function createModel(
-  variant: "pro" | "flash" = "pro",
-  temperature = 0.3
-): ChatGoogleGenerativeAI {
-  const model =
-    variant === "pro" ? "gemini-3-flash-preview" : "gemini-flash-lite-latest";
-  return new ChatGoogleGenerativeAI({
-    model,
-    temperature,
-    apiKey: process.env.GOOGLE_API_KEY,
+export function createModel(node: LlmNode): ChatRunnable {
+  return withCassette<BaseMessage>(node, "text", () => createChatModel(node), {
+    encode: (message) => ({ content: message.text }),
+    decode: (value) => new AIMessage((value as { content: string }).content),
   });
 }
+
+function extractJsonPayload(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("Réponse du modèle sans objet JSON exploitable.");
+  }
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+function createStructuredRunnable<T extends z.ZodTypeAny>(
+  node: LlmNode,
+  schema: T,
+  jsonSchema: string
+): Runnable<BaseMessage[], z.infer<T>> {
+  const config = getLlmNodeConfig(node);
+
+  if (config.provider === "fake") {
+    return createFakeStructuredModel(schema);
+  }
+
+  const model = createChatModel(node);
+
+  if (config.structuredOutput === "native") {
+    return model.withStructuredOutput(schema) as Runnable<
+      BaseMessage[],
+      z.infer<T>
+    >;
+  }
+
+  return RunnableLambda.from(
+    async (messages: BaseMessage[], options): Promise<z.infer<T>> => {
+      const response = await model.invoke(
+        [
+          ...messages,
+          new SystemMessage(
+            `Réponds UNIQUEMENT avec un objet JSON valide conforme à ce JSON Schema, sans texte avant ni après :\n${jsonSchema}`
+          ),
+        ],
+        options
+      );
+      return schema.parse(extractJsonPayload(response.text));
+    }
+  );
+}
+
+/**
+ * Creates a runnable returning objects validated against `schema`, using
+ * native structured output when the provider supports it and a JSON-schema
+ * prompt otherwise.
+ */
+export function createStructuredModel<T extends z.ZodTypeAny>(
+  node: LlmNode,
+  schema: T
+): Runnable<BaseMessage[], z.infer<T>> {
+  const jsonSchema = JSON.stringify(toJsonSchema(schema));
+  return withCassette<z.infer<T>>(
+    node,
+    jsonSchema,
+    () => createStructuredRunnable(node, schema, jsonSchema),
+    { encode: (value) => value, decode: (value) => schema.parse(value) }
+  );
+}
@@ -0,0 +1,89 @@
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
+import { fileURLToPath } from "url";
+
+/**
+ * Tarifs des modèles, en dollars par million de tokens.
+ *
+ * Les valeurs par défaut couvrent les modèles par défaut de llm.ts. Le fichier
+ * JSON LLM_PRICING_FILE (défaut backend/data/llm-pricing.json, s'il existe)
+ * les complète ou les remplace :
+ *   { "gemini-3-flash-preview": { "input": 0.5, "output": 3 } }
+ * Une clé se terminant par "*" s'applique à tous les modèles de ce préfixe.
+ */
+
+export type ModelPricing = {
+  input: number;
+  output: number;
+};
+
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  "gemini-3-flash-preview": { input: 0.5, output: 3 },
+  "gemini-flash-lite-latest": { input: 0.1, output: 0.4 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "local-model": { input: 0, output: 0 },
+  fake: { input: 0, output: 0 },
+};
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const defaultPricingFile = resolve(__dirname, "..", "..", "data", "llm-pricing.json");
+
+let pricingTable: Record<string, ModelPricing> | null = null;
+
+function isModelPricing(value: unknown): value is ModelPricing {
+  const pricing = value as ModelPricing;
+  return (
+    !!pricing &&
+    typeof pricing.input === "number" &&
+    typeof pricing.output === "number" &&
+    pricing.input >= 0 &&
+    pricing.output >= 0
+  );
+}
+
+function loadPricingTable(): Record<string, ModelPricing> {
+  const path = process.env.LLM_PRICING_FILE?.trim() || defaultPricingFile;
+  if (!existsSync(path)) return { ...DEFAULT_PRICING };
+
+  try {
+    const raw = JSON.parse(readFileSync(path, "utf-8")) as Record<string, unknown>;
+    const overrides = Object.entries(raw).filter(([model, pricing]) => {
+      if (isModelPricing(pricing)) return true;
+      console.warn(`[pricing] Tarif ignoré pour "${model}" : { input, output } attendus.`);
+      return false;
+    }) as Array<[string, ModelPricing]>;
+    return { ...DEFAULT_PRICING, ...Object.fromEntries(overrides) };
+  } catch (err) {
+    console.warn(
+      `[pricing] Lecture de ${path} impossible, tarifs par défaut utilisés : ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+    return { ...DEFAULT_PRICING };
+  }
+}
+
+/** Exact match first, then the longest matching "prefix*" entry. */
+export function getModelPricing(model: string): ModelPricing | null {
+  pricingTable ??= loadPricingTable();
+  const exact = pricingTable[model];
+  if (exact) return exact;
+
+  const [, prefixMatch] =
+    Object.entries(pricingTable)
+      .filter(([key]) => key.endsWith("*") && model.startsWith(key.slice(0, -1)))
+      .sort(([a], [b]) => b.length - a.length)[0] ?? [];
+  return prefixMatch ?? null;
+}
+
+/** Cost in USD, or null when the model has no known pricing. */
+export function computeCostUsd(
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number | null {
+  const pricing = getModelPricing(model);
+  if (!pricing) return null;
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
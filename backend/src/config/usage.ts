@@ -0,0 +1,136 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { isAIMessage, type BaseMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import type { Serialized } from "@langchain/core/load/serializable";
+import { getLlmNodeConfig, isLlmNode } from "./llm.js";
+import { computeCostUsd } from "./pricing.js";
+import { insertLlmUsage, type LlmUsageInput } from "./database.js";
+import { estimateTokens } from "../tools/transcript-windows.js";
+
+/**
+ * Comptabilité des appels LLM : un callback LangChain, passé à l'exécution du
+ * graphe ou d'une route, enregistre chaque appel de modèle (tokens, modèle,
+ * latence, coût) dans la table llm_usage.
+ *
+ * Le nœud vient des métadonnées LangGraph (`langgraph_node`), la scène des
+ * métadonnées `sceneId` passées à l'appel du modèle. Sans usage renvoyé par le
+ * fournisseur (fournisseur factice), les tokens sont estimés. Une réponse
+ * relue depuis une cassette n'appelle pas de modèle et ne coûte rien.
+ */
+
+export type LlmUsageRecord = Omit<LlmUsageInput, "jobId" | "reportId">;
+
+type PendingCall = {
+  node: string;
+  sceneId: number | null;
+  model: string | null;
+  provider: string | null;
+  promptText: string;
+  startedAt: number;
+};
+
+type TokenUsage = { promptTokens: number; completionTokens: number };
+
+function readTokenUsage(output: LLMResult, promptText: string): TokenUsage {
+  const generation = output.generations[0]?.[0] as ChatGeneration | undefined;
+  const usage =
+    generation?.message && isAIMessage(generation.message)
+      ? generation.message.usage_metadata
+      : undefined;
+  if (usage) {
+    return {
+      promptTokens: usage.input_tokens,
+      completionTokens: usage.output_tokens,
+    };
+  }
+
+  const legacy = output.llmOutput?.tokenUsage as
+    | { promptTokens?: number; completionTokens?: number }
+    | undefined;
+  if (legacy?.promptTokens !== undefined) {
+    return {
+      promptTokens: legacy.promptTokens,
+      completionTokens: legacy.completionTokens ?? 0,
+    };
+  }
+
+  return {
+    promptTokens: estimateTokens(promptText),
+    completionTokens: estimateTokens(generation?.text ?? ""),
+  };
+}
+
+export class LlmUsageTracker extends BaseCallbackHandler {
+  name = "llm_usage_tracker";
+
+  private readonly pending = new Map<string, PendingCall>();
+
+  constructor(
+    private readonly options: {
+      jobId?: string;
+      reportId?: string;
+      /** Used when the call does not run inside a graph node. */
+      node?: string;
+      onRecord?: (record: LlmUsageRecord) => void;
+    } = {}
+  ) {
+    // Les enregistrements doivent être écrits avant la fin du job
+    super({ _awaitHandler: true });
+  }
+
+  handleChatModelStart(
+    _llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>
+  ): void {
+    const sceneId = Number(metadata?.sceneId);
+    this.pending.set(runId, {
+      node:
+        (typeof metadata?.langgraph_node === "string" && metadata.langgraph_node) ||
+        this.options.node ||
+        "unknown",
+      sceneId: Number.isFinite(sceneId) ? sceneId : null,
+      model: typeof metadata?.ls_model_name === "string" ? metadata.ls_model_name : null,
+      provider: typeof metadata?.ls_provider === "string" ? metadata.ls_provider : null,
+      promptText: messages.flat().map((m) => m.text).join("\n"),
+      startedAt: Date.now(),
+    });
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string): void {
+    const call = this.pending.get(runId);
+    if (!call) return;
+    this.pending.delete(runId);
+
+    const nodeConfig = isLlmNode(call.node) ? getLlmNodeConfig(call.node) : null;
+    const model = call.model ?? nodeConfig?.model ?? "unknown";
+    const { promptTokens, completionTokens } = readTokenUsage(output, call.promptText);
+
+    const record: LlmUsageRecord = {
+      node: call.node,
+      sceneId: call.sceneId,
+      provider: nodeConfig?.provider ?? call.provider ?? "unknown",
+      model,
+      promptTokens,
+      completionTokens,
+      latencyMs: Date.now() - call.startedAt,
+      costUsd: computeCostUsd(model, promptTokens, completionTokens),
+      createdAt: new Date().toISOString(),
+    };
+
+    insertLlmUsage({
+      ...record,
+      jobId: this.options.jobId ?? null,
+      reportId: this.options.reportId ?? null,
+    });
+    this.options.onRecord?.(record);
+  }
+
+  handleLLMError(_err: Error, runId: string): void {
+    this.pending.delete(runId);
+  }
+}
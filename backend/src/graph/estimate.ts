@@ -0,0 +1,304 @@
+import { preprocessSessionTranscript } from "../tools/preprocessing.js";
+import {
+  estimateTokens,
+  splitTranscriptWindows,
+} from "../tools/transcript-windows.js";
+import {
+  buildAnalystSystemPrompt,
+  getAnalystTranscriptBudget,
+  WINDOW_CONCURRENCY,
+} from "../agents/analyst.js";
+import {
+  getNarrativeTargets,
+  SCENE_CONCURRENCY,
+} from "../agents/summarizer.js";
+import { VALIDATION_CONCURRENCY } from "../agents/validator.js";
+import { getTableTalkTranscriptBudget } from "../agents/table-talk.js";
+import {
+  CONTINUITY_SYSTEM_PROMPT,
+  FORMATTER_SYSTEM_PROMPT,
+  SUMMARIZER_SYSTEM_PROMPT,
+  TABLE_TALK_SYSTEM_PROMPT,
+  TABLE_TALK_TAGGING_PROMPT,
+  VALIDATOR_SYSTEM_PROMPT,
+} from "../config/prompts.js";
+import { getLlmNodeConfig, type LlmNode } from "../config/llm.js";
+import { computeCostUsd } from "../config/pricing.js";
+import { MAX_SCENE_ATTEMPTS } from "../tools/scene-attempts.js";
+import type { WorkflowStateType } from "./state.js";
+
+/**
+ * Estimation d'un traitement avant lancement, sans appel LLM : seul le
+ * preprocessing est exécuté, le reste est projeté à partir du nombre de lignes.
+ *
+ * Meilleur cas : scènes longues, aucune correction demandée par le validator,
+ * hors-jeu limité aux lignes repérées par les heuristiques.
+ * Pire cas : scènes courtes, toutes les scènes épuisent leur budget de
+ * tentatives (MAX_SCENE_ATTEMPTS), une part du transcript en scènes meta/pause.
+ */
+
+export type RunEstimateCase = {
+  scenes: number;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Null when a node model has no pricing. */
+  costUsd: number | null;
+  durationSeconds: number;
+};
+
+export type RunEstimate = {
+  transcript: {
+    totalLines: number;
+    speakersCount: number;
+    diceRollCount: number;
+    analystInputTokens: number;
+    analystWindows: number;
+  };
+  best: RunEstimateCase;
+  worst: RunEstimateCase;
+  unpricedModels: string[];
+};
+
+type EstimateInput = Pick<
+  WorkflowStateType,
+  "rawTranscript" | "universeContext" | "sessionHistory" | "playerInfo"
+> &
+  Partial<
+    Pick<
+      WorkflowStateType,
+      | "speakerPattern"
+      | "transcriptParts"
+      | "applyGlossary"
+      | "fuzzyGlossary"
+      | "tableTalkTagging"
+    >
+  >;
+
+// Paliers de getNarrativeTargets : au-delà de 90 lignes une scène vise le
+// récit le plus long, en dessous de 35 le plus court.
+const LONG_SCENE_LINES = 90;
+const SHORT_SCENE_LINES = 35;
+
+const TOKENS_PER_WORD = 1.6;
+const WORDS_PER_PARAGRAPH = 90;
+// Événements clés, jets de dés, PNJs, notes : en plus du récit
+const SUMMARY_STRUCTURE_TOKENS = 350;
+const SCENE_OVERVIEW_TOKENS = 40;
+const ENTITIES_TOKENS = 400;
+const ANALYST_OUTPUT_BASE_TOKENS = 300;
+const ANALYST_OUTPUT_TOKENS_PER_SCENE = 80;
+const VALIDATION_OUTPUT_TOKENS = { best: 60, worst: 300 };
+const TABLE_TALK_TAGGING_OUTPUT_TOKENS = 150;
+const TABLE_TALK_OUTPUT_TOKENS = 300;
+// Pire cas : part du transcript passée en pauses et discussions meta
+const WORST_TABLE_TALK_SHARE = 0.15;
+
+// Débit indicatif d'un modèle hébergé ; la durée reste un ordre de grandeur
+const CALL_OVERHEAD_SECONDS = 2;
+const OUTPUT_TOKENS_PER_SECOND = 50;
+const INPUT_TOKENS_PER_SECOND = 5_000;
+
+type StageCalls = {
+  node: LlmNode;
+  calls: number;
+  promptTokensPerCall: number;
+  completionTokensPerCall: number;
+  concurrency: number;
+};
+
+function callSeconds(promptTokens: number, completionTokens: number): number {
+  return (
+    CALL_OVERHEAD_SECONDS +
+    promptTokens / INPUT_TOKENS_PER_SECOND +
+    completionTokens / OUTPUT_TOKENS_PER_SECOND
+  );
+}
+
+function summarizeStages(stages: StageCalls[], scenes: number): RunEstimateCase {
+  let costUsd: number | null = 0;
+  let calls = 0;
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let durationSeconds = 0;
+
+  for (const stage of stages) {
+    if (stage.calls === 0) continue;
+    const stagePrompt = stage.calls * stage.promptTokensPerCall;
+    const stageCompletion = stage.calls * stage.completionTokensPerCall;
+    const stageCost = computeCostUsd(
+      getLlmNodeConfig(stage.node).model,
+      stagePrompt,
+      stageCompletion
+    );
+
+    calls += stage.calls;
+    promptTokens += stagePrompt;
+    completionTokens += stageCompletion;
+    costUsd = costUsd === null || stageCost === null ? null : costUsd + stageCost;
+    // Les appels d'une même étape partent par lots de `concurrency`
+    durationSeconds +=
+      Math.ceil(stage.calls / stage.concurrency) *
+      callSeconds(stage.promptTokensPerCall, stage.completionTokensPerCall);
+  }
+
+  return {
+    scenes,
+    calls,
+    promptTokens: Math.round(promptTokens),
+    completionTokens: Math.round(completionTokens),
+    costUsd,
+    durationSeconds: Math.round(durationSeconds),
+  };
+}
+
+function estimateCase(
+  kind: "best" | "worst",
+  context: {
+    totalLines: number;
+    transcriptTokens: number;
+    analystPromptTokens: number;
+    analystWindows: number;
+    universeTokens: number;
+    tableTalkLines: number;
+    /** 0 sans la passe LLM de repérage du hors-jeu. */
+    tableTalkTaggingWindows: number;
+  }
+): RunEstimateCase {
+  const sceneLines = kind === "best" ? LONG_SCENE_LINES : SHORT_SCENE_LINES;
+  const scenes = Math.max(1, Math.ceil(context.totalLines / sceneLines));
+  const linesPerScene = context.totalLines / scenes;
+  const sceneTextTokens = context.transcriptTokens / scenes;
+
+  const targets = getNarrativeTargets(Math.round(linesPerScene));
+  const narrativeWords =
+    kind === "best"
+      ? targets.minWords
+      : Math.max(targets.minWords, targets.maxParagraphs * WORDS_PER_PARAGRAPH);
+  const narrativeTokens = narrativeWords * TOKENS_PER_WORD;
+  const summaryTokens = narrativeTokens + SUMMARY_STRUCTURE_TOKENS;
+
+  const passes = kind === "best" ? 1 : MAX_SCENE_ATTEMPTS;
+  const sharedContextTokens =
+    context.universeTokens + ENTITIES_TOKENS + scenes * SCENE_OVERVIEW_TOKENS;
+  const tableTalkTokens =
+    kind === "best"
+      ? (context.transcriptTokens * context.tableTalkLines) / Math.max(1, context.totalLines)
+      : context.transcriptTokens * WORST_TABLE_TALK_SHARE;
+
+  return summarizeStages(
+    [
+      {
+        node: "analyst",
+        calls: context.analystWindows,
+        promptTokensPerCall:
+          context.analystPromptTokens +
+          context.transcriptTokens / context.analystWindows,
+        completionTokensPerCall:
+          ANALYST_OUTPUT_BASE_TOKENS +
+          (ANALYST_OUTPUT_TOKENS_PER_SCENE * scenes) / context.analystWindows,
+        concurrency: WINDOW_CONCURRENCY,
+      },
+      {
+        node: "tableTalk",
+        calls: context.tableTalkTaggingWindows,
+        promptTokensPerCall:
+          estimateTokens(TABLE_TALK_TAGGING_PROMPT) +
+          context.transcriptTokens / Math.max(1, context.tableTalkTaggingWindows),
+        completionTokensPerCall: TABLE_TALK_TAGGING_OUTPUT_TOKENS,
+        concurrency: 1,
+      },
+      {
+        node: "tableTalk",
+        calls: kind === "best" && context.tableTalkLines === 0 ? 0 : 1,
+        promptTokensPerCall: estimateTokens(TABLE_TALK_SYSTEM_PROMPT) + tableTalkTokens,
+        completionTokensPerCall: TABLE_TALK_OUTPUT_TOKENS,
+        concurrency: 1,
+      },
+      {
+        node: "summarizer",
+        calls: scenes * passes,
+        promptTokensPerCall:
+          estimateTokens(SUMMARIZER_SYSTEM_PROMPT) + sharedContextTokens + sceneTextTokens,
+        completionTokensPerCall: summaryTokens,
+        concurrency: SCENE_CONCURRENCY,
+      },
+      {
+        node: "validator",
+        calls: scenes * passes,
+        promptTokensPerCall:
+          estimateTokens(VALIDATOR_SYSTEM_PROMPT) +
+          sharedContextTokens +
+          sceneTextTokens +
+          summaryTokens,
+        completionTokensPerCall: VALIDATION_OUTPUT_TOKENS[kind],
+        concurrency: VALIDATION_CONCURRENCY,
+      },
+      {
+        // Continuité de la session : un appel par passe, sur tous les résumés
+        node: "validator",
+        calls: scenes >= 2 ? passes : 0,
+        promptTokensPerCall:
+          estimateTokens(CONTINUITY_SYSTEM_PROMPT) +
+          context.universeTokens +
+          ENTITIES_TOKENS +
+          scenes * summaryTokens,
+        completionTokensPerCall: VALIDATION_OUTPUT_TOKENS[kind],
+        concurrency: 1,
+      },
+      {
+        node: "formatter",
+        calls: 1,
+        promptTokensPerCall:
+          estimateTokens(FORMATTER_SYSTEM_PROMPT) + scenes * summaryTokens,
+        completionTokensPerCall: scenes * narrativeTokens,
+        concurrency: 1,
+      },
+    ],
+    scenes
+  );
+}
+
+export function estimateProcessRun(input: EstimateInput): RunEstimate {
+  const { preprocessed, parts, stats } = preprocessSessionTranscript(input);
+
+  const analystSystemPrompt = buildAnalystSystemPrompt(input, {}, parts);
+  const transcriptTokens = estimateTokens(preprocessed);
+  const budget = getAnalystTranscriptBudget(analystSystemPrompt);
+  const analystWindows =
+    transcriptTokens <= budget
+      ? 1
+      : splitTranscriptWindows(preprocessed, budget).length;
+
+  const context = {
+    totalLines: stats.totalLines,
+    transcriptTokens,
+    analystPromptTokens: estimateTokens(analystSystemPrompt),
+    analystWindows,
+    universeTokens: estimateTokens(input.universeContext),
+    tableTalkLines: stats.tableTalkCount,
+    tableTalkTaggingWindows: input.tableTalkTagging
+      ? splitTranscriptWindows(preprocessed, getTableTalkTranscriptBudget()).length
+      : 0,
+  };
+
+  const unpricedModels = (
+    ["analyst", "tableTalk", "summarizer", "validator", "formatter"] as const
+  )
+    .map((node) => getLlmNodeConfig(node).model)
+    .filter((model, i, all) => all.indexOf(model) === i)
+    .filter((model) => computeCostUsd(model, 0, 0) === null);
+
+  return {
+    transcript: {
+      totalLines: stats.totalLines,
+      speakersCount: Object.keys(stats.speakerCounts).length,
+      diceRollCount: stats.diceRollCount,
+      analystInputTokens: context.analystPromptTokens + transcriptTokens,
+      analystWindows,
+    },
+    best: estimateCase("best", context),
+    worst: estimateCase("worst", context),
+    unpricedModels,
+  };
+}
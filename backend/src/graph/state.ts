@@ -1,9 +1,19 @@
 import { Annotation, messagesStateReducer } from "@langchain/langgraph";
 import { BaseMessage } from "@langchain/core/messages";
 import { z } from "zod";
+import type { TranscriptPart } from "../tools/preprocessing.js";
+import type { GlossaryCorrection } from "../tools/glossary.js";
+import type { SceneAdjustment } from "../tools/scene-normalizer.js";
+import type {
+  SceneAttempt,
+  SceneAttemptSelection,
+} from "../tools/scene-attempts.js";
 
 // ── Zod schemas for structured data ──────────────────────────────────────────
 
+// Pronoms d'un personnage : donnent l'accord en genre du récit
+export const PronounsSchema = z.enum(["il", "elle", "iel"]);
+
 export const PlayerInfoSchema = z.object({
   playerName: z.string().describe("Nom du joueur (ex: Emilie)"),
   characterName: z.string().describe("Nom du personnage-joueur (ex: Yumi)"),
@@ -11,6 +21,11 @@ export const PlayerInfoSchema = z.object({
     .string()
     .optional()
     .describe("Indice de speaker dans le transcript (ex: SPEAKER_00)"),
+  isGameMaster: z
+    .boolean()
+    .optional()
+    .describe("Le speaker indiqué est le MJ (characterName vide)"),
+  pronouns: PronounsSchema.optional().describe("Pronoms du personnage (il, elle, iel)"),
 });
 
 export const SceneSchema = z.object({
@@ -26,6 +41,14 @@ export const SceneSchema = z.object({
     .string()
     .optional()
     .describe("Résumé court pour le contexte inter-scènes"),
+  startTime: z
+    .number()
+    .optional()
+    .describe("Début de la scène, en secondes depuis le début de l'enregistrement"),
+  endTime: z
+    .number()
+    .optional()
+    .describe("Fin de la scène, en secondes depuis le début de l'enregistrement"),
 });
 
 export const EntitySchema = z.object({
@@ -34,6 +57,9 @@ export const EntitySchema = z.object({
       name: z.string(),
       player: z.string(),
       description: z.string().optional(),
+      pronouns: PronounsSchema.optional().describe(
+        "Pronoms d'après le transcript (il, elle, iel) ; absent sans indice"
+      ),
     })
   ),
   npcs: z.array(
@@ -41,12 +67,31 @@ export const EntitySchema = z.object({
       name: z.string(),
       role: z.string().optional(),
       description: z.string().optional(),
+      pronouns: PronounsSchema.optional().describe(
+        "Pronoms d'après le transcript (il, elle, iel) ; absent sans indice"
+      ),
     })
   ),
   locations: z.array(z.string()),
   items: z.array(z.string()),
 });
 
+export const ParsedDiceRollSchema = z.object({
+  system: z.enum(["d20", "pool", "generic"]),
+  /** Notation normalisée : "1d20+5", "3d6+2", "7d10". */
+  notation: z.string().optional(),
+  /** Faces lues (résultat naturel d'un d20, dés d'une réserve). */
+  dice: z.array(z.number()).optional(),
+  modifier: z.number().optional(),
+  total: z.number().optional(),
+  /** DD, CA ou difficulté d'une réserve. */
+  target: z.number().optional(),
+  successes: z.number().optional(),
+  outcome: z
+    .enum(["critical_success", "success", "failure", "critical_failure"])
+    .optional(),
+});
+
 export const SceneSummarySchema = z.object({
   sceneId: z.number(),
   narrativeSummary: z
@@ -60,6 +105,9 @@ export const SceneSummarySchema = z.object({
         skill: z.string(),
         result: z.string(),
         context: z.string(),
+        roll: ParsedDiceRollSchema.optional().describe(
+          "Rempli par le preprocessing à partir du transcript : laisse vide"
+        ),
       })
     )
     .describe("Jets de dés importants"),
@@ -67,8 +115,59 @@ export const SceneSummarySchema = z.object({
   technicalNotes: z.array(z.string()).optional().describe("Notes techniques"),
 });
 
+// Correction ciblée d'un résumé : les positions renvoient à la version
+// précédente, numérotée dans le prompt
+export const SummaryEditSchema = z.object({
+  target: z
+    .enum(["paragraph", "keyEvent", "diceRoll", "npc", "technicalNote"])
+    .describe("Élément modifié : paragraphe du récit, key event, jet, PNJ ou note technique"),
+  action: z.enum(["replace", "insert_after", "delete"]),
+  index: z
+    .number()
+    .describe("Position dans la version précédente, à partir de 1 ; pour insert_after, 0 insère en tête"),
+  text: z
+    .string()
+    .optional()
+    .describe("Nouveau contenu (paragraphe, key event, nom de PNJ ou note) ; absent pour delete"),
+  diceRoll: z
+    .object({
+      character: z.string(),
+      skill: z.string(),
+      result: z.string(),
+      context: z.string(),
+    })
+    .optional()
+    .describe("Nouveau jet, pour target=diceRoll"),
+  reason: z.string().describe("Problème du validateur corrigé par cette modification"),
+});
+
+export const SummaryPatchSchema = z.object({
+  edits: z.array(SummaryEditSchema),
+});
+
+const TableTalkEntriesSchema = z
+  .array(z.string())
+  .describe("Une entrée par point, commençant par un repère [Lx] ou [Lx-Ly]");
+
+export const TableTalkNotesSchema = z.object({
+  scheduling: TableTalkEntriesSchema.describe(
+    "Organisation : date et heure de la prochaine session, absences, retards, durée"
+  ),
+  rulings: TableTalkEntriesSchema.describe(
+    "Arbitrages de règles décidés à la table (interprétation d'une règle, cas particulier)"
+  ),
+  houseRules: TableTalkEntriesSchema.describe(
+    "Règles maison adoptées, modifiées ou abandonnées"
+  ),
+  todos: TableTalkEntriesSchema.describe(
+    "Choses à faire avant la prochaine session (fiches, achats, lectures, montée de niveau)"
+  ),
+});
+
 export const ValidationIssueSchema = z.object({
   sceneId: z.number().optional(),
+  /** Problème de continuité de la session : scènes en cause (sceneId absent). */
+  sceneIds: z.array(z.number()).optional(),
   issue: z.string(),
   severity: z.enum(["error", "warning", "info"]),
   suggestion: z.string().optional(),
@@ -112,6 +211,38 @@ export const WorkflowState = Annotation.Root({
     reducer: (_, b) => b,
     default: () => [],
   }),
+  // Session enregistrée en plusieurs fichiers : les parties, dans l'ordre
+  transcriptParts: Annotation<TranscriptPart[]>({
+    reducer: (_, b) => b,
+    default: () => [],
+  }),
+  // Motif des lignes d'un transcript texte : "auto", preset ou regex
+  speakerPattern: Annotation<string>({
+    reducer: (_, b) => b,
+    default: () => "auto",
+  }),
+  // Corrige les noms propres d'après le glossaire de l'univers
+  applyGlossary: Annotation<boolean>({
+    reducer: (_, b) => b,
+    default: () => true,
+  }),
+  // Rapproche aussi les graphies non déclarées dans le glossaire
+  fuzzyGlossary: Annotation<boolean>({
+    reducer: (_, b) => b,
+    default: () => false,
+  }),
+  // Passe LLM de repérage des lignes hors-jeu, en plus des heuristiques
+  tableTalkTagging: Annotation<boolean>({
+    reducer: (_, b) => b,
+    default: () => false,
+  }),
+
+  // ── Preprocessor output ──
+  // Toujours renseignées ; `applied` à false quand applyGlossary est désactivé
+  glossaryCorrections: Annotation<GlossaryCorrection[]>({
+    reducer: (_, b) => b,
+    default: () => [],
+  }),
 
   // ── Analyst output ──
   scenes: Annotation<z.infer<typeof SceneSchema>[]>({
@@ -127,6 +258,18 @@ export const WorkflowState = Annotation.Root({
     default: () => ({ pcs: [], npcs: [], locations: [], items: [] }),
   }),
 
+  // ── Scene normalizer output (bornes des scènes recalées sur le transcript) ──
+  sceneAdjustments: Annotation<SceneAdjustment[]>({
+    reducer: (_, b) => b,
+    default: () => [],
+  }),
+
+  // ── Table talk output (scènes meta/pause et lignes hors-jeu) ──
+  tableTalkNotes: Annotation<z.infer<typeof TableTalkNotesSchema> | null>({
+    reducer: (_, b) => b,
+    default: () => null,
+  }),
+
   // ── Summarizer: file d'attente et progression (une scène par invocation) ──
   pendingSceneIds: Annotation<number[]>({
     reducer: (_, b) => b,
@@ -165,16 +308,27 @@ export const WorkflowState = Annotation.Root({
     },
     default: () => [],
   }),
+  // Toutes les tentatives de résumé, par identifiant de scène
+  sceneAttempts: Annotation<Record<number, SceneAttempt[]>>({
+    reducer: (a, b) => ({ ...a, ...b }),
+    default: () => ({}),
+  }),
 
   // ── Validator output ──
   validationReport: Annotation<z.infer<typeof ValidationReportSchema>>({
     reducer: (_, b) => b,
     default: () => ({ isValid: true, issues: [] }),
   }),
+  // Passes de validation effectuées ; le budget de correction est par scène
   retryCount: Annotation<number>({
     reducer: (_, b) => b,
     default: () => 0,
   }),
+  // Tentative retenue pour chaque scène validée, et pourquoi
+  sceneAttemptSelections: Annotation<SceneAttemptSelection[]>({
+    reducer: (_, b) => b,
+    default: () => [],
+  }),
 
   // ── Formatter output ──
   finalReport: Annotation<string>({
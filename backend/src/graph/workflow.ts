@@ -1,13 +1,22 @@
-import { StateGraph, START, END } from "@langchain/langgraph";
+import {
+  StateGraph,
+  START,
+  END,
+  getWriter,
+  type BaseCheckpointSaver,
+} from "@langchain/langgraph";
 import { WorkflowState, WorkflowStateType } from "./state.js";
-import { preprocessTranscript } from "../tools/preprocessing.js";
+import {
+  getSceneTimeRange,
+  preprocessSessionTranscript,
+} from "../tools/preprocessing.js";
+import { normalizeScenes } from "../tools/scene-normalizer.js";
 import { analystNode } from "../agents/analyst.js";
+import { tableTalkNode } from "../agents/table-talk.js";
 import { summarizerNode } from "../agents/summarizer.js";
 import { validatorNode } from "../agents/validator.js";
 import { formatterNode } from "../agents/formatter.js";
 
-const MAX_RETRIES = 2;
-
 const log = (msg: string, data?: Record<string, unknown>) => {
   const payload = data ? ` ${JSON.stringify(data)}` : "";
   console.log(`[cr] ${msg}${payload}`);
@@ -21,44 +30,92 @@ function preprocessorNode(
   log("Début nœud: preprocessor", {
     inputLength: state.rawTranscript?.length ?? 0,
   });
-  const { preprocessed, stats } = preprocessTranscript(state.rawTranscript);
+  const { preprocessed, format, speakerPattern, parts, glossaryCorrections, stats } =
+    preprocessSessionTranscript(state);
   log("Fin nœud: preprocessor", {
+    format,
+    speakerPattern,
+    parts: parts.length,
     lines: stats.totalLines,
     speakers: Object.keys(stats.speakerCounts).length,
     diceRolls: stats.diceRollCount,
+    glossaryCorrections: glossaryCorrections.length,
   });
   return {
     preprocessedTranscript: preprocessed,
+    glossaryCorrections,
     currentStep: "preprocessor_complete",
   };
 }
 
+// ── Scene normalizer node (pure code, no LLM) ───────────────────────────────
+
+function sceneNormalizerNode(
+  state: WorkflowStateType
+): Partial<WorkflowStateType> {
+  log("Début nœud: sceneNormalizer", { scenesCount: state.scenes.length });
+  const writer = getWriter();
+  const { lines } = preprocessSessionTranscript(state);
+  const { scenes: normalized, adjustments } = normalizeScenes(state.scenes, lines);
+
+  for (const adjustment of adjustments) {
+    writer?.({
+      event: "step:adjustment",
+      payload: { step: "sceneNormalizer", adjustment },
+    });
+  }
+
+  // Transcripts horodatés (JSON, SRT, VTT) : chaque scène reçoit sa plage
+  // d'enregistrement, reprise par le formatter
+  const scenes = normalized.map(({ startTime: _start, endTime: _end, ...scene }) => ({
+    ...scene,
+    ...getSceneTimeRange(lines, scene.startLine, scene.endLine),
+  }));
+
+  // File d'attente pour le summarizer : une scène = une invocation de nœud
+  const pendingSceneIds = scenes
+    .filter((s) => s.type !== "meta" && s.type !== "pause")
+    .map((s) => s.id);
+
+  log("Fin nœud: sceneNormalizer", {
+    scenesCount: scenes.length,
+    narrativeScenesCount: pendingSceneIds.length,
+    adjustments: adjustments.length,
+  });
+  return {
+    scenes,
+    pendingSceneIds,
+    sceneAdjustments: adjustments,
+    currentStep: "scene_normalizer_complete",
+  };
+}
+
 // ── Routing: validator → formatter or → summarizer ───────────────────────────
 
+// Le validator ne met en file que les scènes en erreur dont le budget de
+// tentatives n'est pas épuisé
 function validatorRouter(
   state: WorkflowStateType
 ): "formatter" | "summarizer" {
-  const hasErrors = state.validationReport.issues.some(
-    (i) => i.severity === "error"
-  );
-  if (hasErrors && state.retryCount < MAX_RETRIES) {
-    return "summarizer";
-  }
-  return "formatter";
+  return state.pendingSceneIds.length > 0 ? "summarizer" : "formatter";
 }
 
 // ── Build the workflow graph ─────────────────────────────────────────────────
 
-export function buildWorkflow() {
+export function buildWorkflow(checkpointer?: BaseCheckpointSaver) {
   const graph = new StateGraph(WorkflowState)
     .addNode("preprocessor", preprocessorNode)
     .addNode("analyst", analystNode)
+    .addNode("sceneNormalizer", sceneNormalizerNode)
+    .addNode("tableTalk", tableTalkNode)
     .addNode("summarizer", summarizerNode)
     .addNode("validator", validatorNode)
     .addNode("formatter", formatterNode)
     .addEdge(START, "preprocessor")
     .addEdge("preprocessor", "analyst")
-    .addEdge("analyst", "summarizer")
+    .addEdge("analyst", "sceneNormalizer")
+    .addEdge("sceneNormalizer", "tableTalk")
+    .addEdge("tableTalk", "summarizer")
     .addEdge("summarizer", "validator")
     .addConditionalEdges("validator", validatorRouter, {
       formatter: "formatter",
@@ -66,5 +123,5 @@ export function buildWorkflow() {
     })
     .addEdge("formatter", END);
 
-  return graph.compile();
+  return graph.compile({ checkpointer });
 }
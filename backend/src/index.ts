@@ -7,21 +7,60 @@ import { fileURLToPath } from "url";
 import { randomUUID } from "crypto";
 import dotenv from "dotenv";
 import { buildWorkflow } from "./graph/workflow.js";
+import { estimateProcessRun } from "./graph/estimate.js";
+import {
+  parseSpeakerAliases,
+  preprocessSessionTranscript,
+  sampleSpeakers,
+} from "./tools/preprocessing.js";
+import type { GlossaryCorrection } from "./tools/glossary.js";
+import type { SceneAdjustment } from "./tools/scene-normalizer.js";
+import type { SceneAttemptSelection } from "./tools/scene-attempts.js";
+import { computeDiceStats } from "./tools/dice-stats.js";
+import { assertSpeakerPattern } from "./tools/speaker-patterns.js";
+import { workflowCheckpointer } from "./config/checkpointer.js";
+import { PronounsSchema, type WorkflowStateType } from "./graph/state.js";
+import type { Pronouns } from "./tools/identity-guardrails.js";
 import {
   getEditorDraft,
   upsertEditorDraft,
   migrateEditorDraftsFromDisk,
+  migrateReportWorkflowStatesFromJson,
   insertReport,
   updateReportMd,
-  updateReportWorkflowState,
   getReport,
+  listReportScenes,
+  updateSceneNarrative,
   listReports,
   deleteReport,
   insertCorrection,
   listCorrections,
+  insertProcessJob,
+  getProcessJob,
+  listProcessJobs,
+  updateProcessJobStatus,
+  claimNextProcessJob,
+  recoverRunningProcessJobs,
+  deleteJobSceneSummaries,
+  insertJobEvent,
+  listJobEvents,
+  getLastJobEventId,
+  attachJobUsageToReport,
+  getLlmUsageSummary,
+  listReportDiceRolls,
+  type JobEventRow,
+  type ProcessJobInput,
+  type ProcessJobRow,
+  type ProcessJobStatus,
 } from "./config/database.js";
-import { createModel } from "./config/llm.js";
+import {
+  createModel,
+  describeLlmConfig,
+  isLlmConfigured,
+} from "./config/llm.js";
+import { LlmUsageTracker } from "./config/usage.js";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { RunnableLambda } from "@langchain/core/runnables";
 
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
 dotenv.config({ path: resolve(__dirname, "../../.env") });
@@ -33,6 +72,8 @@ app.use(cors());
 app.use(express.json({ limit: "50mb" }));
 
 const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 50 * 1024 * 1024 } });
+// Fichiers d'une même session (avant / après la pause...), dans l'ordre d'envoi
+const MAX_TRANSCRIPT_PARTS = 10;
 
 type SceneMeta = {
   id: number;
@@ -60,6 +101,8 @@ if (isProduction && existsSync(frontendDistDir)) {
 
 // Migrate disk-based editor drafts to SQLite on first startup
 migrateEditorDraftsFromDisk();
+// Move legacy JSON workflow states into the normalized report tables
+migrateReportWorkflowStatesFromJson();
 
 function safeUniverseId(id: string): string | null {
   if (!id || typeof id !== "string") return null;
@@ -75,6 +118,8 @@ type PlayerDraft = {
   playerName: string;
   characterName: string;
   speakerHint?: string;
+  isGameMaster?: boolean;
+  pronouns?: Pronouns;
 };
 
 type EditorDraft = {
@@ -88,11 +133,24 @@ function parsePlayerDraft(value: unknown): PlayerDraft | null {
   const o = value as Record<string, unknown>;
   const playerName = typeof o.playerName === "string" ? o.playerName : "";
   const characterName = typeof o.characterName === "string" ? o.characterName : "";
+  const speakerHint = typeof o.speakerHint === "string" ? o.speakerHint : undefined;
+  // Le MJ n'a pas de personnage : seul son speaker l'identifie
+  if (o.isGameMaster === true) {
+    if (!playerName.trim() && !speakerHint?.trim()) return null;
+    return {
+      playerName: playerName.trim(),
+      characterName: "",
+      speakerHint,
+      isGameMaster: true,
+    };
+  }
   if (!playerName.trim() && !characterName.trim()) return null;
+  const pronouns = PronounsSchema.safeParse(o.pronouns);
   return {
     playerName: playerName.trim(),
     characterName: characterName.trim(),
-    speakerHint: typeof o.speakerHint === "string" ? o.speakerHint : undefined,
+    speakerHint,
+    ...(pronouns.success ? { pronouns: pronouns.data } : {}),
   };
 }
 
@@ -303,37 +361,18 @@ const log = (msg: string, data?: Record<string, unknown>) => {
   console.log(`[cr] ${msg}${payload}`);
 };
 
-type ProcessJobStatus = "pending" | "running" | "completed" | "failed";
-
-type ProcessInput = {
-  rawTranscript: string;
-  transcriptName: string;
-  universeContext: string;
-  sessionHistory: string;
-  universeName: string;
-  playerInfo: PlayerDraft[];
-};
-
-type ProcessJobEvent = {
-  id: number;
-  type: string;
-  data: unknown;
-  timestamp: string;
-};
+type ProcessJobEvent = JobEventRow;
 
-type ProcessJob = {
-  id: string;
-  status: ProcessJobStatus;
-  createdAt: string;
-  updatedAt: string;
-  transcriptName: string;
-  universeName: string;
+/**
+ * Job persisted in SQLite (process_jobs) plus its live SSE listeners. Events
+ * are stored in job_events, so a stream can be replayed after a restart.
+ */
+type ProcessJob = ProcessJobRow & {
   playerInfo: PlayerDraft[];
-  input: ProcessInput;
-  events: ProcessJobEvent[];
   listeners: Set<(event: ProcessJobEvent) => void>;
   nextEventId: number;
-  error: string | null;
+  /** Aborts the in-flight model calls of a running job. */
+  abortController: AbortController | null;
 };
 
 type ProcessJobSummary = {
@@ -345,17 +384,33 @@ type ProcessJobSummary = {
   universeName: string;
   playersCount: number;
   error: string | null;
+  costUsd: number | null;
 };
 
 type ParsedProcessRequest =
-  | { ok: true; input: ProcessInput }
+  | { ok: true; input: ProcessJobInput }
   | { ok: false; status: number; message: string };
 
 const processJobs = new Map<string, ProcessJob>();
-const PROCESS_JOB_RETENTION_MS = 6 * 60 * 60 * 1000;
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? Number.parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const JOB_WORKER_SLOTS = parsePositiveInt(process.env.JOB_WORKER_SLOTS, 2);
+const JOB_RECOVERY_MODE =
+  process.env.JOB_RECOVERY_MODE?.trim().toLowerCase() === "interrupt"
+    ? "interrupt"
+    : "requeue";
 
 function isTerminalJobStatus(status: ProcessJobStatus): boolean {
-  return status === "completed" || status === "failed";
+  return (
+    status === "completed" ||
+    status === "failed" ||
+    status === "interrupted" ||
+    status === "cancelled"
+  );
 }
 
 function toProcessJobSummary(job: ProcessJob): ProcessJobSummary {
@@ -368,41 +423,53 @@ function toProcessJobSummary(job: ProcessJob): ProcessJobSummary {
     universeName: job.universeName,
     playersCount: job.playerInfo.length,
     error: job.error,
+    costUsd: getJobCostUsd(job.id),
   };
 }
 
-function cleanupProcessJobs(): void {
-  const now = Date.now();
+function getJobCostUsd(jobId: string): number | null {
+  const { totals } = getLlmUsageSummary({ jobId });
+  return totals.calls > 0 ? totals.costUsd : null;
+}
+
+/** Drops finished jobs nobody listens to; they are reloaded from SQLite. */
+function evictIdleProcessJobs(): void {
   for (const [id, job] of processJobs.entries()) {
-    if (!isTerminalJobStatus(job.status)) continue;
-    const age = now - new Date(job.updatedAt).getTime();
-    if (age > PROCESS_JOB_RETENTION_MS) {
+    if (isTerminalJobStatus(job.status) && job.listeners.size === 0) {
       processJobs.delete(id);
     }
   }
 }
 
-function createProcessJob(input: ProcessInput): ProcessJob {
-  cleanupProcessJobs();
-  const now = new Date().toISOString();
+function hydrateProcessJob(row: ProcessJobRow): ProcessJob {
   const job: ProcessJob = {
-    id: randomUUID(),
-    status: "pending",
-    createdAt: now,
-    updatedAt: now,
-    transcriptName: input.transcriptName,
-    universeName: input.universeName,
-    playerInfo: input.playerInfo,
-    input,
-    events: [],
+    ...row,
+    playerInfo: row.input.playerInfo,
     listeners: new Set(),
-    nextEventId: 1,
-    error: null,
+    nextEventId: (getLastJobEventId(row.id) ?? 0) + 1,
+    abortController: null,
   };
   processJobs.set(job.id, job);
   return job;
 }
 
+function loadProcessJob(jobId: string): ProcessJob | null {
+  const cached = processJobs.get(jobId);
+  if (cached) return cached;
+  const row = getProcessJob(jobId);
+  return row ? hydrateProcessJob(row) : null;
+}
+
+function createProcessJob(input: ProcessJobInput): ProcessJob {
+  evictIdleProcessJobs();
+  const row = insertProcessJob({
+    id: randomUUID(),
+    input,
+    createdAt: new Date().toISOString(),
+  });
+  return hydrateProcessJob(row);
+}
+
 function setProcessJobStatus(
   job: ProcessJob,
   status: ProcessJobStatus,
@@ -411,6 +478,44 @@ function setProcessJobStatus(
   job.status = status;
   job.error = error;
   job.updatedAt = new Date().toISOString();
+  updateProcessJobStatus(job.id, status, error, job.updatedAt);
+}
+
+/**
+ * Moves a running job to `completed`. Returns false, without writing, when
+ * the job was cancelled in the meantime.
+ */
+function completeProcessJob(job: ProcessJob, signal: AbortSignal): boolean {
+  if (signal.aborted || job.status !== "running") return false;
+  const updatedAt = new Date().toISOString();
+  if (!updateProcessJobStatus(job.id, "completed", null, updatedAt, "running")) {
+    return false;
+  }
+  job.status = "completed";
+  job.error = null;
+  job.updatedAt = updatedAt;
+  return true;
+}
+
+// ── Worker slots ─────────────────────────────────────────────────────────────
+
+let activeProcessWorkers = 0;
+
+/** Starts pending jobs (oldest first) while worker slots are available. */
+function scheduleProcessJobs(): void {
+  while (activeProcessWorkers < JOB_WORKER_SLOTS) {
+    const row = claimNextProcessJob();
+    if (!row) return;
+
+    const job = processJobs.get(row.id) ?? hydrateProcessJob(row);
+    job.status = row.status;
+    job.updatedAt = row.updatedAt;
+    activeProcessWorkers++;
+    void runProcessJob(job).finally(() => {
+      activeProcessWorkers--;
+      scheduleProcessJobs();
+    });
+  }
 }
 
 function publishProcessJobEvent(
@@ -424,7 +529,7 @@ function publishProcessJobEvent(
     data,
     timestamp: new Date().toISOString(),
   };
-  job.events.push(event);
+  insertJobEvent(job.id, event);
   job.updatedAt = event.timestamp;
   for (const listener of [...job.listeners]) {
     listener(event);
@@ -459,13 +564,23 @@ function streamProcessJob(
   fromEventId = 0
 ): void {
   initSSE(res);
-  for (const event of job.events) {
-    if (event.id >= fromEventId) {
-      writeSSEEvent(res, event.type, event.data, event.id);
-    }
+  for (const event of listJobEvents(job.id, fromEventId)) {
+    writeSSEEvent(res, event.type, event.data, event.id);
   }
 
   if (isTerminalJobStatus(job.status)) {
+    // Jobs finished before job_events existed: only the final status is known
+    if (job.nextEventId === 1) {
+      if (job.status === "completed") {
+        writeSSEEvent(res, "done", { message: "Traitement terminé." });
+      } else if (job.status === "cancelled") {
+        writeSSEEvent(res, "cancelled", { message: "Traitement annulé." });
+      } else {
+        writeSSEEvent(res, "error", {
+          message: job.error ?? "Traitement interrompu.",
+        });
+      }
+    }
     res.end();
     return;
   }
@@ -500,13 +615,38 @@ function streamProcessJob(
 }
 
 function parseProcessRequest(req: Request): ParsedProcessRequest {
+  const files = Array.isArray(req.files) ? req.files : [];
+  const transcriptParts = files.map((file) => ({
+    name: file.originalname?.trim() || "transcript.txt",
+    rawText: file.buffer.toString("utf-8"),
+  }));
   const transcriptText =
-    req.file?.buffer.toString("utf-8") ??
-    (typeof req.body?.transcript === "string" ? req.body.transcript : "");
+    transcriptParts.length > 0
+      ? transcriptParts.map((p) => p.rawText).join("\n\n")
+      : typeof req.body?.transcript === "string"
+        ? req.body.transcript
+        : "";
 
   if (!transcriptText.trim()) {
     return { ok: false, status: 400, message: "Aucun transcript fourni." };
   }
+  const emptyPart = transcriptParts.find((p) => !p.rawText.trim());
+  if (emptyPart) {
+    return { ok: false, status: 400, message: `Le fichier ${emptyPart.name} est vide.` };
+  }
+
+  const speakerAliases = parseSpeakerAliases(
+    req.body?.speakerAliases,
+    Math.max(transcriptParts.length, 1)
+  );
+  if (!speakerAliases) {
+    return {
+      ok: false,
+      status: 400,
+      message:
+        "speakerAliases invalide (tableau attendu, un objet { speaker: speaker de session } par fichier).",
+    };
+  }
 
   const universeContext =
     typeof req.body?.universeContext === "string" ? req.body.universeContext : "";
@@ -519,7 +659,7 @@ function parseProcessRequest(req: Request): ParsedProcessRequest {
   const transcriptNameFromBody =
     typeof req.body?.transcriptName === "string" ? req.body.transcriptName : "";
   const transcriptName =
-    req.file?.originalname?.trim() ||
+    transcriptParts.map((p) => p.name).join(" + ") ||
     transcriptNameFromBody.trim() ||
     "transcript.txt";
 
@@ -548,6 +688,20 @@ function parseProcessRequest(req: Request): ParsedProcessRequest {
     .map((value) => parsePlayerDraft(value))
     .filter((p): p is PlayerDraft => p !== null);
 
+  const speakerPattern =
+    typeof req.body?.speakerPattern === "string" && req.body.speakerPattern.trim()
+      ? req.body.speakerPattern.trim()
+      : "auto";
+  try {
+    assertSpeakerPattern(speakerPattern);
+  } catch (err) {
+    return {
+      ok: false,
+      status: 400,
+      message: err instanceof Error ? err.message : String(err),
+    };
+  }
+
   return {
     ok: true,
     input: {
@@ -557,10 +711,84 @@ function parseProcessRequest(req: Request): ParsedProcessRequest {
       sessionHistory,
       universeName,
       playerInfo: players,
+      speakerPattern,
+      applyGlossary: req.body?.applyGlossary !== "false",
+      fuzzyGlossary: req.body?.fuzzyGlossary === "true",
+      tableTalkTagging: req.body?.tableTalkTagging === "true",
+      ...(transcriptParts.length > 1
+        ? {
+            transcriptParts: transcriptParts.map((part, i) => ({
+              ...part,
+              speakerAliases: speakerAliases[i] ?? {},
+            })),
+          }
+        : {}),
     },
   };
 }
 
+function saveFinalReport(job: ProcessJob, state: WorkflowStateType): void {
+  // Save report and the complete workflow state to SQLite
+  const reportId = randomUUID();
+  try {
+    insertReport({
+      id: reportId,
+      jobId: job.id,
+      reportMd: state.finalReport,
+      universeName: job.universeName,
+      transcriptName: job.transcriptName,
+      players: job.playerInfo,
+      workflowState: {
+        preprocessedTranscript: state.preprocessedTranscript,
+        universeContext: state.universeContext,
+        sessionHistory: state.sessionHistory,
+        speakerMap: state.speakerMap,
+        entities: state.entities,
+        scenes: state.scenes,
+        sceneSummaries: state.sceneSummaries,
+        validationReport: state.validationReport,
+        retryCount: state.retryCount,
+        tableTalkNotes: state.tableTalkNotes,
+        sceneAttempts: state.sceneAttempts,
+        sceneAttemptSelections: state.sceneAttemptSelections,
+      },
+    });
+    attachJobUsageToReport(job.id, reportId);
+    log("Report saved to SQLite", { reportId, jobId: job.id });
+  } catch (dbErr) {
+    log("Failed to save report to SQLite", {
+      jobId: job.id,
+      error: dbErr instanceof Error ? dbErr.message : String(dbErr),
+    });
+  }
+
+  publishProcessJobEvent(job, "result", {
+    reportId,
+    finalReport: state.finalReport,
+    scenes: state.scenes,
+    entities: state.entities,
+    job: {
+      id: job.id,
+      universeName: job.universeName,
+      transcriptName: job.transcriptName,
+      playerInfo: job.playerInfo,
+    },
+  });
+}
+
+/** Checkpoints and cached scene summaries are only needed to resume a job. */
+async function discardJobCheckpoints(job: ProcessJob): Promise<void> {
+  try {
+    await workflowCheckpointer.deleteThread(job.id);
+    deleteJobSceneSummaries(job.id);
+  } catch (err) {
+    log("Failed to delete job checkpoints", {
+      jobId: job.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
 async function runProcessJob(job: ProcessJob): Promise<void> {
   const input = {
     rawTranscript: job.input.rawTranscript,
@@ -568,29 +796,76 @@ async function runProcessJob(job: ProcessJob): Promise<void> {
     sessionHistory: job.input.sessionHistory,
     universeName: job.input.universeName,
     playerInfo: job.input.playerInfo,
+    speakerPattern: job.input.speakerPattern ?? "auto",
+    transcriptParts: job.input.transcriptParts ?? [],
+    applyGlossary: job.input.applyGlossary ?? true,
+    fuzzyGlossary: job.input.fuzzyGlossary ?? false,
+    tableTalkTagging: job.input.tableTalkTagging ?? false,
   };
 
+  // The job id is the checkpoint thread: a job that already ran partially
+  // continues from its last completed node
+  const threadConfig = { configurable: { thread_id: job.id } };
+  const abortController = new AbortController();
+  job.abortController = abortController;
+
   setProcessJobStatus(job, "running");
-  log("Démarrage workflow", {
-    jobId: job.id,
-    transcriptLength: input.rawTranscript.length,
-    lines: input.rawTranscript.split("\n").length,
-    universe: input.universeName,
-    playersCount: input.playerInfo.length,
-  });
 
-  publishProcessJobEvent(job, "step:start", {
-    step: "preprocessor",
-    label: "Preprocessing du transcript...",
+  // Totals include the calls of previous attempts of a resumed job
+  const usageTotals = getLlmUsageSummary({ jobId: job.id }).totals;
+  const usageTracker = new LlmUsageTracker({
+    jobId: job.id,
+    onRecord: (record) => {
+      usageTotals.calls += 1;
+      usageTotals.promptTokens += record.promptTokens;
+      usageTotals.completionTokens += record.completionTokens;
+      usageTotals.latencyMs += record.latencyMs;
+      usageTotals.costUsd += record.costUsd ?? 0;
+      publishProcessJobEvent(job, "step:usage", {
+        ...record,
+        totals: { ...usageTotals },
+      });
+    },
   });
 
   try {
-    const workflow = buildWorkflow();
-    const stream = await workflow.stream(input, {
-      streamMode: ["updates", "custom"],
+    const workflow = buildWorkflow(workflowCheckpointer);
+    const snapshot = await workflow.getState(threadConfig);
+    const resumeFrom = snapshot.next.length > 0 ? snapshot.next[0] : null;
+    const checkpointState = snapshot.values as Partial<WorkflowStateType>;
+
+    if (resumeFrom) {
+      log("Reprise workflow", { jobId: job.id, resumeFrom });
+      publishProcessJobEvent(job, "step:start", {
+        step: resumeFrom,
+        label: `Reprise du traitement à l'étape ${resumeFrom}...`,
+      });
+    } else {
+      log("Démarrage workflow", {
+        jobId: job.id,
+        transcriptLength: input.rawTranscript.length,
+        lines: input.rawTranscript.split("\n").length,
+        universe: input.universeName,
+        playersCount: input.playerInfo.length,
+      });
+      publishProcessJobEvent(job, "step:start", {
+        step: "preprocessor",
+        label: "Preprocessing du transcript...",
+      });
+    }
+
+    const stream = await workflow.stream(resumeFrom ? null : input, {
+      ...threadConfig,
+      streamMode: ["updates", "custom", "values"],
+      signal: abortController.signal,
+      callbacks: [usageTracker],
     });
 
-    let narrativeScenesCache: SceneMeta[] = [];
+    let narrativeScenesCache: SceneMeta[] = (checkpointState.scenes ?? []).filter(
+      (s) => s.type !== "meta" && s.type !== "pause"
+    );
+    // Full accumulated state (reducers applied), as opposed to node updates
+    let finalState: WorkflowStateType | null = null;
 
     const sendSceneCollection = (
       group: "summarizer" | "validator",
@@ -623,47 +898,109 @@ async function runProcessJob(job: ProcessJob): Promise<void> {
       for (const [nodeName, nodeOutput] of Object.entries(update)) {
         const output = nodeOutput as Record<string, unknown>;
         switch (nodeName) {
-          case "preprocessor":
-            log("Étape terminée: preprocessor", { jobId: job.id });
+          case "preprocessor": {
+            const glossaryCorrections =
+              (output.glossaryCorrections as GlossaryCorrection[]) || [];
+            const correctedCount = glossaryCorrections.reduce((n, c) => n + c.count, 0);
+            const applied = glossaryCorrections.some((c) => c.applied);
+            log("Étape terminée: preprocessor", {
+              jobId: job.id,
+              glossaryCorrections: correctedCount,
+              glossaryApplied: applied,
+            });
             publishProcessJobEvent(job, "step:complete", {
               step: "preprocessor",
-              label: "Preprocessing terminé",
+              label:
+                correctedCount > 0
+                  ? `Preprocessing terminé (noms propres ${
+                      applied ? "corrigés" : "proposés, non appliqués"
+                    } : ${correctedCount})`
+                  : "Preprocessing terminé",
+              data: { glossaryCorrections },
             });
             publishProcessJobEvent(job, "step:start", {
               step: "analyst",
               label: "Analyse du transcript (détection scènes, speakers, entités)...",
             });
             break;
+          }
 
           case "analyst": {
             const scenes = (output.scenes as SceneMeta[]) || [];
+            log("Étape terminée: analyst", {
+              jobId: job.id,
+              scenesCount: scenes.length,
+            });
+
+            publishProcessJobEvent(job, "step:complete", {
+              step: "analyst",
+              label: "Analyse terminée",
+              data: {
+                scenesCount: scenes.length,
+                speakerMap: output.speakerMap,
+                entitiesPreview: output.entities,
+              },
+            });
+            publishProcessJobEvent(job, "step:start", {
+              step: "sceneNormalizer",
+              label: "Vérification du découpage en scènes...",
+            });
+            break;
+          }
+
+          case "sceneNormalizer": {
+            const scenes = (output.scenes as SceneMeta[]) || [];
+            const adjustments = (output.sceneAdjustments as SceneAdjustment[]) || [];
             const narrativeScenes = scenes.filter(
               (s) => s.type !== "meta" && s.type !== "pause"
             );
             narrativeScenesCache = narrativeScenes;
-            log("Étape terminée: analyst", {
+            log("Étape terminée: sceneNormalizer", {
               jobId: job.id,
               scenesCount: scenes.length,
               narrativeScenesCount: narrativeScenes.length,
+              adjustments: adjustments.length,
             });
 
             publishProcessJobEvent(job, "step:complete", {
-              step: "analyst",
-              label: "Analyse terminée",
+              step: "sceneNormalizer",
+              label:
+                adjustments.length > 0
+                  ? `Découpage corrigé (${adjustments.length} ajustement(s), ${scenes.length} scène(s))`
+                  : `Découpage conforme (${scenes.length} scène(s))`,
               data: {
                 scenesCount: scenes.length,
                 narrativeScenesCount: narrativeScenes.length,
-                speakerMap: output.speakerMap,
-                entitiesPreview: output.entities,
+                adjustments,
               },
             });
+            publishProcessJobEvent(job, "step:start", {
+              step: "tableTalk",
+              label: "Notes hors-jeu (pauses, discussions meta)...",
+            });
+            break;
+          }
+
+          case "tableTalk": {
+            const tableTalk = output.tableTalkNotes as Record<string, string[]> | null;
+            const notesCount = tableTalk
+              ? Object.values(tableTalk).reduce((n, entries) => n + entries.length, 0)
+              : 0;
+            log("Étape terminée: tableTalk", { jobId: job.id, notesCount });
+            publishProcessJobEvent(job, "step:complete", {
+              step: "tableTalk",
+              label: tableTalk
+                ? `Notes hors-jeu : ${notesCount} point(s) relevé(s)`
+                : "Aucun échange hors-jeu",
+              data: { tableTalk },
+            });
             publishProcessJobEvent(job, "step:start", {
               step: "summarizer",
               label:
                 "Analyse détaillée des scènes (en parallèle, subset transcript par agent)",
-              data: { totalScenes: narrativeScenes.length },
+              data: { totalScenes: narrativeScenesCache.length },
             });
-            sendSceneCollection("summarizer", narrativeScenes);
+            sendSceneCollection("summarizer", narrativeScenesCache);
             break;
           }
 
@@ -690,11 +1027,17 @@ async function runProcessJob(job: ProcessJob): Promise<void> {
               issues: unknown[];
             };
             const retryCount = output.retryCount as number;
+            const selections =
+              (output.sceneAttemptSelections as SceneAttemptSelection[]) || [];
+            // Scènes en erreur qui ont encore des tentatives : le validator
+            // les remet en file pour le summarizer
+            const pendingSceneIds = (output.pendingSceneIds as number[]) || [];
             log("Étape terminée: validator", {
               jobId: job.id,
               isValid: report?.isValid,
               issuesCount: report?.issues?.length ?? 0,
               retryCount,
+              pendingSceneIds,
             });
 
             publishProcessJobEvent(job, "step:complete", {
@@ -702,35 +1045,17 @@ async function runProcessJob(job: ProcessJob): Promise<void> {
               label: report?.isValid
                 ? "Validation OK"
                 : `Validation: ${report?.issues?.length || 0} problème(s) détecté(s)`,
-              data: { validationReport: report, retryCount },
+              data: { validationReport: report, retryCount, sceneAttemptSelections: selections },
             });
 
-            const errorSceneIds = [
-              ...new Set(
-                (report?.issues || [])
-                  .filter((issue) => {
-                    if (!issue || typeof issue !== "object") return false;
-                    const severity = (issue as { severity?: unknown }).severity;
-                    const sceneId = (issue as { sceneId?: unknown }).sceneId;
-                    return severity === "error" && typeof sceneId === "number";
-                  })
-                  .map((issue) => (issue as { sceneId: number }).sceneId)
-              ),
-            ];
-
-            if (
-              report &&
-              !report.isValid &&
-              retryCount < 2 &&
-              errorSceneIds.length > 0
-            ) {
+            if (pendingSceneIds.length > 0) {
               const retryScenes = narrativeScenesCache.filter((s) =>
-                errorSceneIds.includes(s.id)
+                pendingSceneIds.includes(s.id)
               );
 
               publishProcessJobEvent(job, "step:start", {
                 step: "summarizer",
-                label: `Correction parallèle des ${retryScenes.length} scène(s) en erreur (tentative ${retryCount + 1})...`,
+                label: `Correction parallèle des ${retryScenes.length} scène(s) en erreur (passe ${retryCount})...`,
                 data: { totalScenes: retryScenes.length, retryCount },
               });
               sendSceneCollection("summarizer", retryScenes);
@@ -754,39 +1079,6 @@ async function runProcessJob(job: ProcessJob): Promise<void> {
               step: "formatter",
               label: "Compte-rendu généré !",
             });
-
-            // Save report and workflow state to SQLite
-            const reportId = randomUUID();
-            try {
-              insertReport({
-                id: reportId,
-                jobId: job.id,
-                reportMd: finalReport,
-                universeName: job.universeName,
-                transcriptName: job.transcriptName,
-                players: job.playerInfo,
-                workflowState: output as Record<string, unknown>,
-              });
-              log("Report saved to SQLite", { reportId, jobId: job.id });
-            } catch (dbErr) {
-              log("Failed to save report to SQLite", {
-                jobId: job.id,
-                error: dbErr instanceof Error ? dbErr.message : String(dbErr),
-              });
-            }
-
-            publishProcessJobEvent(job, "result", {
-              reportId,
-              finalReport: output.finalReport,
-              scenes: output.scenes,
-              entities: output.entities,
-              job: {
-                id: job.id,
-                universeName: job.universeName,
-                transcriptName: job.transcriptName,
-                playerInfo: job.playerInfo,
-              },
-            });
             break;
           }
         }
@@ -800,6 +1092,10 @@ async function runProcessJob(job: ProcessJob): Promise<void> {
           handleCustomChunk(payload);
           continue;
         }
+        if (mode === "values" && payload && typeof payload === "object") {
+          finalState = payload as WorkflowStateType;
+          continue;
+        }
         if (mode === "updates" && payload && typeof payload === "object") {
           handleUpdateChunk(payload as Record<string, unknown>);
         }
@@ -811,10 +1107,30 @@ async function runProcessJob(job: ProcessJob): Promise<void> {
       }
     }
 
-    setProcessJobStatus(job, "completed");
+    // The stream may drain right after a cancellation request
+    abortController.signal.throwIfAborted();
+    if (!finalState) {
+      throw new Error("Le workflow s'est terminé sans état final.");
+    }
+    saveFinalReport(job, finalState);
+
+    // Une annulation arrivée pendant l'enregistrement du rapport garde le dessus
+    if (!completeProcessJob(job, abortController.signal)) {
+      log("Workflow annulé après la génération du rapport", { jobId: job.id });
+      await discardJobCheckpoints(job);
+      return;
+    }
     log("Workflow terminé avec succès", { jobId: job.id });
     publishProcessJobEvent(job, "done", { message: "Traitement terminé." });
+    await discardJobCheckpoints(job);
   } catch (error) {
+    if (job.status === "cancelled") {
+      // Status and SSE event were published by cancelProcessJob
+      log("Workflow annulé", { jobId: job.id });
+      await discardJobCheckpoints(job);
+      return;
+    }
+
     const message =
       error instanceof Error ? error.message : "Erreur interne du serveur";
     setProcessJobStatus(job, "failed", message);
@@ -831,10 +1147,17 @@ async function runProcessJob(job: ProcessJob): Promise<void> {
           : undefined,
     });
   } finally {
-    cleanupProcessJobs();
+    job.abortController = null;
+    evictIdleProcessJobs();
   }
 }
 
+function cancelProcessJob(job: ProcessJob): void {
+  setProcessJobStatus(job, "cancelled");
+  job.abortController?.abort();
+  publishProcessJobEvent(job, "cancelled", { message: "Traitement annulé." });
+}
+
 // ── Reports (SQLite-backed) ──────────────────────────────────────────────────
 
 app.get("/api/reports", (_req, res) => {
@@ -866,6 +1189,31 @@ app.get("/api/reports/:id/full", (req, res) => {
   res.json(report);
 });
 
+app.get("/api/reports/:id/usage", (req, res) => {
+  const report = getReport(req.params.id);
+  if (!report) {
+    res.status(404).json({ message: "Rapport introuvable." });
+    return;
+  }
+  res.json(getLlmUsageSummary({ reportId: report.id }));
+});
+
+// Campagne : tous les rapports du même univers
+app.get("/api/reports/:id/dice-stats", (req, res) => {
+  const report = getReport(req.params.id);
+  if (!report) {
+    res.status(404).json({ message: "Rapport introuvable." });
+    return;
+  }
+  res.json({
+    session: computeDiceStats(listReportDiceRolls({ reportId: report.id })),
+    campaign: {
+      universeName: report.universeName,
+      ...computeDiceStats(listReportDiceRolls({ universeName: report.universeName })),
+    },
+  });
+});
+
 app.delete("/api/reports/:id", (req, res) => {
   const deleted = deleteReport(req.params.id);
   if (!deleted) {
@@ -908,7 +1256,7 @@ app.post("/api/reports/:id/correct", async (req, res) => {
   }
 
   try {
-    const model = createModel("pro", 0.15);
+    const model = createModel("correction");
 
     const currentReport = report.reportMd;
     const previousReport = currentReport;
@@ -933,12 +1281,11 @@ app.post("/api/reports/:id/correct", async (req, res) => {
         `## Correction demandée\n\n${instruction}\n\n` +
         `Retourne le compte-rendu complet avec la correction appliquée. Uniquement le Markdown, rien d'autre.`
       ),
-    ]);
+    ], {
+      callbacks: [new LlmUsageTracker({ reportId, node: "correction" })],
+    });
 
-    const correctedReport =
-      typeof correctionResponse.content === "string"
-        ? correctionResponse.content
-        : JSON.stringify(correctionResponse.content);
+    const correctedReport = correctionResponse.text;
 
     // Save the correction and update the report
     const correctionId = randomUUID();
@@ -978,16 +1325,7 @@ app.get("/api/reports/:id/scenes", (req, res) => {
     return;
   }
 
-  const workflowState = report.workflowState as Record<string, unknown>;
-  const scenes = (workflowState?.scenes as SceneMeta[]) || [];
-  const sceneSummaries = (workflowState?.sceneSummaries as unknown[]) || [];
-
-  res.json({
-    scenes: scenes.map((scene, idx) => ({
-      ...scene,
-      summary: sceneSummaries[idx] || null,
-    })),
-  });
+  res.json({ scenes: listReportScenes(report.id) });
 });
 
 app.put("/api/reports/:id/scenes/:sceneId", async (req, res) => {
@@ -1014,37 +1352,38 @@ app.put("/api/reports/:id/scenes/:sceneId", async (req, res) => {
     return;
   }
 
-  try {
-    const workflowState = report.workflowState as Record<string, unknown>;
-    const sceneSummaries = (workflowState?.sceneSummaries as Array<Record<string, unknown>>) || [];
-
-    // Find and update the scene summary
-    const sceneIndex = sceneSummaries.findIndex(
-      (s) => s.sceneId === sceneId
-    );
+  if (!report.workflowState) {
+    res.status(409).json({
+      message: "Ce rapport ne contient pas l'état du workflow (rapport trop ancien).",
+    });
+    return;
+  }
 
-    if (sceneIndex === -1) {
+  try {
+    if (!updateSceneNarrative(reportId, sceneId, narrativeSummary)) {
       res.status(404).json({ message: "Scène introuvable." });
       return;
     }
 
-    // Update the narrative summary
-    sceneSummaries[sceneIndex] = {
-      ...sceneSummaries[sceneIndex],
-      narrativeSummary,
-    };
-
-    // Update workflow state
-    const updatedWorkflowState = {
-      ...workflowState,
-      sceneSummaries,
-    };
-
-    updateReportWorkflowState(reportId, updatedWorkflowState);
+    const updatedReport = getReport(reportId);
+    if (!updatedReport?.workflowState) {
+      res.status(404).json({ message: "Rapport introuvable." });
+      return;
+    }
 
     // Regenerate the report using the formatter
     const { formatterNode } = await import("./agents/formatter.js");
-    const formatterResult = await formatterNode(updatedWorkflowState as any);
+    // Run as a runnable so the model call reports its usage to the tracker
+    const formatterResult = await RunnableLambda.from(
+      (state: WorkflowStateType) => formatterNode(state)
+    ).invoke(
+      {
+        ...updatedReport.workflowState,
+        universeName: updatedReport.universeName,
+        playerInfo: updatedReport.players,
+      } as WorkflowStateType,
+      { callbacks: [new LlmUsageTracker({ reportId, node: "formatter" })] }
+    );
     const newReport = formatterResult.finalReport as string;
 
     updateReportMd(reportId, newReport);
@@ -1068,9 +1407,40 @@ app.put("/api/reports/:id/scenes/:sceneId", async (req, res) => {
   }
 });
 
-// ── Process jobs (in-memory queue + resumable SSE) ───────────────────────────
+// ── Preprocessing preview (speaker roster, no LLM call) ─────────────────────
+
+app.post("/api/preprocess", upload.array("transcript", MAX_TRANSCRIPT_PARTS), (req, res) => {
+  const parsed = parseProcessRequest(req);
+  if (!parsed.ok) {
+    res.status(parsed.status).json({ message: parsed.message });
+    return;
+  }
+  const { lines, format, speakerPattern, parts, glossaryCorrections, stats } =
+    preprocessSessionTranscript(parsed.input);
+  res.json({
+    format,
+    speakerPattern,
+    parts,
+    glossaryCorrections,
+    stats,
+    speakers: sampleSpeakers(lines),
+  });
+});
+
+// ── Pre-run estimate (preprocessing only, no LLM call) ───────────────────────
+
+app.post("/api/estimate", upload.array("transcript", MAX_TRANSCRIPT_PARTS), (req, res) => {
+  const parsed = parseProcessRequest(req);
+  if (!parsed.ok) {
+    res.status(parsed.status).json({ message: parsed.message });
+    return;
+  }
+  res.json(estimateProcessRun(parsed.input));
+});
+
+// ── Process jobs (SQLite queue + resumable SSE) ───────────────────────────
 
-app.post("/api/jobs", upload.single("transcript"), (req, res) => {
+app.post("/api/jobs", upload.array("transcript", MAX_TRANSCRIPT_PARTS), (req, res) => {
   const parsed = parseProcessRequest(req);
   if (!parsed.ok) {
     res.status(parsed.status).json({ message: parsed.message });
@@ -1078,17 +1448,18 @@ app.post("/api/jobs", upload.single("transcript"), (req, res) => {
   }
 
   const job = createProcessJob(parsed.input);
-  void runProcessJob(job);
+  scheduleProcessJobs();
   res.status(202).json(toProcessJobSummary(job));
 });
 
 app.get("/api/jobs", (req, res) => {
-  cleanupProcessJobs();
   const allowedStatuses: ProcessJobStatus[] = [
     "pending",
     "running",
     "completed",
     "failed",
+    "interrupted",
+    "cancelled",
   ];
   const queryStatus = typeof req.query.status === "string" ? req.query.status : "";
   const requestedStatuses = queryStatus
@@ -1098,18 +1469,15 @@ app.get("/api/jobs", (req, res) => {
       allowedStatuses.includes(s as ProcessJobStatus)
     );
 
-  const jobs = [...processJobs.values()]
-    .filter((job) =>
-      requestedStatuses.length > 0 ? requestedStatuses.includes(job.status) : true
-    )
-    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
-    .map((job) => toProcessJobSummary(job));
+  const rawLimit = typeof req.query.limit === "string" ? req.query.limit : "";
+  const limit = parsePositiveInt(rawLimit, 0) || undefined;
+
+  const jobs: ProcessJobSummary[] = listProcessJobs(requestedStatuses, limit);
   res.json(jobs);
 });
 
 app.get("/api/jobs/:id", (req, res) => {
-  cleanupProcessJobs();
-  const job = processJobs.get(req.params.id);
+  const job = loadProcessJob(req.params.id);
   if (!job) {
     res.status(404).json({ message: "Job introuvable." });
     return;
@@ -1118,21 +1486,86 @@ app.get("/api/jobs/:id", (req, res) => {
 });
 
 app.get("/api/jobs/:id/stream", (req, res) => {
-  cleanupProcessJobs();
-  const job = processJobs.get(req.params.id);
+  const job = loadProcessJob(req.params.id);
   if (!job) {
     res.status(404).json({ message: "Job introuvable." });
     return;
   }
-  const rawFrom = typeof req.query.from === "string" ? req.query.from : "0";
-  const from = Number.parseInt(rawFrom, 10);
-  const fromEventId = Number.isFinite(from) && from >= 0 ? from : 0;
+  // Reconnection: Last-Event-ID (last event received) wins over ?from=
+  // (first event wanted). Without either, the stream starts at the last
+  // resume so the error of the previous attempt is not replayed.
+  const lastEventId = Number.parseInt(req.header("Last-Event-ID") ?? "", 10);
+  const from = Number.parseInt(
+    typeof req.query.from === "string" ? req.query.from : "",
+    10
+  );
+  const fromEventId =
+    Number.isFinite(lastEventId) && lastEventId >= 0
+      ? lastEventId + 1
+      : Number.isFinite(from) && from >= 0
+        ? from
+        : getLastJobEventId(job.id, "resumed") ?? 0;
   streamProcessJob(req, res, job, fromEventId);
 });
 
+app.get("/api/jobs/:id/events", (req, res) => {
+  const job = loadProcessJob(req.params.id);
+  if (!job) {
+    res.status(404).json({ message: "Job introuvable." });
+    return;
+  }
+  res.json(listJobEvents(job.id));
+});
+
+app.get("/api/jobs/:id/usage", (req, res) => {
+  const job = loadProcessJob(req.params.id);
+  if (!job) {
+    res.status(404).json({ message: "Job introuvable." });
+    return;
+  }
+  res.json(getLlmUsageSummary({ jobId: job.id }));
+});
+
+app.post("/api/jobs/:id/resume", (req, res) => {
+  const job = loadProcessJob(req.params.id);
+  if (!job) {
+    res.status(404).json({ message: "Job introuvable." });
+    return;
+  }
+  if (job.status !== "failed" && job.status !== "interrupted") {
+    res.status(409).json({
+      message: "Seuls les jobs en erreur ou interrompus peuvent être repris.",
+    });
+    return;
+  }
+
+  setProcessJobStatus(job, "pending");
+  publishProcessJobEvent(job, "resumed", {
+    message: "Reprise du traitement demandée.",
+  });
+  scheduleProcessJobs();
+  res.status(202).json(toProcessJobSummary(job));
+});
+
+app.post("/api/jobs/:id/cancel", (req, res) => {
+  const job = loadProcessJob(req.params.id);
+  if (!job) {
+    res.status(404).json({ message: "Job introuvable." });
+    return;
+  }
+  if (isTerminalJobStatus(job.status)) {
+    res.status(409).json({ message: "Ce job est déjà terminé." });
+    return;
+  }
+
+  cancelProcessJob(job);
+  log("Annulation demandée", { jobId: job.id });
+  res.status(202).json(toProcessJobSummary(job));
+});
+
 // ── Backward compatibility: old /api/process SSE route ───────────────────────
 
-app.post("/api/process", upload.single("transcript"), (req, res) => {
+app.post("/api/process", upload.array("transcript", MAX_TRANSCRIPT_PARTS), (req, res) => {
   log("POST /api/process reçu");
   const parsed = parseProcessRequest(req);
   if (!parsed.ok) {
@@ -1143,14 +1576,18 @@ app.post("/api/process", upload.single("transcript"), (req, res) => {
   }
 
   const job = createProcessJob(parsed.input);
-  void runProcessJob(job);
+  scheduleProcessJobs();
   streamProcessJob(req, res, job, 0);
 });
 
 // ── Health check ─────────────────────────────────────────────────────────────
 
 app.get("/api/health", (_req, res) => {
-  res.json({ status: "ok", hasApiKey: !!process.env.GOOGLE_API_KEY });
+  res.json({
+    status: "ok",
+    hasApiKey: isLlmConfigured(),
+    llm: describeLlmConfig(),
+  });
 });
 
 if (isProduction && existsSync(frontendDistDir)) {
@@ -1165,9 +1602,24 @@ if (isProduction && existsSync(frontendDistDir)) {
 
 // ── Start server ─────────────────────────────────────────────────────────────
 
+const recoveredJobs = recoverRunningProcessJobs(JOB_RECOVERY_MODE);
+if (recoveredJobs > 0) {
+  log(
+    JOB_RECOVERY_MODE === "requeue"
+      ? "Jobs interrompus remis en file d'attente"
+      : "Jobs interrompus marqués comme tels",
+    { count: recoveredJobs }
+  );
+}
+scheduleProcessJobs();
+
 app.listen(PORT, () => {
   console.log(`🎲 CR Session backend running on http://localhost:${PORT}`);
   console.log(
-    `   API key: ${process.env.GOOGLE_API_KEY ? "✅ configured" : "❌ missing"}`
+    `   API key: ${isLlmConfigured() ? "✅ configured" : "❌ missing"}`
   );
+  for (const [node, model] of Object.entries(describeLlmConfig())) {
+    console.log(`   LLM ${node}: ${model}`);
+  }
+  console.log(`   Job worker slots: ${JOB_WORKER_SLOTS}`);
 });
@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { reconcileWindowAnalyses, type WindowAnalysis } from "./analyst-reconciliation.js";
+
+type SceneType = "narrative" | "combat" | "social" | "exploration" | "meta" | "pause";
+
+function scene(id: number, startLine: number, endLine: number, title: string, type: SceneType = "narrative") {
+  return { id, title, startLine, endLine, type };
+}
+
+function analysis(
+  index: number,
+  startLine: number,
+  endLine: number,
+  scenes: WindowAnalysis["scenes"],
+  overrides: Partial<WindowAnalysis> = {}
+): WindowAnalysis {
+  return {
+    window: { index, startLine, endLine, text: "", speakerLineCounts: {} },
+    speakerMap: [],
+    entities: { pcs: [], npcs: [], locations: [], items: [] },
+    scenes,
+    ...overrides,
+  };
+}
+
+// Fenêtres L1-L60 et L41-L100 : coupure au milieu du chevauchement, après L50
+test("a scene split across two windows is merged back into one", () => {
+  const { scenes } = reconcileWindowAnalyses([
+    analysis(0, 1, 60, [
+      scene(1, 1, 20, "Arrivée"),
+      { ...scene(2, 21, 60, "La crypte"), location: "Crypte", summary: "Kira entre." },
+    ]),
+    analysis(1, 41, 100, [
+      { ...scene(1, 41, 80, "Dans la crypte", "combat"), summary: "Le garde attaque." },
+      scene(2, 81, 100, "Retour", "exploration"),
+    ]),
+  ]);
+
+  assert.deepEqual(scenes, [
+    scene(1, 1, 20, "Arrivée"),
+    {
+      ...scene(2, 21, 80, "La crypte"),
+      location: "Crypte",
+      summary: "Kira entre. Le garde attaque.",
+    },
+    scene(3, 81, 100, "Retour", "exploration"),
+  ]);
+});
+
+test("a boundary one window places at the cut keeps the scenes apart", () => {
+  const { scenes } = reconcileWindowAnalyses([
+    analysis(0, 1, 60, [scene(1, 1, 50, "Arrivée"), scene(2, 51, 60, "Combat", "combat")]),
+    analysis(1, 41, 100, [scene(1, 41, 50, "Arrivée"), scene(2, 51, 100, "Combat", "combat")]),
+  ]);
+  assert.deepEqual(
+    scenes.map((s) => [s.id, s.startLine, s.endLine, s.title]),
+    [
+      [1, 1, 50, "Arrivée"],
+      [2, 51, 100, "Combat"],
+    ]
+  );
+});
+
+test("windows given out of order are reconciled in window order", () => {
+  const first = analysis(0, 1, 60, [scene(1, 1, 60, "Arrivée")]);
+  const second = analysis(1, 41, 100, [scene(1, 41, 100, "Arrivée")]);
+  assert.deepEqual(
+    reconcileWindowAnalyses([second, first]).scenes,
+    reconcileWindowAnalyses([first, second]).scenes
+  );
+});
+
+test("entities are deduplicated across windows and speakers go to the weighted vote", () => {
+  const reconciled = reconcileWindowAnalyses([
+    analysis(0, 1, 60, [scene(1, 1, 60, "Arrivée")], {
+      window: { index: 0, startLine: 1, endLine: 60, text: "", speakerLineCounts: { SPEAKER_00: 2 } },
+      speakerMap: [{ speakerId: "SPEAKER_00", identification: "Emilie (Kira)" }],
+      entities: { pcs: [], npcs: [{ name: "Aldric" }], locations: ["Crypte"], items: [] },
+    }),
+    analysis(1, 41, 100, [scene(1, 41, 100, "Arrivée")], {
+      window: { index: 1, startLine: 41, endLine: 100, text: "", speakerLineCounts: { SPEAKER_00: 30 } },
+      speakerMap: [{ speakerId: "SPEAKER_00", identification: "MJ" }],
+      entities: {
+        pcs: [],
+        npcs: [{ name: "aldric", role: "Garde" }],
+        locations: ["crypte", "Temple"],
+        items: [],
+      },
+    }),
+  ]);
+
+  assert.deepEqual(reconciled.speakerMap, { SPEAKER_00: "MJ" });
+  assert.deepEqual(reconciled.entities.npcs, [{ name: "Aldric", role: "Garde" }]);
+  assert.deepEqual(reconciled.entities.locations, ["Crypte", "Temple"]);
+});
@@ -0,0 +1,229 @@
+import { z } from "zod";
+import { EntitySchema, SceneSchema } from "../graph/state.js";
+import { normalizeForCompare } from "./identity-guardrails.js";
+import type { TranscriptWindow } from "./transcript-windows.js";
+
+/**
+ * Fusion déterministe des analyses produites fenêtre par fenêtre : un seul
+ * speakerMap (vote pondéré), entités dédoublonnées et liste de scènes
+ * contiguë, les scènes coupées par une frontière de fenêtre étant recollées.
+ */
+
+type Scene = z.infer<typeof SceneSchema>;
+type Entities = z.infer<typeof EntitySchema>;
+
+export type WindowAnalysis = {
+  window: TranscriptWindow;
+  speakerMap: Array<{ speakerId: string; identification: string }>;
+  entities: Entities;
+  scenes: Scene[];
+};
+
+export type ReconciledAnalysis = {
+  speakerMap: Record<string, string>;
+  entities: Entities;
+  scenes: Scene[];
+};
+
+// Morceau de scène restreint à la portion de fenêtre qui lui revient
+type ScenePiece = {
+  scene: Scene;
+  originalStart: number;
+  originalEnd: number;
+};
+
+// ── Speakers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Each window votes for its identification of a speaker, weighted by the
+ * number of lines that speaker has in the window; ties go to the earliest.
+ */
+function reconcileSpeakerMap(analyses: WindowAnalysis[]): Record<string, string> {
+  const votes = new Map<
+    string,
+    Map<string, { identification: string; weight: number; firstWindow: number }>
+  >();
+
+  for (const { window, speakerMap } of analyses) {
+    for (const { speakerId, identification } of speakerMap) {
+      const key = normalizeForCompare(identification);
+      if (!key) continue;
+      const speakerVotes = votes.get(speakerId) ?? new Map();
+      const vote = speakerVotes.get(key) ?? {
+        identification: identification.trim(),
+        weight: 0,
+        firstWindow: window.index,
+      };
+      vote.weight += Math.max(1, window.speakerLineCounts[speakerId] ?? 0);
+      speakerVotes.set(key, vote);
+      votes.set(speakerId, speakerVotes);
+    }
+  }
+
+  return Object.fromEntries(
+    [...votes.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([speakerId, speakerVotes]) => {
+        const [winner] = [...speakerVotes.values()].sort(
+          (a, b) => b.weight - a.weight || a.firstWindow - b.firstWindow
+        );
+        return [speakerId, winner.identification];
+      })
+  );
+}
+
+// ── Entities ─────────────────────────────────────────────────────────────────
+
+/** Keeps the first occurrence of each name and fills its missing fields. */
+function dedupeByName<T extends { name: string }>(items: T[]): T[] {
+  const byKey = new Map<string, T>();
+  for (const item of items) {
+    const key = normalizeForCompare(item.name);
+    if (!key) continue;
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, { ...item });
+      continue;
+    }
+    for (const field of Object.keys(item) as Array<keyof T>) {
+      if (!existing[field] && item[field]) existing[field] = item[field];
+    }
+  }
+  return [...byKey.values()];
+}
+
+function dedupeStrings(values: string[]): string[] {
+  const byKey = new Map<string, string>();
+  for (const value of values) {
+    const key = normalizeForCompare(value);
+    if (key && !byKey.has(key)) byKey.set(key, value.trim());
+  }
+  return [...byKey.values()];
+}
+
+function reconcileEntities(analyses: WindowAnalysis[]): Entities {
+  return {
+    pcs: dedupeByName(analyses.flatMap((a) => a.entities.pcs)),
+    npcs: dedupeByName(analyses.flatMap((a) => a.entities.npcs)),
+    locations: dedupeStrings(analyses.flatMap((a) => a.entities.locations)),
+    items: dedupeStrings(analyses.flatMap((a) => a.entities.items)),
+  };
+}
+
+// ── Scenes ───────────────────────────────────────────────────────────────────
+
+/**
+ * Overlapping windows are cut in the middle of their overlap: each window
+ * owns the lines up to the cut, the next one the lines after it.
+ */
+function computeCuts(windows: TranscriptWindow[]): number[] {
+  return windows.slice(0, -1).map((window, i) => {
+    const next = windows[i + 1];
+    return next.startLine <= window.endLine
+      ? Math.floor((next.startLine + window.endLine) / 2)
+      : window.endLine;
+  });
+}
+
+function clipScenes(
+  analysis: WindowAnalysis,
+  ownedStart: number,
+  ownedEnd: number
+): ScenePiece[] {
+  return analysis.scenes
+    .map((scene) => ({
+      scene: {
+        ...scene,
+        startLine: Math.max(scene.startLine, ownedStart),
+        endLine: Math.min(scene.endLine, ownedEnd),
+      },
+      originalStart: scene.startLine,
+      originalEnd: scene.endLine,
+    }))
+    .filter((piece) => piece.scene.startLine <= piece.scene.endLine)
+    .sort((a, b) => a.scene.startLine - b.scene.startLine);
+}
+
+function mergeScenePieces(left: ScenePiece, right: ScenePiece): ScenePiece {
+  const leftLength = left.scene.endLine - left.scene.startLine;
+  const rightLength = right.scene.endLine - right.scene.startLine;
+  const main = leftLength >= rightLength ? left.scene : right.scene;
+  const summaries = dedupeStrings(
+    [left.scene.summary, right.scene.summary].filter((s): s is string => !!s)
+  );
+
+  return {
+    scene: {
+      ...main,
+      startLine: left.scene.startLine,
+      endLine: right.scene.endLine,
+      location: left.scene.location ?? right.scene.location,
+      summary: summaries.length ? summaries.join(" ") : undefined,
+    },
+    originalStart: left.originalStart,
+    originalEnd: right.originalEnd,
+  };
+}
+
+/**
+ * Both windows see the lines around a cut. The scenes on each side of it are
+ * the same one when neither window placed a boundary there.
+ */
+function continuesAcrossCut(left: ScenePiece, right: ScenePiece, cut: number): boolean {
+  return (
+    left.scene.endLine === cut &&
+    right.scene.startLine === cut + 1 &&
+    left.originalEnd > cut &&
+    right.originalStart <= cut
+  );
+}
+
+function reconcileScenes(analyses: WindowAnalysis[]): Scene[] {
+  const windows = analyses.map((a) => a.window);
+  const cuts = computeCuts(windows);
+
+  let pieces: ScenePiece[] = [];
+  analyses.forEach((analysis, i) => {
+    const ownedStart = i === 0 ? analysis.window.startLine : cuts[i - 1] + 1;
+    const ownedEnd = i === cuts.length ? analysis.window.endLine : cuts[i];
+    const windowPieces = clipScenes(analysis, ownedStart, ownedEnd);
+
+    const previous = pieces[pieces.length - 1];
+    const first = windowPieces[0];
+    if (i > 0 && previous && first && continuesAcrossCut(previous, first, cuts[i - 1])) {
+      pieces[pieces.length - 1] = mergeScenePieces(previous, first);
+      windowPieces.shift();
+    }
+    pieces = pieces.concat(windowPieces);
+  });
+
+  // Une seule scène par ligne de départ : la plus longue l'emporte
+  const ordered = pieces
+    .map((p) => p.scene)
+    .sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine)
+    .filter((scene, i, all) => i === 0 || scene.startLine !== all[i - 1].startLine);
+
+  // Liste contiguë : chaque scène s'arrête juste avant la suivante
+  return ordered.map((scene, i) => ({
+    ...scene,
+    id: i + 1,
+    startLine: i === 0 ? windows[0].startLine : scene.startLine,
+    endLine:
+      i === ordered.length - 1
+        ? windows[windows.length - 1].endLine
+        : ordered[i + 1].startLine - 1,
+  }));
+}
+
+// ── Entry point ──────────────────────────────────────────────────────────────
+
+export function reconcileWindowAnalyses(
+  analyses: WindowAnalysis[]
+): ReconciledAnalysis {
+  const ordered = [...analyses].sort((a, b) => a.window.index - b.window.index);
+  return {
+    speakerMap: reconcileSpeakerMap(ordered),
+    entities: reconcileEntities(ordered),
+    scenes: reconcileScenes(ordered),
+  };
+}
@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findNameVariants } from "./continuity.js";
+
+function summary(sceneId: number, npcsInvolved: string[]) {
+  return { sceneId, narrativeSummary: "", keyEvents: [], diceRolls: [], npcsInvolved };
+}
+
+const noEntities = { pcs: [], npcs: [], locations: [], items: [] };
+
+test("close spellings across scenes are grouped, with the entity spelling as canonical", () => {
+  const findings = findNameVariants(
+    [summary(1, ["Aldric", "Garde"]), summary(2, ["Aldrick"]), summary(3, ["aldric"])],
+    { ...noEntities, npcs: [{ name: "Aldric" }] }
+  );
+  assert.deepEqual(findings, [
+    {
+      canonical: "Aldric",
+      variants: [
+        { name: "Aldric", sceneIds: [1, 3] },
+        { name: "Aldrick", sceneIds: [2] },
+      ],
+    },
+  ]);
+});
+
+test("longer names tolerate two letters, short ones a single letter", () => {
+  const [long] = findNameVariants([summary(1, ["Maximilien"]), summary(2, ["Maximilen"])], noEntities);
+  assert.equal(long?.canonical, undefined);
+  assert.equal(long?.variants.length, 2);
+  assert.deepEqual(findNameVariants([summary(1, ["Bertha"]), summary(2, ["Berthold"])], noEntities), []);
+});
+
+test("names the analyst lists as distinct entities are never variants", () => {
+  const entities = {
+    ...noEntities,
+    npcs: [{ name: "Marek" }],
+    pcs: [{ name: "Marik", player: "Emilie" }],
+  };
+  assert.deepEqual(findNameVariants([summary(1, ["Marek"]), summary(2, ["Marik"])], entities), []);
+});
+
+test("two spellings within a single scene are not a continuity issue", () => {
+  assert.deepEqual(findNameVariants([summary(1, ["Aldric", "Aldrick"]), summary(2, ["Sydon"])], noEntities), []);
+});
+
+test("names under four letters are never compared", () => {
+  assert.deepEqual(findNameVariants([summary(1, ["Kai"]), summary(2, ["Kay"])], noEntities), []);
+});
@@ -0,0 +1,97 @@
+/**
+ * Continuité des noms entre scènes — code pur, pas de LLM.
+ *
+ * Chaque scène est résumée seule : un même PNJ peut y être écrit « Aldric »
+ * puis « Aldrick ». Les noms de `npcsInvolved` proches à une ou deux lettres
+ * près, dans des scènes différentes, sont regroupés ; l'orthographe des
+ * entités de l'analyst fait référence quand elle existe.
+ */
+
+import type { z } from "zod";
+import type { EntitySchema, SceneSummarySchema } from "../graph/state.js";
+import { normalizeForCompare } from "./identity-guardrails.js";
+
+type SceneSummary = z.infer<typeof SceneSummarySchema>;
+type Entities = z.infer<typeof EntitySchema>;
+
+export interface NameVariantFinding {
+  /** Orthographe des entités, absente si aucune variante n'y figure. */
+  canonical?: string;
+  variants: Array<{ name: string; sceneIds: number[] }>;
+}
+
+const MIN_NAME_LENGTH = 4;
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+// Une lettre d'écart pour un nom court, deux au-delà de 7 lettres
+function isSpellingVariant(a: string, b: string): boolean {
+  if (a === b || a.length < MIN_NAME_LENGTH || b.length < MIN_NAME_LENGTH) return false;
+  const tolerance = Math.min(a.length, b.length) >= 8 ? 2 : 1;
+  return editDistance(a, b) <= tolerance;
+}
+
+/**
+ * NPC names written differently across scenes. Two spellings the analyst
+ * lists as distinct entities are distinct characters, never variants.
+ */
+export function findNameVariants(
+  summaries: SceneSummary[],
+  entities: Entities
+): NameVariantFinding[] {
+  const spellings = new Map<string, { name: string; sceneIds: Set<number> }>();
+  for (const summary of summaries) {
+    for (const name of summary.npcsInvolved) {
+      const key = normalizeForCompare(name);
+      if (!key) continue;
+      const spelling = spellings.get(key) ?? { name: name.trim(), sceneIds: new Set() };
+      spelling.sceneIds.add(summary.sceneId);
+      spellings.set(key, spelling);
+    }
+  }
+
+  const known = new Map(
+    [...entities.npcs, ...entities.pcs].map((e) => [normalizeForCompare(e.name), e.name])
+  );
+  const keys = [...spellings.keys()];
+  const grouped = new Set<string>();
+  const findings: NameVariantFinding[] = [];
+
+  for (const key of keys) {
+    if (grouped.has(key)) continue;
+    const group = [key];
+    for (const other of keys) {
+      if (other === key || grouped.has(other)) continue;
+      if (known.has(key) && known.has(other)) continue;
+      if (group.some((member) => isSpellingVariant(member, other))) group.push(other);
+    }
+    if (group.length < 2) continue;
+
+    const sceneSets = group.map((member) => spellings.get(member)!.sceneIds);
+    // Deux orthographes dans une seule et même scène : pas un défaut de continuité
+    if (new Set(sceneSets.flatMap((ids) => [...ids])).size < 2) continue;
+
+    for (const member of group) grouped.add(member);
+    findings.push({
+      canonical: group.map((member) => known.get(member)).find(Boolean),
+      variants: group.map((member) => {
+        const spelling = spellings.get(member)!;
+        return { name: spelling.name, sceneIds: [...spelling.sceneIds].sort((a, b) => a - b) };
+      }),
+    });
+  }
+
+  return findings;
+}
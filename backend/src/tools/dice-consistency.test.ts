@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkDiceConsistency } from "./dice-consistency.js";
+import type { PreprocessedLine } from "./preprocessing.js";
+
+const sceneLines: PreprocessedLine[] = [
+  { lineNumber: 10, speaker: "MJ", text: "Fais-moi un jet d'athlétisme, DD 15.", type: "dialogue" },
+  { lineNumber: 11, speaker: "Emilie", text: "J'ai fait 17.", type: "dialogue" },
+  { lineNumber: 12, speaker: "Emilie", text: "4, 9, 3.", type: "dice_roll" },
+  { lineNumber: 13, speaker: "MJ", text: "", type: "empty" },
+  { lineNumber: 30, speaker: "Marc", text: "J'ai fait 8, c'est raté.", type: "dialogue" },
+];
+
+function roll(result: string, context: string) {
+  return { character: "Kira", skill: "Athlétisme", result, context };
+}
+
+test("results found on the cited line or its neighbours are consistent", () => {
+  const findings = checkDiceConsistency(
+    {
+      diceRolls: [roll("17 vs DD 15", "[L11] Kira saute le ravin"), roll("4, 9, 3", "[L12] Dégâts")],
+      narrativeSummary: "Kira franchit le ravin d'un jet de 17.",
+    },
+    sceneLines
+  );
+  assert.deepEqual(findings, []);
+});
+
+test("a result taken from another line of the scene is altered", () => {
+  const findings = checkDiceConsistency(
+    { diceRolls: [roll("8", "[L11] Kira saute"), roll("4, 9, 3", "[L12] Dégâts")], narrativeSummary: "" },
+    sceneLines
+  );
+  assert.deepEqual(findings, [
+    { kind: "altered", character: "Kira", result: "8", lineNumber: 11, lineText: "J'ai fait 17." },
+  ]);
+});
+
+test("numbers found nowhere in the scene are invented, in the rolls and the narrative", () => {
+  const findings = checkDiceConsistency(
+    {
+      diceRolls: [roll("19", "[L11] Kira saute"), roll("4, 9, 3", "[L12] Dégâts")],
+      narrativeSummary: "Marc obtient un 20 naturel sur sa parade.",
+    },
+    sceneLines
+  );
+  assert.deepEqual(
+    findings.map((f) => (f.kind === "invented" ? [f.source, f.numbers] : f.kind)),
+    [
+      ["diceRolls", [19]],
+      ["narrative", [20]],
+    ]
+  );
+});
+
+test("dice notation and line references are not read as results", () => {
+  const findings = checkDiceConsistency(
+    {
+      diceRolls: [roll("1d20 : 17", "[L11] Kira saute"), roll("4, 9, 3 (3d10)", "[L12] Dégâts")],
+      narrativeSummary: "Le jet de L11 à L12 passe.",
+    },
+    sceneLines
+  );
+  assert.deepEqual(findings, []);
+});
+
+test("a dice line no roll of the summary covers is missing", () => {
+  const findings = checkDiceConsistency(
+    { diceRolls: [roll("17", "[L11] Kira saute")], narrativeSummary: "" },
+    sceneLines
+  );
+  assert.deepEqual(findings, [{ kind: "missing", lineNumber: 12, lineText: "4, 9, 3." }]);
+});
+
+test("an uncited roll covers the dice line carrying all its numbers", () => {
+  const findings = checkDiceConsistency(
+    { diceRolls: [roll("17", "[L11] Kira saute"), roll("9, 4", "Dégâts")], narrativeSummary: "" },
+    sceneLines
+  );
+  assert.deepEqual(findings, []);
+});
@@ -0,0 +1,153 @@
+/**
+ * Cohérence des jets de dés d'un résumé — code pur, pas de LLM.
+ *
+ * Les jets lus par le preprocessing reprennent le résultat de leur ligne ;
+ * restent les résultats recopiés par le modèle (jets non lus, récit) et les
+ * lignes 🎲 qu'aucun jet du résumé ne cite. Chaque nombre annoncé doit se
+ * retrouver dans les lignes de la scène.
+ */
+
+import type { z } from "zod";
+import type { SceneSummarySchema } from "../graph/state.js";
+import type { PreprocessedLine } from "./preprocessing.js";
+import { diceRollLineRef, normalizeSpoken } from "./dice.js";
+
+type SceneSummary = z.infer<typeof SceneSummarySchema>;
+
+export type DiceConsistencyFinding =
+  | {
+      kind: "altered";
+      character: string;
+      result: string;
+      /** Ligne citée par le jet, qui annonce un autre résultat. */
+      lineNumber: number;
+      lineText: string;
+    }
+  | {
+      kind: "invented";
+      source: "diceRolls" | "narrative";
+      /** Résultat du jet ou extrait du récit. */
+      excerpt: string;
+      numbers: number[];
+      lineNumber?: number;
+    }
+  | { kind: "missing"; lineNumber: number; lineText: string };
+
+// Lignes voisines où le MJ annonce souvent le DD ou la conséquence
+const NEARBY_LINES = 2;
+
+// "1d20", "3 d6" : ni la taille ni le nombre de dés ne sont des résultats
+const NOTATION_RE = /(?<![\p{L}\d])\d*\s?d\d+(?![\p{L}\d])/gu;
+const LINE_REF_RE = /(?<!\p{L})L\d+(?:-L?\d+)?(?!\d)/gu;
+
+// Nombres du récit présentés comme des résultats : "un 17 naturel",
+// "un jet de 8", "DD 15", "3 succès"
+const NARRATIVE_DICE_RE =
+  /(?<!\p{L})(?:jets?|lancers?|score|résultat|total|dd|ca)\s+(?:de\s+|à\s+)?(\d+)(?!\d)|(?<!\d)(\d+)\s+(?:naturel|au (?:dé|jet|total)|succès)(?!\p{L})|(?<!\p{L})nat(?:urel)?\s?(\d+)(?!\d)/giu;
+
+function numbersIn(text: string): number[] {
+  return [
+    ...normalizeSpoken(text)
+      .replace(LINE_REF_RE, " ")
+      .replace(NOTATION_RE, " ")
+      .matchAll(/\d+/g),
+  ].map((m) => Number.parseInt(m[0], 10));
+}
+
+function excerptAround(text: string, index: number, radius = 60): string {
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + radius);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).replace(/\s+/g, " ").trim()}${
+    end < text.length ? "…" : ""
+  }`;
+}
+
+/**
+ * Dice results of a scene summary checked against the scene lines. An entry
+ * citing a line must find its numbers there (or a couple of lines around);
+ * an entry without a usable citation, and dice numbers in the narrative,
+ * must find them somewhere in the scene.
+ */
+export function checkDiceConsistency(
+  summary: Pick<SceneSummary, "diceRolls" | "narrativeSummary">,
+  sceneLines: PreprocessedLine[]
+): DiceConsistencyFinding[] {
+  const findings: DiceConsistencyFinding[] = [];
+  const textLines = sceneLines.filter((l) => l.type !== "empty");
+  const numbersByLine = new Map(textLines.map((l) => [l.lineNumber, new Set(numbersIn(l.text))]));
+  const sceneNumbers = new Set([...numbersByLine.values()].flatMap((numbers) => [...numbers]));
+  const linesByNumber = new Map(textLines.map((l) => [l.lineNumber, l]));
+  const cited = new Set<number>();
+
+  for (const entry of summary.diceRolls) {
+    const line = diceRollLineRef(entry);
+    const source = line !== undefined ? linesByNumber.get(line) : undefined;
+    const numbers = numbersIn(entry.result);
+
+    if (source && entry.roll) {
+      cited.add(source.lineNumber);
+      continue;
+    }
+
+    if (source) {
+      const nearby = new Set<number>();
+      for (let n = source.lineNumber - NEARBY_LINES; n <= source.lineNumber + NEARBY_LINES; n++) {
+        for (const value of numbersByLine.get(n) ?? []) nearby.add(value);
+      }
+      if (numbers.every((value) => nearby.has(value))) {
+        cited.add(source.lineNumber);
+        continue;
+      }
+      if (numbers.every((value) => sceneNumbers.has(value))) {
+        cited.add(source.lineNumber);
+        findings.push({
+          kind: "altered",
+          character: entry.character,
+          result: entry.result,
+          lineNumber: source.lineNumber,
+          lineText: source.text,
+        });
+        continue;
+      }
+    }
+
+    const unknown = numbers.filter((value) => !sceneNumbers.has(value));
+    if (unknown.length > 0) {
+      findings.push({
+        kind: "invented",
+        source: "diceRolls",
+        excerpt: `${entry.character} — ${entry.skill} : ${entry.result}`,
+        numbers: unknown,
+        ...(line !== undefined ? { lineNumber: line } : {}),
+      });
+      continue;
+    }
+    // Sans repère : le jet couvre la ligne 🎲 qui porte tous ses nombres
+    const match = textLines.find(
+      (l) =>
+        l.type === "dice_roll" &&
+        !cited.has(l.lineNumber) &&
+        numbers.length > 0 &&
+        numbers.every((value) => numbersByLine.get(l.lineNumber)?.has(value))
+    );
+    if (match) cited.add(match.lineNumber);
+  }
+
+  for (const match of summary.narrativeSummary.matchAll(NARRATIVE_DICE_RE)) {
+    const value = Number.parseInt(match[1] ?? match[2] ?? match[3], 10);
+    if (sceneNumbers.has(value)) continue;
+    findings.push({
+      kind: "invented",
+      source: "narrative",
+      excerpt: excerptAround(summary.narrativeSummary, match.index ?? 0),
+      numbers: [value],
+    });
+  }
+
+  for (const line of textLines) {
+    if (line.type !== "dice_roll" || cited.has(line.lineNumber)) continue;
+    findings.push({ kind: "missing", lineNumber: line.lineNumber, lineText: line.text });
+  }
+
+  return findings;
+}
@@ -0,0 +1,108 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { computeDiceStats, type DiceRollSource } from "./dice-stats.js";
+
+type SceneDiceRoll = DiceRollSource["diceRolls"][number];
+
+function source(reportId: string, sceneId: number, diceRolls: SceneDiceRoll[]): DiceRollSource {
+  return {
+    reportId,
+    transcriptName: `${reportId}.txt`,
+    sceneId,
+    sceneTitle: `Scène ${sceneId}`,
+    diceRolls,
+  };
+}
+
+function entry(
+  character: string,
+  skill: string,
+  roll?: SceneDiceRoll["roll"],
+  result = "?"
+): SceneDiceRoll {
+  return { character, skill, result, context: `[L1] ${skill}`, roll };
+}
+
+test("characters are grouped on their normalized name, first spelling kept", () => {
+  const stats = computeDiceStats([
+    source("r1", 1, [entry("Kira", "Perception"), entry("Marc", "Athlétisme")]),
+    source("r2", 1, [entry("kira ", "Discrétion"), entry("KIRA", "Perception")]),
+  ]);
+  assert.equal(stats.sessions, 2);
+  assert.deepEqual(
+    stats.characters.map((c) => [c.character, c.rolls]),
+    [
+      ["Kira", 3],
+      ["Marc", 1],
+    ]
+  );
+});
+
+test("the generic \"jet\" skill never makes the top skills", () => {
+  const stats = computeDiceStats([
+    source("r1", 1, [
+      entry("Kira", "Jet"),
+      entry("Kira", "jet"),
+      entry("Kira", "jet"),
+      entry("Kira", "Perception"),
+      entry("Kira", "perception"),
+      entry("Kira", "Discrétion"),
+    ]),
+  ]);
+  assert.equal(stats.characters[0].rolls, 6);
+  assert.deepEqual(stats.characters[0].topSkills, [
+    { skill: "Perception", count: 2 },
+    { skill: "Discrétion", count: 1 },
+  ]);
+});
+
+test("the d20 face is the die itself, or the total only when there is no modifier", () => {
+  const stats = computeDiceStats([
+    source("r1", 1, [
+      entry("Kira", "Attaque", { system: "d20", dice: [15], modifier: 5, total: 20 }),
+      entry("Kira", "Perception", { system: "d20", total: 12 }),
+      entry("Kira", "Discrétion", { system: "d20", modifier: 3, total: 17 }),
+      entry("Kira", "Dégâts", { system: "generic", notation: "2d6", total: 8 }),
+    ]),
+  ]);
+  assert.equal(stats.totals.rolls, 4);
+  assert.equal(stats.totals.d20Count, 2);
+  assert.equal(stats.totals.averageD20, 13.5);
+});
+
+test("a critical failure is more cursed than any plain failure", () => {
+  const stats = computeDiceStats([
+    source("r1", 1, [
+      entry("Marc", "Athlétisme", { system: "d20", total: 5, target: 25, outcome: "failure" }),
+      entry("Kira", "Attaque", { system: "d20", dice: [20], outcome: "critical_success" }),
+    ]),
+    source("r2", 4, [
+      entry(
+        "Kira",
+        "Discrétion",
+        { system: "d20", dice: [1], total: 4, target: 12, outcome: "critical_failure" },
+        "1 naturel"
+      ),
+      entry("Marc", "Perception", { system: "d20", total: 3, target: 15, outcome: "failure" }),
+    ]),
+  ]);
+  assert.equal(stats.totals.failures, 3);
+  assert.equal(stats.totals.criticalFailures, 1);
+  assert.equal(stats.totals.criticalSuccesses, 1);
+  assert.deepEqual(
+    {
+      character: stats.mostCursedRoll?.character,
+      result: stats.mostCursedRoll?.result,
+      reportId: stats.mostCursedRoll?.reportId,
+      sceneId: stats.mostCursedRoll?.sceneId,
+    },
+    { character: "Kira", result: "1 naturel", reportId: "r2", sceneId: 4 }
+  );
+});
+
+test("successes alone leave no cursed roll", () => {
+  const stats = computeDiceStats([
+    source("r1", 1, [entry("Kira", "Attaque", { system: "d20", dice: [18], outcome: "success" })]),
+  ]);
+  assert.equal(stats.mostCursedRoll, null);
+});
@@ -0,0 +1,195 @@
+/**
+ * Statistiques de dés — code pur, pas de LLM.
+ *
+ * Agrège les `diceRolls` des résumés de scène d'un rapport ou de tous les
+ * rapports d'une campagne (même univers). Les jets lus par le preprocessing
+ * portent leur détail structuré (`roll`) ; pour les autres (rapports
+ * antérieurs, jets seulement évoqués), le texte du résultat est relu.
+ */
+
+import type { z } from "zod";
+import type { SceneSummarySchema } from "../graph/state.js";
+import { parseDiceRoll, type ParsedDiceRoll } from "./dice.js";
+import { normalizeForCompare } from "./identity-guardrails.js";
+
+type SceneDiceRoll = z.infer<typeof SceneSummarySchema>["diceRolls"][number];
+
+export interface DiceRollSource {
+  reportId: string;
+  transcriptName: string;
+  sceneId: number;
+  sceneTitle: string;
+  diceRolls: SceneDiceRoll[];
+}
+
+export interface DiceRollCounts {
+  rolls: number;
+  successes: number;
+  failures: number;
+  criticalSuccesses: number;
+  criticalFailures: number;
+  /** d20 dont la face naturelle (ou le total sans modificateur) est connue. */
+  d20Count: number;
+  averageD20: number | null;
+}
+
+export interface CharacterDiceStats extends DiceRollCounts {
+  character: string;
+  topSkills: Array<{ skill: string; count: number }>;
+}
+
+export interface NotableDiceRoll {
+  character: string;
+  skill: string;
+  result: string;
+  context: string;
+  reportId: string;
+  transcriptName: string;
+  sceneId: number;
+  sceneTitle: string;
+}
+
+export interface DiceStats {
+  sessions: number;
+  totals: DiceRollCounts;
+  characters: CharacterDiceStats[];
+  mostCursedRoll: NotableDiceRoll | null;
+}
+
+const TOP_SKILLS = 3;
+// Compétence par défaut des jets ajoutés sans précision : pas une compétence
+const GENERIC_SKILL_KEYS = new Set(["jet", ""]);
+
+function resolveRoll(entry: SceneDiceRoll): ParsedDiceRoll | null {
+  return entry.roll ?? parseDiceRoll(entry.result, { system: "generic" });
+}
+
+/** Face naturelle d'un d20 : le dé lu, sinon un total de d20 sans modificateur. */
+function d20Face(roll: ParsedDiceRoll): number | undefined {
+  const isD20 = roll.system === "d20" || roll.notation?.startsWith("1d20");
+  if (!isD20) return undefined;
+  if (roll.dice?.length === 1) return roll.dice[0];
+  if (roll.modifier === undefined && roll.total !== undefined && roll.total <= 20) {
+    return roll.total;
+  }
+  return undefined;
+}
+
+/** Plus la valeur est haute, plus le jet est maudit ; négative : pas maudit. */
+function curseScore(roll: ParsedDiceRoll): number {
+  const margin =
+    roll.target !== undefined && roll.total !== undefined ? roll.target - roll.total : 0;
+  if (roll.outcome === "critical_failure") return 100 + margin;
+  if (roll.outcome === "failure") return 1 + Math.max(0, margin);
+  return -1;
+}
+
+type Accumulator = {
+  counts: Omit<DiceRollCounts, "averageD20">;
+  d20Sum: number;
+};
+
+function emptyAccumulator(): Accumulator {
+  return {
+    counts: {
+      rolls: 0,
+      successes: 0,
+      failures: 0,
+      criticalSuccesses: 0,
+      criticalFailures: 0,
+      d20Count: 0,
+    },
+    d20Sum: 0,
+  };
+}
+
+function addRoll(acc: Accumulator, roll: ParsedDiceRoll | null): void {
+  acc.counts.rolls++;
+  if (!roll) return;
+  if (roll.outcome === "critical_success") acc.counts.criticalSuccesses++;
+  if (roll.outcome === "critical_failure") acc.counts.criticalFailures++;
+  if (roll.outcome === "success" || roll.outcome === "critical_success") acc.counts.successes++;
+  if (roll.outcome === "failure" || roll.outcome === "critical_failure") acc.counts.failures++;
+  const face = d20Face(roll);
+  if (face !== undefined) {
+    acc.counts.d20Count++;
+    acc.d20Sum += face;
+  }
+}
+
+function toCounts(acc: Accumulator): DiceRollCounts {
+  return {
+    ...acc.counts,
+    averageD20:
+      acc.counts.d20Count > 0
+        ? Math.round((acc.d20Sum / acc.counts.d20Count) * 10) / 10
+        : null,
+  };
+}
+
+/**
+ * Statistiques de dés par personnage. Les personnages sont regroupés sur leur
+ * nom normalisé : "Kira" et "kira" ne font qu'un, la première graphie est gardée.
+ */
+export function computeDiceStats(sources: DiceRollSource[]): DiceStats {
+  const totals = emptyAccumulator();
+  const characters = new Map<
+    string,
+    { character: string; acc: Accumulator; skills: Map<string, { skill: string; count: number }> }
+  >();
+  let cursed: { score: number; roll: NotableDiceRoll } | null = null;
+
+  for (const source of sources) {
+    for (const entry of source.diceRolls) {
+      const roll = resolveRoll(entry);
+      addRoll(totals, roll);
+
+      const key = normalizeForCompare(entry.character) || entry.character;
+      const stats = characters.get(key) ?? {
+        character: entry.character,
+        acc: emptyAccumulator(),
+        skills: new Map(),
+      };
+      addRoll(stats.acc, roll);
+      const skillKey = normalizeForCompare(entry.skill);
+      if (!GENERIC_SKILL_KEYS.has(skillKey)) {
+        const skill = stats.skills.get(skillKey) ?? { skill: entry.skill, count: 0 };
+        skill.count++;
+        stats.skills.set(skillKey, skill);
+      }
+      characters.set(key, stats);
+
+      const score = roll ? curseScore(roll) : -1;
+      if (score > 0 && (!cursed || score > cursed.score)) {
+        cursed = {
+          score,
+          roll: {
+            character: entry.character,
+            skill: entry.skill,
+            result: entry.result,
+            context: entry.context,
+            reportId: source.reportId,
+            transcriptName: source.transcriptName,
+            sceneId: source.sceneId,
+            sceneTitle: source.sceneTitle,
+          },
+        };
+      }
+    }
+  }
+
+  return {
+    sessions: new Set(sources.map((s) => s.reportId)).size,
+    totals: toCounts(totals),
+    characters: [...characters.values()]
+      .map(({ character, acc, skills }) => ({
+        character,
+        ...toCounts(acc),
+        topSkills: [...skills.values()]
+          .sort((a, b) => b.count - a.count || a.skill.localeCompare(b.skill))
+          .slice(0, TOP_SKILLS),
+      }))
+      .sort((a, b) => b.rolls - a.rolls || a.character.localeCompare(b.character)),
+    mostCursedRoll: cursed?.roll ?? null,
+  };
+}
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { detectDiceProfile, formatDiceRoll, parseDiceRoll, type DiceProfile } from "./dice.js";
+
+const generic: DiceProfile = { system: "generic" };
+const d20: DiceProfile = { system: "d20" };
+const pool: DiceProfile = { system: "pool", die: 10, difficulty: 6 };
+
+test("a crit keyword without dice context is not a roll", () => {
+  for (const text of [
+    "La situation est critique.",
+    "C'est un moment critique !",
+    "Critique !",
+    "On a eu un échec critique en politique",
+    "Ce fut une réussite critique pour la diplomatie",
+  ]) {
+    assert.equal(parseDiceRoll(text, generic), null, text);
+    assert.equal(parseDiceRoll(text, d20), null, text);
+  }
+});
+
+test("a crit keyword with a roll verb, a number or nat is a critical roll", () => {
+  assert.equal(parseDiceRoll("Je lance, échec critique !", generic)?.outcome, "critical_failure");
+  assert.equal(parseDiceRoll("Mon jet : réussite critique", generic)?.outcome, "critical_success");
+  assert.equal(parseDiceRoll("J'ai fait 20, coup critique", d20)?.outcome, "critical_success");
+  assert.equal(parseDiceRoll("nat 1", d20)?.outcome, "critical_failure");
+  assert.equal(parseDiceRoll("Fumble sur le d20", d20)?.outcome, "critical_failure");
+});
+
+test("spoken totals and notations are read without inventing a total", () => {
+  assert.deepEqual(parseDiceRoll("d20 : 12 plus 5", d20), {
+    system: "d20",
+    notation: "1d20",
+    dice: [12],
+    modifier: 5,
+    total: 17,
+  });
+  assert.deepEqual(parseDiceRoll("/r 1d20+5", d20), {
+    system: "d20",
+    notation: "1d20+5",
+    modifier: 5,
+  });
+  assert.equal(parseDiceRoll("J'ai fait dix-sept contre un DD 15", d20)?.outcome, "success");
+});
+
+test("pool faces are scored against the profile difficulty", () => {
+  const roll = parseDiceRoll("7 dés difficulté 7 : 1, 3, 7, 8, 9", pool);
+  assert.equal(roll?.notation, "7d10");
+  assert.equal(roll?.target, 7);
+  assert.equal(roll?.successes, 2);
+  assert.equal(roll?.outcome, "success");
+  assert.equal(parseDiceRoll("1, 1, 3", pool)?.outcome, "critical_failure");
+});
+
+test("a difficulty announced alone is not a roll", () => {
+  assert.equal(parseDiceRoll("DD 15 pour grimper", d20), null);
+  assert.equal(parseDiceRoll("On se retrouve à la taverne.", generic), null);
+});
+
+test("the universe file picks the dice system", () => {
+  assert.deepEqual(detectDiceProfile("Système : réserve de dés (d10), difficulté 7"), {
+    system: "pool",
+    die: 10,
+    difficulty: 7,
+  });
+  assert.deepEqual(detectDiceProfile("Règles de D&D 5e"), { system: "d20" });
+  assert.deepEqual(detectDiceProfile("Aucune règle"), { system: "generic" });
+});
+
+test("formatted rolls show the natural face and the outcome", () => {
+  const roll = parseDiceRoll("d20 : 12 plus 5 contre une CA 15", d20);
+  assert.ok(roll);
+  assert.equal(formatDiceRoll(roll), "17 (1d20, 12 naturel) vs DD/CA 15 — réussite");
+});
@@ -0,0 +1,404 @@
+/**
+ * Jets de dés — code pur, pas de LLM.
+ *
+ * Les jets arrivent sous trois formes : listes de faces ("4, 5, 6, 7."),
+ * notation ("3d6+2", "/r 1d20+5", "(12)+5 = 17") et français parlé
+ * ("j'ai fait 17", "deux succès", "d20 plus 5", "jet raté, échec critique").
+ * Le profil du système, déduit du fichier univers, donne le sens des
+ * nombres : total contre un DD ou une CA en D&D 5e, faces d'une réserve de
+ * d10 contre une difficulté dans le Monde des Ténèbres.
+ *
+ * Un mot de critique ne fait un jet qu'avec un nombre, une notation, "nat"
+ * ou un verbe de jet sur la même ligne : "la situation est critique" n'en
+ * est pas un.
+ */
+
+import type { z } from "zod";
+import type { ParsedDiceRollSchema, SceneSummarySchema } from "../graph/state.js";
+import type { PreprocessedLine } from "./preprocessing.js";
+
+export type ParsedDiceRoll = z.infer<typeof ParsedDiceRollSchema>;
+
+export type DiceProfile =
+  | { system: "d20" }
+  /** Réserve de dés : une face ≥ difficulté est un succès, un 1 en annule un. */
+  | { system: "pool"; die: number; difficulty: number }
+  | { system: "generic" };
+
+const DEFAULT_POOL_DIE = 10;
+const DEFAULT_POOL_DIFFICULTY = 6;
+
+const POOL_SYSTEM_RE =
+  /réserve de dés|dice pool|monde des ténèbres|world of darkness|storyteller/i;
+const D20_SYSTEM_RE = /\bd20\b|\bD&D\b|donjons (?:et|&) dragons/i;
+const POOL_DIFFICULTY_RE = /difficulté[^.\n]{0,30}?\b(\d{1,2})\b/i;
+const POOL_DIE_RE = /\bd(6|8|10|12)\b/i;
+
+/** Dice system described by a universe file; "generic" when none is. */
+export function detectDiceProfile(universeContext: string): DiceProfile {
+  if (POOL_SYSTEM_RE.test(universeContext)) {
+    const die = universeContext.match(POOL_DIE_RE)?.[1];
+    const difficulty = universeContext.match(POOL_DIFFICULTY_RE)?.[1];
+    return {
+      system: "pool",
+      die: die ? Number.parseInt(die, 10) : DEFAULT_POOL_DIE,
+      difficulty: difficulty ? Number.parseInt(difficulty, 10) : DEFAULT_POOL_DIFFICULTY,
+    };
+  }
+  if (D20_SYSTEM_RE.test(universeContext)) return { system: "d20" };
+  return { system: "generic" };
+}
+
+// ── Normalisation du français parlé ──────────────────────────────────────────
+
+const NUMBER_WORDS: Record<string, number> = {
+  zéro: 0,
+  deux: 2,
+  trois: 3,
+  quatre: 4,
+  cinq: 5,
+  six: 6,
+  sept: 7,
+  huit: 8,
+  neuf: 9,
+  dix: 10,
+  onze: 11,
+  douze: 12,
+  treize: 13,
+  quatorze: 14,
+  quinze: 15,
+  seize: 16,
+  "dix-sept": 17,
+  "dix-huit": 18,
+  "dix-neuf": 19,
+  vingt: 20,
+};
+
+const NUMBER_WORD_RE = new RegExp(
+  `(?<![\\p{L}-])(${Object.keys(NUMBER_WORDS)
+    .sort((a, b) => b.length - a.length)
+    .join("|")})(?![\\p{L}-])`,
+  "giu"
+);
+
+/** Lowercase, digits for number words; "un"/"une" only before a dice word. */
+export function normalizeSpoken(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(NUMBER_WORD_RE, (word) => String(NUMBER_WORDS[word]))
+    .replace(/(?<!\p{L})(?:un|une)\s+(?=\d)/gu, "")
+    .replace(/(?<!\p{L})(?:un|une)(?=\s+(?:succès|dé(?!\p{L})|d\d))/gu, "1")
+    // "un dé 20" : notation parlée
+    .replace(/(?<!\p{L})dé\s+(\d+)(?!\d)/gu, "d$1");
+}
+
+// ── Motifs ───────────────────────────────────────────────────────────────────
+
+// "3d6+2", "d20 plus 5", "2 d10"
+const NOTATION_RE = /(?<![\p{L}\d])(\d+)?\s?d(\d+)(?:\s*(\+|-|plus|moins)\s*(\d+))?(?![\p{L}\d])/u;
+// Roll20 : "(12)+5 = 17", "( 4, 6, 9 ) = 19"
+const ROLL20_SUM_RE = /^\(\s*(\d+(?:\s*[+,]\s*\d+)*)\s*\)((?:\s*[+-]\s*\d+)*)\s*=\s*(\d+)$/;
+const FACE_LIST_RE = /^(\d+(?:\s*[,;]\s*\d+)*)\s*\.?$/;
+// Faces en fin de ligne après l'annonce : "7 dés difficulté 7 : 1, 1, 3, 4"
+const TRAILING_FACES_RE = /:\s*(\d+(?:\s*[,;]\s*\d+)+)\s*\.?$/;
+const POOL_COUNT_RE = /\b(\d+)\s*dés(?!\p{L})/u;
+const SUM_RE = /(?<!\d|\d\.)(\d+)\s*(\+|-|plus|moins)\s*(\d+)(?!\d|\.\d)/;
+// "17 naturel", "nat 20" : face lue sur le dé, avant modificateur
+const NATURAL_RE = /(?<!\d)(\d+) naturel|(?<!\p{L})nat(?:urel)?\s?(\d+)(?!\d)/u;
+const TOTAL_RE =
+  /(?<![\p{L}\d])(?:j'ai fait|j'fais|je fais|ça fait|ca fait|ça donne|j'obtiens|total(?:e)?(?: de)?|résultat(?: de)?|=)\s*:?\s*(\d+)(?=\s*(?:[.,!?;)]|$|au total|sur|avec|donc|contre|pour))/u;
+const TOTAL_AFTER_RE = /\b(\d+)\s+au total\b/;
+// \b ne connaît pas les lettres accentuées : bornes explicites
+const TARGET_RE = /(?<!\p{L})(?:dd|dc|ca|ac|difficulté|diff)\s*(?:de\s*)?:?\s*(\d+)(?!\d)/u;
+const SUCCESSES_RE = /(?<!\d)(\d+)\s*succès(?!\p{L})/u;
+const NO_SUCCESS_RE = /(?<!\p{L})(?:aucun|pas de)\s*succès(?!\p{L})/u;
+const CRITICAL_FAILURE_RE =
+  /(?<!\p{L})(?:échecs? critiques?|fumble|botch|1 naturel|nat(?:urel)?\s?1(?!\d))(?!\p{L})/u;
+const CRITICAL_SUCCESS_RE =
+  /(?<!\p{L})(?:(?:réussite|succès|coup) critiques?(?!\p{L})|20 naturel|nat(?:urel)?\s?20(?!\d))/u;
+// Contexte d'un jet pour les mots de critique : nombre, notation, "nat" ou verbe de jet
+const DICE_CONTEXT_RE =
+  /\d|(?<!\p{L})(?:nat(?:urel)?|jets?|lancers?|lanc(?:e|es|ez|é|ée|és|er)|relanc\p{L}*|roll\p{L}*|dés?)(?!\p{L})/u;
+
+function toSigned(sign: string, value: string): number {
+  const n = Number.parseInt(value, 10);
+  return sign === "-" || sign === "moins" ? -n : n;
+}
+
+function parseFaces(list: string): number[] {
+  return list.split(/[,;+]/).map((f) => Number.parseInt(f.trim(), 10));
+}
+
+/** Pool outcome from faces: successes minus ones, botch when only ones. */
+function scorePool(faces: number[], difficulty: number) {
+  const hits = faces.filter((f) => f >= difficulty).length;
+  const ones = faces.filter((f) => f === 1).length;
+  const successes = Math.max(0, hits - ones);
+  const outcome: ParsedDiceRoll["outcome"] =
+    hits === 0 && ones > 0 ? "critical_failure" : successes > 0 ? "success" : "failure";
+  return { successes, outcome };
+}
+
+/**
+ * Structured roll read from one transcript line, or null when the line does
+ * not look like a roll. Only what the line states is kept: no total is
+ * invented from a notation alone.
+ */
+export function parseDiceRoll(text: string, profile: DiceProfile): ParsedDiceRoll | null {
+  const spoken = normalizeSpoken(text.trim());
+  if (!spoken) return null;
+
+  const roll: ParsedDiceRoll = { system: profile.system };
+  let isRoll = false;
+  let rest = spoken;
+
+  const roll20 = spoken.match(ROLL20_SUM_RE);
+  const faceList = !roll20 && spoken.match(FACE_LIST_RE);
+  if (roll20) {
+    roll.dice = parseFaces(roll20[1]);
+    const modifier = [...roll20[2].matchAll(/([+-])\s*(\d+)/g)].reduce(
+      (sum, m) => sum + toSigned(m[1], m[2]),
+      0
+    );
+    if (modifier) roll.modifier = modifier;
+    roll.total = Number.parseInt(roll20[3], 10);
+    isRoll = true;
+  } else if (faceList && (profile.system === "pool" || faceList[1].match(/[,;]/))) {
+    roll.dice = parseFaces(faceList[1]);
+    isRoll = true;
+  } else if (faceList) {
+    // Un nombre seul sur la ligne : total annoncé
+    roll.total = Number.parseInt(faceList[1], 10);
+    isRoll = true;
+  }
+
+  const notation = rest.match(NOTATION_RE);
+  if (notation) {
+    const count = notation[1] ? Number.parseInt(notation[1], 10) : 1;
+    const modifier = notation[3] ? toSigned(notation[3], notation[4]) : 0;
+    roll.notation = `${count}d${notation[2]}${modifier > 0 ? `+${modifier}` : modifier < 0 ? modifier : ""}`;
+    if (modifier) roll.modifier = modifier;
+    rest = rest.replace(notation[0], " ");
+    isRoll = true;
+  } else if (profile.system === "pool") {
+    const poolCount = rest.match(POOL_COUNT_RE);
+    if (poolCount) {
+      roll.notation = `${poolCount[1]}d${profile.die}`;
+      rest = rest.replace(poolCount[0], " ");
+      isRoll = true;
+    }
+  }
+
+  const trailingFaces = !roll.dice && isRoll && rest.match(TRAILING_FACES_RE);
+  if (trailingFaces) {
+    roll.dice = parseFaces(trailingFaces[1]);
+    rest = rest.replace(trailingFaces[0], " ");
+  }
+
+  const natural = !roll.dice && rest.match(NATURAL_RE);
+  if (natural) {
+    roll.dice = [Number.parseInt(natural[1] ?? natural[2], 10)];
+    isRoll = true;
+  }
+
+  if (roll.total === undefined) {
+    const total = rest.match(TOTAL_RE) ?? rest.match(TOTAL_AFTER_RE);
+    const sum = rest.match(SUM_RE);
+    if (sum && (isRoll || total)) {
+      // "j'ai fait 12 plus 5" : face naturelle et modificateur
+      roll.dice = [Number.parseInt(sum[1], 10)];
+      roll.modifier = toSigned(sum[2], sum[3]);
+      roll.total = roll.dice[0] + roll.modifier;
+      isRoll = true;
+    } else if (total) {
+      roll.total = Number.parseInt(total[1], 10);
+      isRoll = true;
+    }
+  }
+
+  if (NO_SUCCESS_RE.test(rest)) {
+    roll.successes = 0;
+    isRoll = true;
+  } else {
+    const successes = rest.match(SUCCESSES_RE);
+    if (successes) {
+      roll.successes = Number.parseInt(successes[1], 10);
+      isRoll = true;
+    }
+  }
+
+  const diceContext = isRoll || DICE_CONTEXT_RE.test(spoken);
+  const criticalFailure = diceContext && CRITICAL_FAILURE_RE.test(spoken);
+  const criticalSuccess = diceContext && !criticalFailure && CRITICAL_SUCCESS_RE.test(spoken);
+  if (criticalFailure || criticalSuccess) isRoll = true;
+  if (!isRoll) return null;
+
+  // La cible n'est gardée qu'avec un jet : "DD 15" seul est une annonce du MJ
+  const target = rest.match(TARGET_RE);
+  if (target) roll.target = Number.parseInt(target[1], 10);
+
+  if (profile.system === "pool") {
+    roll.target ??= profile.difficulty;
+    if (roll.dice && roll.successes === undefined) {
+      Object.assign(roll, scorePool(roll.dice, roll.target));
+    }
+  }
+  roll.outcome = inferOutcome(roll, { criticalFailure, criticalSuccess });
+  if (!roll.outcome) delete roll.outcome;
+  return roll;
+}
+
+function inferOutcome(
+  roll: ParsedDiceRoll,
+  stated: { criticalFailure: boolean; criticalSuccess: boolean }
+): ParsedDiceRoll["outcome"] {
+  if (stated.criticalFailure) return "critical_failure";
+  if (stated.criticalSuccess) return "critical_success";
+  if (roll.outcome) return roll.outcome;
+
+  if (roll.system === "d20" || roll.notation?.match(/^1d20\b/)) {
+    const natural = roll.dice?.length === 1 ? roll.dice[0] : undefined;
+    if (natural === 20) return "critical_success";
+    if (natural === 1) return "critical_failure";
+  }
+  if (roll.successes !== undefined) return roll.successes > 0 ? "success" : "failure";
+  if (roll.total !== undefined && roll.target !== undefined) {
+    return roll.total >= roll.target ? "success" : "failure";
+  }
+  return undefined;
+}
+
+const OUTCOME_LABELS: Record<NonNullable<ParsedDiceRoll["outcome"]>, string> = {
+  critical_success: "réussite critique",
+  success: "réussite",
+  failure: "échec",
+  critical_failure: "échec critique",
+};
+
+/** "17 (1d20+5, 12 naturel) vs DD 15 — réussite", for report dice lists. */
+export function formatDiceRoll(roll: ParsedDiceRoll): string {
+  const parts: string[] = [];
+  if (roll.system === "pool") {
+    if (roll.successes !== undefined) {
+      parts.push(`${roll.successes} succès`);
+    }
+    const detail = [roll.notation, roll.dice && `[${roll.dice.join(", ")}]`]
+      .filter(Boolean)
+      .join(" ");
+    if (detail) parts.push(parts.length ? `(${detail})` : detail);
+    if (roll.target !== undefined) parts.push(`difficulté ${roll.target}`);
+  } else {
+    const faces =
+      roll.dice?.length === 1
+        ? roll.dice[0] === roll.total
+          ? undefined
+          : `${roll.dice[0]} naturel`
+        : roll.dice && `[${roll.dice.join(", ")}]`;
+    const detail = [roll.notation, faces].filter(Boolean).join(", ");
+    if (roll.total !== undefined) {
+      parts.push(detail ? `${roll.total} (${detail})` : String(roll.total));
+    } else if (detail) {
+      parts.push(detail);
+    }
+    if (roll.successes !== undefined) parts.push(`${roll.successes} succès`);
+    if (roll.target !== undefined) {
+      parts.push(`vs ${roll.system === "d20" ? "DD/CA" : "difficulté"} ${roll.target}`);
+    }
+  }
+  const label = parts.join(" ") || "jet";
+  return roll.outcome ? `${label} — ${OUTCOME_LABELS[roll.outcome]}` : label;
+}
+
+// ── Jets du résumé de scène ──────────────────────────────────────────────────
+
+type SceneDiceRoll = z.infer<typeof SceneSummarySchema>["diceRolls"][number];
+
+const LINE_REF_RE = /\bL(\d+)\b/;
+
+/** Line cited by the entry context ("[L42] ..."), if any. */
+export function diceRollLineRef(entry: SceneDiceRoll): number | undefined {
+  const match = entry.context.match(LINE_REF_RE);
+  return match ? Number.parseInt(match[1], 10) : undefined;
+}
+
+/** "Alice (Kira)" → "Kira" ; "MJ" reste "MJ". */
+function characterOf(speaker: string | null, speakerMap: Record<string, string>): string {
+  if (!speaker) return "Inconnu";
+  const mapped = speakerMap[speaker] ?? speaker;
+  return mapped.match(/\(([^)]+)\)\s*$/)?.[1] ?? mapped;
+}
+
+function truncate(value: string, maxLength = 80): string {
+  return value.length <= maxLength ? value : `${value.slice(0, maxLength - 1)}…`;
+}
+
+/**
+ * One dice roll entry backed by the roll parsed from the line it cites, if
+ * any. Used for the entries a correction adds or replaces, so the other
+ * entries of the summary are left as they are.
+ */
+export function attachParsedDiceRoll(
+  entry: SceneDiceRoll,
+  sceneLines: PreprocessedLine[]
+): SceneDiceRoll {
+  const { roll: _ignored, ...rest } = entry;
+  const line = diceRollLineRef(rest);
+  const source =
+    line !== undefined ? sceneLines.find((l) => l.lineNumber === line)?.diceRoll : undefined;
+  return source ? { ...rest, result: formatDiceRoll(source), roll: source } : rest;
+}
+
+/**
+ * Dice rolls of a scene summary, backed by the rolls parsed from its lines:
+ * an entry citing a parsed line gets the structured result, parsed rolls the
+ * summarizer missed are added, and entries for rolls only mentioned in
+ * passing ("tu réussis ton jet") are kept as written. Chronological order.
+ */
+export function mergeParsedDiceRolls(
+  summaryRolls: SceneDiceRoll[],
+  sceneLines: PreprocessedLine[],
+  speakerMap: Record<string, string>
+): SceneDiceRoll[] {
+  const parsed = new Map(
+    sceneLines
+      .filter((l): l is PreprocessedLine & { diceRoll: ParsedDiceRoll } => !!l.diceRoll)
+      .map((l) => [l.lineNumber, l])
+  );
+  const cited = new Set<number>();
+
+  const entries = summaryRolls.map(({ roll: _ignored, ...entry }) => {
+    const line = diceRollLineRef(entry);
+    const source = line !== undefined ? parsed.get(line) : undefined;
+    if (!source) return { entry: entry as SceneDiceRoll, line };
+    cited.add(source.lineNumber);
+    return {
+      entry: { ...entry, result: formatDiceRoll(source.diceRoll), roll: source.diceRoll },
+      line,
+    };
+  });
+
+  for (const [lineNumber, source] of parsed) {
+    if (cited.has(lineNumber)) continue;
+    entries.push({
+      entry: {
+        character: characterOf(source.speaker, speakerMap),
+        skill: source.diceRoll.notation ?? "Jet",
+        result: formatDiceRoll(source.diceRoll),
+        context: `[L${lineNumber}] ${truncate(source.text)}`,
+        roll: source.diceRoll,
+      },
+      line: lineNumber,
+    });
+  }
+
+  // Une entrée sans repère garde sa place derrière l'entrée qui la précède
+  let previousLine = 0;
+  return entries
+    .map(({ entry, line }) => {
+      previousLine = line ?? previousLine;
+      return { entry, key: previousLine };
+    })
+    .sort((a, b) => a.key - b.key)
+    .map(({ entry }) => entry);
+}
@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import {
+  correctProperNouns,
+  createGlossaryMatcher,
+  parseGlossary,
+  type GlossaryMatcher,
+} from "./glossary.js";
+import { preprocessTranscript } from "./preprocessing.js";
+
+function universeGlossary(
+  name: string,
+  options: { fuzzy?: boolean } = {},
+  protectedNames: string[] = []
+): GlossaryMatcher {
+  const markdown = readFileSync(new URL(`../config/universes/${name}.md`, import.meta.url), "utf8");
+  const matcher = createGlossaryMatcher(parseGlossary(markdown), protectedNames, options);
+  assert.ok(matcher);
+  return matcher;
+}
+
+function corrected(text: string, matcher: GlossaryMatcher): string {
+  return correctProperNouns(text, matcher).text;
+}
+
+test("declared variants and accent-only differences are corrected without fuzzy matching", () => {
+  const thylea = universeGlossary("thylea");
+  assert.equal(corrected("On part pour Tiléa, puis Cydon.", thylea), "On part pour Thyléa, puis Sydon.");
+  assert.equal(corrected("Le temple de Thylea", thylea), "Le temple de Thyléa");
+  assert.equal(corrected("Le Néfandi approche", universeGlossary("mage")), "Le Nephandi approche");
+});
+
+test("undeclared spellings are left alone unless fuzzy matching is enabled", () => {
+  assert.equal(corrected("Kirah nous attend", universeGlossary("thylea")), "Kirah nous attend");
+  assert.equal(
+    corrected("Kirah nous attend à Sinodie", universeGlossary("thylea", { fuzzy: true })),
+    "Kyrah nous attend à Synodie"
+  );
+});
+
+test("inflections of a term are never rewritten, even with fuzzy matching", () => {
+  const mage = universeGlossary("mage", { fuzzy: true });
+  const text =
+    "Les Technocrates de l'ordre Technocratique, un Maraudeur et deux Quintessences.";
+  assert.equal(corrected(text, mage), text);
+
+  const thylea = universeGlossary("thylea", { fuzzy: true });
+  assert.equal(corrected("Estoril, Vallis et le Volcan", thylea), "Estoril, Vallis et le Volcan");
+});
+
+test("a candidate whose first letter differs is not a typo of the term", () => {
+  const thylea = universeGlossary("thylea", { fuzzy: true });
+  assert.equal(corrected("Bythor répond", thylea), "Bythor répond");
+});
+
+test("players and their characters are never corrected", () => {
+  const thylea = universeGlossary("thylea", { fuzzy: true }, ["Emilie", "Kirah"]);
+  assert.equal(corrected("Kirah lance un sort", thylea), "Kirah lance un sort");
+});
+
+test("a word the transcript also uses in lowercase is an ordinary word", () => {
+  const glossary = universeGlossary("thylea", { fuzzy: true });
+  const transcript = "MJ: Vous voyez un volcan au loin.\nMJ: Sidon gronde.\nEmilie: Sidon, c'est le volcan ?";
+  const { glossaryCorrections } = preprocessTranscript(transcript, { glossary });
+  assert.deepEqual(
+    glossaryCorrections.map((c) => [c.from, c.to]),
+    [["Sidon", "Sydon"]]
+  );
+
+  const withOrdinary = preprocessTranscript("MJ: le sidon est un poisson. Sidon arrive.", {
+    glossary,
+  });
+  assert.deepEqual(withOrdinary.glossaryCorrections, []);
+});
+
+test("corrections are still reported, flagged as not applied, when the glossary is off", () => {
+  const glossary = universeGlossary("thylea");
+  const transcript = "MJ: Bienvenue à Tiléa.";
+
+  const applied = preprocessTranscript(transcript, { glossary });
+  assert.match(applied.preprocessed, /Bienvenue à Thyléa/);
+  assert.deepEqual(applied.glossaryCorrections, [
+    { from: "Tiléa", to: "Thyléa", count: 1, lines: [1], applied: true },
+  ]);
+
+  const proposed = preprocessTranscript(transcript, { glossary, applyGlossary: false });
+  assert.match(proposed.preprocessed, /Bienvenue à Tiléa/);
+  assert.deepEqual(proposed.glossaryCorrections, [
+    { from: "Tiléa", to: "Thyléa", count: 1, lines: [1], applied: false },
+  ]);
+});
@@ -0,0 +1,294 @@
+/**
+ * Glossaire des noms propres — code pur, pas de LLM.
+ *
+ * La reconnaissance vocale écorche les noms propres de l'univers ("Tiléa",
+ * "Sidon", "Lutéria") : l'analyst crée alors des PNJs en double que
+ * findPotentiallyMergedNames ne rattrape pas. Le fichier univers déclare une
+ * section "## Glossaire" :
+ *
+ *   - **Thyléa** | Tiléa, Thilea
+ *   - **Sydon**
+ *
+ * Le nom canonique, puis en option les graphies erronées connues. Les
+ * graphies déclarées sont remplacées avant l'analyse. Le rapprochement
+ * approximatif (une faute de frappe non déclarée) est en option : il ne
+ * touche jamais un mot qui ne diffère que par sa terminaison (pluriel, genre,
+ * suffixe : "Technocrates", "Maraudeur"), ni un mot dont l'initiale diffère,
+ * ni un mot que le transcript emploie aussi en minuscule ("volcan").
+ */
+
+import { normalizeForCompare } from "./identity-guardrails.js";
+
+export interface GlossaryEntry {
+  term: string;
+  /** Graphies erronées connues, corrigées quelle que soit la distance. */
+  variants: string[];
+}
+
+export interface GlossaryCorrection {
+  from: string;
+  to: string;
+  count: number;
+  lines: number[];
+  /** false : seulement proposée, le transcript garde la graphie d'origine. */
+  applied: boolean;
+}
+
+const GLOSSARY_HEADING_RE = /^(#{1,6})\s+(?:\d+\.\s*)?Glossaire\b/i;
+const HEADING_RE = /^(#{1,6})\s/;
+const BULLET_RE = /^\s*[-*+]\s+(.+)$/;
+// Mot, éventuellement composé avec des tirets ("Sainte-Croix")
+const WORD_RE = /[\p{L}\p{M}]+(?:-[\p{L}\p{M}]+)*/gu;
+
+/**
+ * Entries of the "Glossaire" section of a universe Markdown file (bundled,
+ * custom or edited in the UI). Empty when the section is missing.
+ */
+export function parseGlossary(markdown: string): GlossaryEntry[] {
+  const entries: GlossaryEntry[] = [];
+  let sectionLevel: number | null = null;
+
+  for (const line of markdown.split("\n")) {
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      const glossaryHeading = line.match(GLOSSARY_HEADING_RE);
+      if (glossaryHeading) {
+        sectionLevel = glossaryHeading[1].length;
+      } else if (sectionLevel !== null && heading[1].length <= sectionLevel) {
+        sectionLevel = null;
+      }
+      continue;
+    }
+    if (sectionLevel === null) continue;
+
+    const bullet = line.match(BULLET_RE);
+    if (!bullet) continue;
+    const [rawTerm, rawVariants = ""] = bullet[1].replace(/\*\*/g, "").split("|");
+    const term = rawTerm.trim();
+    if (!normalizeForCompare(term)) continue;
+    entries.push({
+      term,
+      variants: rawVariants
+        .split(",")
+        .map((v) => v.trim())
+        .filter((v) => normalizeForCompare(v)),
+    });
+  }
+  return entries;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Fautes tolérées en rapprochement approximatif : aucune sous 5 lettres
+ * (accents et casse seulement).
+ */
+function maxDistance(normalizedTerm: string): number {
+  const length = normalizedTerm.replace(/ /g, "").length;
+  if (length < 5) return 0;
+  if (length < 8) return 1;
+  return 2;
+}
+
+// Lettres finales où un écart est une flexion ("-es", "-ique"), pas une faute
+const INFLECTION_LENGTH = 3;
+
+function commonPrefixLength(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+}
+
+/**
+ * The candidate only differs from the term by its ending: a plural, a gender
+ * or another suffix of the same word, never a misspelling of the term.
+ */
+function differsOnlyByEnding(key: string, termKey: string): boolean {
+  return (
+    commonPrefixLength(key, termKey) >=
+    Math.min(key.length, termKey.length) - INFLECTION_LENGTH
+  );
+}
+
+type MatcherTerm = {
+  term: string;
+  key: string;
+  wordCount: number;
+  maxDistance: number;
+};
+
+export type GlossaryMatcher = {
+  terms: MatcherTerm[];
+  variants: Map<string, string>;
+  /** Jamais corrigés : noms des joueurs et de leurs personnages. */
+  protectedKeys: Set<string>;
+  wordCounts: number[];
+  /** Rapproche aussi les graphies non déclarées (faute de frappe). */
+  fuzzy: boolean;
+  /** Mots employés en minuscule dans le transcript : des mots courants. */
+  ordinaryKeys: Set<string>;
+};
+
+export function createGlossaryMatcher(
+  entries: GlossaryEntry[],
+  protectedNames: string[] = [],
+  options: { fuzzy?: boolean } = {}
+): GlossaryMatcher | null {
+  if (entries.length === 0) return null;
+
+  const terms = entries.map(({ term }) => {
+    const key = normalizeForCompare(term);
+    return { term, key, wordCount: key.split(" ").length, maxDistance: maxDistance(key) };
+  });
+  const variants = new Map<string, string>();
+  for (const entry of entries) {
+    for (const variant of entry.variants) {
+      variants.set(normalizeForCompare(variant), entry.term);
+    }
+  }
+  const protectedKeys = new Set(
+    protectedNames.map(normalizeForCompare).filter(Boolean)
+  );
+
+  const wordCounts = new Set(terms.map((t) => t.wordCount));
+  for (const key of variants.keys()) wordCounts.add(key.split(" ").length);
+
+  return {
+    terms,
+    variants,
+    protectedKeys,
+    // Les termes les plus longs d'abord : "Cité de Mytros" avant "Mytros"
+    wordCounts: [...wordCounts].sort((a, b) => b - a),
+    fuzzy: options.fuzzy ?? false,
+    ordinaryKeys: new Set(),
+  };
+}
+
+/**
+ * The matcher with the words the transcript also writes in lowercase: a word
+ * said as "volcan" somewhere is an ordinary word, not a misheard "Volkan".
+ */
+export function withTranscriptVocabulary(
+  matcher: GlossaryMatcher,
+  texts: string[]
+): GlossaryMatcher {
+  const ordinaryKeys = new Set<string>();
+  for (const text of texts) {
+    for (const [word] of text.matchAll(WORD_RE)) {
+      if (/^\p{Ll}/u.test(word)) ordinaryKeys.add(normalizeForCompare(word));
+    }
+  }
+  return { ...matcher, ordinaryKeys };
+}
+
+/** Canonical term for a candidate, or null when it is not close enough. */
+function matchCandidate(candidate: string, matcher: GlossaryMatcher): string | null {
+  const key = normalizeForCompare(candidate);
+  if (!key || matcher.protectedKeys.has(key)) return null;
+
+  const variant = matcher.variants.get(key);
+  if (variant) return variant;
+
+  // Le rapprochement approximatif ne vise que les mots à majuscule
+  if (!/^\p{Lu}/u.test(candidate)) return null;
+  const exact = matcher.terms.find((term) => term.key === key);
+  if (exact) return exact.term;
+  if (!matcher.fuzzy || matcher.ordinaryKeys.has(key)) return null;
+
+  let best: { term: string; distance: number } | null = null;
+  let tie = false;
+  for (const term of matcher.terms) {
+    if (Math.abs(term.key.length - key.length) > term.maxDistance) continue;
+    if (term.key[0] !== key[0] || differsOnlyByEnding(key, term.key)) continue;
+    const distance = levenshtein(term.key, key);
+    if (distance > term.maxDistance) continue;
+    if (!best || distance < best.distance) {
+      best = { term: term.term, distance };
+      tie = false;
+    } else if (distance === best.distance && term.term !== best.term) {
+      tie = true;
+    }
+  }
+  // Deux termes à égale distance : on ne choisit pas
+  return best && !tie ? best.term : null;
+}
+
+/**
+ * Replaces glossary misspellings in one transcript line. Multi-word terms
+ * ("Cité de Mytros") are compared on runs of the same number of words.
+ */
+export function correctProperNouns(
+  text: string,
+  matcher: GlossaryMatcher
+): { text: string; replacements: Array<{ from: string; to: string }> } {
+  const words = [...text.matchAll(WORD_RE)].map((m) => ({
+    start: m.index,
+    end: m.index + m[0].length,
+  }));
+  const replacements: Array<{ from: string; to: string; start: number; end: number }> = [];
+
+  let i = 0;
+  while (i < words.length) {
+    let consumed = 1;
+    for (const count of matcher.wordCounts) {
+      if (i + count > words.length) continue;
+      const span = words.slice(i, i + count);
+      // Les mots d'un terme composé ne sont séparés que par des espaces
+      const contiguous = span.every(
+        (w, k) => k === 0 || /^\s+$/.test(text.slice(span[k - 1].end, w.start))
+      );
+      if (!contiguous) continue;
+
+      const start = span[0].start;
+      const end = span[count - 1].end;
+      const candidate = text.slice(start, end);
+      const term = matchCandidate(candidate, matcher);
+      if (term === null) continue;
+      if (term !== candidate) replacements.push({ from: candidate, to: term, start, end });
+      consumed = count;
+      break;
+    }
+    i += consumed;
+  }
+
+  let corrected = text;
+  for (const r of [...replacements].reverse()) {
+    corrected = corrected.slice(0, r.start) + r.to + corrected.slice(r.end);
+  }
+  return {
+    text: corrected,
+    replacements: replacements.map(({ from, to }) => ({ from, to })),
+  };
+}
+
+/** Groups line-level replacements per (from, to) pair, most frequent first. */
+export function summarizeGlossaryCorrections(
+  replacements: Array<{ lineNumber: number; from: string; to: string }>,
+  applied: boolean
+): GlossaryCorrection[] {
+  const byPair = new Map<string, GlossaryCorrection>();
+  for (const { lineNumber, from, to } of replacements) {
+    const key = `${from}→${to}`;
+    const correction = byPair.get(key) ?? { from, to, count: 0, lines: [], applied };
+    correction.count++;
+    if (!correction.lines.includes(lineNumber)) correction.lines.push(lineNumber);
+    byPair.set(key, correction);
+  }
+  return [...byPair.values()].sort(
+    (a, b) => b.count - a.count || a.from.localeCompare(b.from)
+  );
+}
@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findGenderAgreementIssues, type CharacterGender } from "./identity-guardrails.js";
+
+const genders: CharacterGender[] = [
+  { name: "Yumi", aliases: ["Yumi"], pronouns: "elle" },
+  { name: "Tom", aliases: ["Tom"], pronouns: "il" },
+  { name: "Sacha", aliases: ["Sacha"], pronouns: "iel" },
+];
+
+const flaggedWords = (text: string) =>
+  findGenderAgreementIssues(text, genders).map((f) => [f.name, f.word]);
+
+test("a participle or adjective of the wrong gender after a state verb is flagged", () => {
+  assert.deepEqual(flaggedWords("Yumi est parti avant l'aube."), [["Yumi", "parti"]]);
+  assert.deepEqual(flaggedWords("Tom est blessée au bras."), [["Tom", "blessée"]]);
+  assert.deepEqual(flaggedWords("Au matin, Yumi semble toujours surpris."), [["Yumi", "surpris"]]);
+  assert.deepEqual(findGenderAgreementIssues("Yumi est déjà parti.", genders), [
+    { name: "Yumi", pronouns: "elle", excerpt: "Yumi est déjà parti", word: "parti" },
+  ]);
+});
+
+test("a reflexive participle is flagged only when it ends the clause", () => {
+  assert.deepEqual(flaggedWords("Yumi s'est levé."), [["Yumi", "levé"]]);
+  assert.deepEqual(flaggedWords("Yumi s’était assis et attend."), [["Yumi", "assis"]]);
+  for (const text of [
+    "Yumi s'est dit que le garde mentait.",
+    "Yumi s'est rendu compte du piège.",
+    "Yumi s'est permis de fouiller le coffre.",
+    "Yumi s'est promis de revenir.",
+    "Yumi s'est acheté une dague.",
+  ]) {
+    assert.deepEqual(flaggedWords(text), [], text);
+  }
+});
+
+test("agreeing forms, adverbs of place and other characters are not flagged", () => {
+  for (const text of [
+    "Yumi est partie. Tom est blessé.",
+    "Yumi est ici depuis hier.",
+    "Yumi est aussi de la partie.",
+    "Tom est devenu chef.",
+    "Le garde est parti.",
+    "Tom semble beau dans son armure.",
+  ]) {
+    assert.deepEqual(flaggedWords(text), [], text);
+  }
+});
+
+test("characters using iel are never flagged", () => {
+  assert.deepEqual(flaggedWords("Sacha est parti. Sacha est partie. Sacha s'est levé."), []);
+});
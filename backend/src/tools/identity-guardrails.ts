@@ -1,10 +1,26 @@
-import { WorkflowStateType } from "../graph/state.js";
+import type { z } from "zod";
+import { WorkflowStateType, PronounsSchema } from "../graph/state.js";
 
 export type CharacterIdentity = {
   canonical: string;
   aliases: string[];
 };
 
+export type Pronouns = z.infer<typeof PronounsSchema>;
+
+export type CharacterGender = {
+  name: string;
+  aliases: string[];
+  pronouns: Pronouns;
+};
+
+type GenderAgreementMatch = {
+  name: string;
+  pronouns: Pronouns;
+  excerpt: string;
+  word: string;
+};
+
 type Match = {
   mergedName: string;
   leftCanonical: string;
@@ -18,7 +34,7 @@ function compactWhitespace(value: string): string {
   return value.trim().replace(SPACE_RE, " ");
 }
 
-function normalizeForCompare(value: string): string {
+export function normalizeForCompare(value: string): string {
   return compactWhitespace(value)
     .normalize("NFD")
     .replace(/[\u0300-\u036f]/g, "")
@@ -122,6 +138,30 @@ export function buildCharacterIdentities(
     );
 }
 
+/**
+ * Pronouns of the PCs and NPCs: the roster wins over what the analyst
+ * inferred from the transcript. Characters without pronouns are left out.
+ */
+export function buildCharacterGenders(state: WorkflowStateType): CharacterGender[] {
+  const candidates: Array<{ name: string; pronouns?: Pronouns }> = [
+    ...(state.playerInfo ?? [])
+      .filter((p) => !p.isGameMaster)
+      .map((p) => ({ name: p.characterName, pronouns: p.pronouns })),
+    ...(state.entities?.pcs ?? []),
+    ...(state.entities?.npcs ?? []),
+  ];
+
+  const byKey = new Map<string, CharacterGender>();
+  for (const { name, pronouns } of candidates) {
+    const key = normalizeForCompare(name ?? "");
+    if (!key || !pronouns || byKey.has(key)) continue;
+    const aliases = extractAliases(name).filter(isUsefulAlias);
+    if (aliases.length === 0) continue;
+    byKey.set(key, { name: compactWhitespace(name), aliases, pronouns });
+  }
+  return [...byKey.values()];
+}
+
 function escapeRegExp(value: string): string {
   return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
@@ -159,13 +199,32 @@ function buildTokenCollisions(identities: CharacterIdentity[]): string[] {
     );
 }
 
+const PRONOUN_AGREEMENT: Record<Pronouns, string> = {
+  il: "accords au masculin",
+  elle: "accords au feminin",
+  iel: "accords neutres ou epicenes, ni il ni elle",
+};
+
+function buildGenderLines(genders: CharacterGender[]): string {
+  if (genders.length === 0) return "";
+  return (
+    "\n- Genre grammatical a respecter (accords, pronoms) :\n" +
+    genders
+      .map((g) => `  - ${g.name} : ${g.pronouns} (${PRONOUN_AGREEMENT[g.pronouns]})`)
+      .join("\n")
+  );
+}
+
 export function buildIdentityGuardrailsText(
-  identities: CharacterIdentity[]
+  identities: CharacterIdentity[],
+  genders: CharacterGender[] = []
 ): string {
+  const genderLines = buildGenderLines(genders);
   if (identities.length === 0) {
     return (
       "### Garde-fous d'attribution\n" +
-      "- Aucun roster fiable detecte. Reste tres prudent sur l'attribution des actions."
+      "- Aucun roster fiable detecte. Reste tres prudent sur l'attribution des actions." +
+      genderLines
     );
   }
 
@@ -188,7 +247,8 @@ export function buildIdentityGuardrailsText(
     `${rosterLines.join("\n")}` +
     `${collisionSection}\n` +
     "- Interdiction absolue : ne jamais creer de nom hybride (ex: combinaison de 2 personnages).\n" +
-    "- Si l'agent d'une action est ambigu, explicite l'incertitude au lieu d'inventer."
+    "- Si l'agent d'une action est ambigu, explicite l'incertitude au lieu d'inventer." +
+    genderLines
   );
 }
 
@@ -242,3 +302,118 @@ export function findPotentiallyMergedNames(
 
   return findings;
 }
+
+/**
+ * Speakers that are already named in the transcript ("Laurent: ...") and
+ * match the roster, identified the way the analyst writes speakerMap:
+ * "Emilie (Yumi)", "Laurent (MJ)". An explicit speakerHint wins over a name
+ * match; diarization ids (SPEAKER_00) only match through speakerHint.
+ */
+export function matchNamedSpeakers(
+  speakers: string[],
+  playerInfo: WorkflowStateType["playerInfo"]
+): Record<string, string> {
+  const identify = (player: WorkflowStateType["playerInfo"][number]) =>
+    player.isGameMaster
+      ? player.playerName.trim()
+        ? `${player.playerName.trim()} (MJ)`
+        : "MJ"
+      : `${player.playerName.trim()} (${player.characterName.trim()})`;
+
+  const matches: Record<string, string> = {};
+  for (const speaker of speakers) {
+    // Y compris les ids préfixés des fichiers suivants (P2_SPEAKER_00)
+    if (/^(?:P\d+_)?SPEAKER_\d+$/.test(speaker)) continue;
+
+    const hinted = playerInfo.find((p) => p.speakerHint?.trim() === speaker);
+    if (hinted) {
+      matches[speaker] = identify(hinted);
+      continue;
+    }
+
+    const normalized = normalizeForCompare(speaker);
+    const firstWord = normalized.split(" ")[0];
+    const named = playerInfo.find((p) =>
+      [p.playerName, p.characterName]
+        .map((name) => normalizeForCompare(name ?? ""))
+        .some((name) => name && (name === normalized || name === firstWord))
+    );
+    if (named) matches[speaker] = identify(named);
+  }
+  return matches;
+}
+
+// ── Accord en genre ──────────────────────────────────────────────────────────
+
+// Verbe d'état suivi de l'attribut du sujet : "Yumi est partie"
+const STATE_VERB_RE =
+  "(?:est|était|fut|sera|serait|a été|avait été|reste|restait|semble|semblait|devient|devenait|se retrouve|se retrouvait)";
+// Le participe d'un verbe pronominal ne s'accorde pas toujours avec le sujet :
+// "Yumi s'est dit que", "s'est rendu compte", "s'est permis de"
+const REFLEXIVE_VERB_RE = "(?:s['’]est|s['’]était)";
+// Fin de proposition après le participe : "Yumi s'est levée." ou "… levée et sort"
+const CLAUSE_END_RE = /^\s*(?:$|[.,;:!?…)»"]|(?:et|mais|puis)(?!\p{L}))/u;
+const ADVERB_RE =
+  "(?:pas|plus|déjà|toujours|encore|bien|très|trop|vraiment|enfin|aussitôt|alors|presque|complètement|vite|si|tout|à nouveau)";
+// Mots en -é/-i/-u/-is/-it qui ne sont pas des participes ou adjectifs
+const NOT_AGREEABLE = new Set([
+  "ici", "aussi", "ainsi", "parmi", "lui", "celui", "qui", "oui", "si", "ni",
+  "au", "du", "tu", "jamais", "mais", "puis", "depuis", "dessus", "tout",
+]);
+
+function breaksAgreement(word: string, pronouns: Pronouns): boolean {
+  const w = word.toLowerCase();
+  if (NOT_AGREEABLE.has(w) || w.length < 3) return false;
+  if (pronouns === "elle") {
+    // "parti", "blessé", "perdu", "pris", "petit" ; "beau", "fou" ont un autre féminin
+    return /(?:é|i|u|is|it)$/u.test(w) && !/(?:eau|ou)$/u.test(w);
+  }
+  if (pronouns === "il") {
+    // "partie", "blessée", "perdue", "prise" ; les adjectifs en -que, -gue sont épicènes
+    return /(?:ée|ie|ue|ise)$/u.test(w) && !/(?:que|gue)$/u.test(w);
+  }
+  return false;
+}
+
+/**
+ * Past participles and adjectives after a state verb ("est", "semble"...)
+ * whose gender contradicts the declared or inferred pronouns of the
+ * character just before: "Yumi est parti" for "elle", "Tom est blessée"
+ * for "il". With "s'est"/"s'était" only a participle ending the clause
+ * is checked. "iel" is never flagged.
+ */
+export function findGenderAgreementIssues(
+  text: string,
+  genders: CharacterGender[]
+): GenderAgreementMatch[] {
+  if (!text.trim()) return [];
+
+  const findings: GenderAgreementMatch[] = [];
+  const dedupe = new Set<string>();
+  for (const gender of genders) {
+    if (gender.pronouns === "iel") continue;
+    for (const alias of gender.aliases) {
+      const aliasRegex = aliasToRegex(alias);
+      if (!aliasRegex) continue;
+      const pattern = new RegExp(
+        `(?<!\\p{L})${aliasRegex}\\s+(?:${STATE_VERB_RE}|(${REFLEXIVE_VERB_RE}))\\s+(?:${ADVERB_RE}\\s+){0,2}(\\p{L}+)(?![\\p{L}'-])`,
+        "giu"
+      );
+      for (const match of text.matchAll(pattern)) {
+        const [, reflexive, word] = match;
+        if (!breaksAgreement(word, gender.pronouns)) continue;
+        // Pronominal : seulement quand le participe clôt la proposition, sans
+        // complément d'objet, "que" ni "compte" après lui
+        if (reflexive && !CLAUSE_END_RE.test(text.slice(match.index + match[0].length))) {
+          continue;
+        }
+        const excerpt = compactWhitespace(match[0]);
+        const key = normalizeForCompare(excerpt);
+        if (dedupe.has(key)) continue;
+        dedupe.add(key);
+        findings.push({ name: gender.name, pronouns: gender.pronouns, excerpt, word });
+      }
+    }
+  }
+  return findings;
+}
@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseSpeakerAliases, preprocessTranscriptParts } from "./preprocessing.js";
+
+const firstPart = {
+  name: "partie1.txt",
+  rawText: "[SPEAKER_00] On entre dans la crypte.\n[SPEAKER_01] J'allume une torche.",
+};
+const secondPart = {
+  name: "partie2.txt",
+  rawText:
+    "[SPEAKER_00] Reprenons.\n[SPEAKER_01] Je fouille le garde.\n[SPEAKER_02] Le garde se réveille.",
+};
+
+test("line numbers continue from one part to the next and boundaries are recorded", () => {
+  const { lines, parts } = preprocessTranscriptParts([firstPart, secondPart]);
+  assert.deepEqual(
+    lines.map((l) => l.lineNumber),
+    [1, 2, 3, 4, 5]
+  );
+  assert.deepEqual(parts, [
+    { index: 0, name: "partie1.txt", startLine: 1, endLine: 2, speakers: ["SPEAKER_00", "SPEAKER_01"] },
+    {
+      index: 1,
+      name: "partie2.txt",
+      startLine: 3,
+      endLine: 5,
+      speakers: ["SPEAKER_00", "SPEAKER_01", "SPEAKER_02"],
+    },
+  ]);
+});
+
+test("diarization ids of later parts are prefixed unless aliased to a session speaker", () => {
+  const unaliased = preprocessTranscriptParts([firstPart, secondPart]);
+  assert.deepEqual(
+    unaliased.lines.map((l) => l.speaker),
+    ["SPEAKER_00", "SPEAKER_01", "P2_SPEAKER_00", "P2_SPEAKER_01", "P2_SPEAKER_02"]
+  );
+
+  // Les alias sont indexés par l'id du fichier : P2_SPEAKER_01 → SPEAKER_03
+  const aliased = preprocessTranscriptParts([
+    firstPart,
+    { ...secondPart, speakerAliases: { SPEAKER_00: "SPEAKER_00", SPEAKER_01: "SPEAKER_03" } },
+  ]);
+  assert.deepEqual(
+    aliased.lines.map((l) => l.speaker),
+    ["SPEAKER_00", "SPEAKER_01", "SPEAKER_00", "SPEAKER_03", "P2_SPEAKER_02"]
+  );
+  assert.deepEqual(aliased.stats.speakerCounts, {
+    SPEAKER_00: 2,
+    SPEAKER_01: 1,
+    SPEAKER_03: 1,
+    P2_SPEAKER_02: 1,
+  });
+  assert.match(aliased.preprocessed, /^L4 \[SPEAKER_03\] Je fouille le garde\.$/m);
+  // Les boundaries gardent les speakers tels qu'ils apparaissent dans le fichier
+  assert.deepEqual(aliased.parts[1].speakers, ["SPEAKER_00", "SPEAKER_01", "SPEAKER_02"]);
+});
+
+test("timestamps of later parts are shifted by the previous parts' duration", () => {
+  const srt = (text: string) =>
+    `1\n00:00:01,000 --> 00:00:04,000\n${text}\n\n2\n00:00:05,000 --> 00:00:10,000\n${text}\n`;
+  const { lines } = preprocessTranscriptParts([
+    { name: "a.srt", rawText: srt("Bonjour.") },
+    { name: "b.srt", rawText: srt("Rebonjour.") },
+  ]);
+  assert.deepEqual(
+    lines.map((l) => [l.start, l.end]),
+    [
+      [1, 4],
+      [5, 10],
+      [11, 14],
+      [15, 20],
+    ]
+  );
+});
+
+test("speaker aliases are one mapping per part, blank targets dropped", () => {
+  assert.deepEqual(
+    parseSpeakerAliases(JSON.stringify([{}, { SPEAKER_01: " SPEAKER_03 ", SPEAKER_02: "  " }]), 2),
+    [{}, { SPEAKER_01: "SPEAKER_03" }]
+  );
+  assert.deepEqual(parseSpeakerAliases(undefined, 1), []);
+});
+
+test("malformed speaker aliases are rejected", () => {
+  assert.equal(parseSpeakerAliases("{pas du json", 2), null);
+  assert.equal(parseSpeakerAliases(JSON.stringify({ SPEAKER_01: "SPEAKER_03" }), 2), null);
+  assert.equal(parseSpeakerAliases(JSON.stringify([{}, {}, {}]), 2), null);
+  assert.equal(parseSpeakerAliases(JSON.stringify([{ SPEAKER_01: 3 }]), 2), null);
+  assert.equal(parseSpeakerAliases(JSON.stringify([["SPEAKER_01"]]), 2), null);
+});
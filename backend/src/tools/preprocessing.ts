@@ -3,37 +3,177 @@
  * Nettoie le transcript, numérote les lignes, détecte les patterns de base.
  */
 
+import {
+  parseTranscriptSegments,
+  type TranscriptFormat,
+  type TranscriptSegment,
+} from "./transcript-formats.js";
+import {
+  correctProperNouns,
+  createGlossaryMatcher,
+  parseGlossary,
+  summarizeGlossaryCorrections,
+  withTranscriptVocabulary,
+  type GlossaryCorrection,
+  type GlossaryMatcher,
+} from "./glossary.js";
+import { isTableTalk } from "./table-talk.js";
+import {
+  detectDiceProfile,
+  parseDiceRoll,
+  type DiceProfile,
+  type ParsedDiceRoll,
+} from "./dice.js";
+
 export interface PreprocessedLine {
   lineNumber: number;
   speaker: string | null; // "SPEAKER_00" ou null si untagged
   text: string;
   type: "dialogue" | "narration" | "dice_roll" | "untagged" | "empty";
+  /** Secondes depuis le début de l'enregistrement (JSON, SRT, VTT). */
+  start?: number;
+  end?: number;
+  /** Ligne hors-jeu repérée par les heuristiques (organisation, règles). */
+  outOfCharacter?: boolean;
+  /** Jet lu dans la ligne (notation, faces, français parlé). */
+  diceRoll?: ParsedDiceRoll;
 }
 
-const SPEAKER_RE = /^\[([A-Z_]+\d+)\]\s*(.*)/;
 const DICE_RE = /^[\d,\s]+\.?$/; // "4, 5, 6, 7." or "1, 8, 8."
 const DICE_INLINE_RE =
   /\b(\d+)\s*[,;]\s*(\d+)(?:\s*[,;]\s*(\d+))+\b/; // jets de dés inline
 
-export function preprocessTranscript(rawText: string): {
+// Identifiant de diarization, renuméroté à chaque fichier (≠ nom de speaker)
+const DIARIZATION_ID_RE = /^[A-Z_]+\d+$/;
+
+export interface TranscriptPart {
+  name: string;
+  rawText: string;
+  /** Speaker du fichier → speaker de la session (ex: SPEAKER_01 → SPEAKER_03). */
+  speakerAliases?: Record<string, string>;
+}
+
+export interface TranscriptPartBoundary {
+  index: number;
+  name: string;
+  startLine: number;
+  endLine: number;
+  /** Speakers tels qu'ils apparaissent dans le fichier, avant raccord. */
+  speakers: string[];
+}
+
+export type PreprocessedTranscript = {
   preprocessed: string;
   lines: PreprocessedLine[];
+  format: TranscriptFormat;
+  /** Motif de ligne retenu pour un transcript texte. */
+  speakerPattern?: string;
+  parts: TranscriptPartBoundary[];
+  /** Noms propres corrigés (ou seulement proposés) d'après le glossaire. */
+  glossaryCorrections: GlossaryCorrection[];
   stats: {
     totalLines: number;
     speakerCounts: Record<string, number>;
     untaggedCount: number;
     diceRollCount: number;
+    tableTalkCount: number;
   };
-} {
-  const rawLines = rawText.split("\n");
+};
+
+type PreprocessOptions = {
+  speakerPattern?: string;
+  glossary?: GlossaryMatcher | null;
+  /** false : les corrections sont seulement proposées, le texte est gardé. */
+  applyGlossary?: boolean;
+  diceProfile?: DiceProfile;
+};
+
+export function preprocessTranscript(
+  rawText: string,
+  options: PreprocessOptions = {}
+): PreprocessedTranscript {
+  return preprocessTranscriptParts([{ name: "", rawText }], options);
+}
+
+/**
+ * Several recordings of one session, in order: line numbers continue from
+ * one part to the next and timestamps are shifted by the previous parts'
+ * duration. Diarization ids of later parts are prefixed ("P2_SPEAKER_00")
+ * unless `speakerAliases` maps them to a session speaker.
+ */
+export function preprocessTranscriptParts(
+  parts: TranscriptPart[],
+  options: PreprocessOptions = {}
+): PreprocessedTranscript {
+  const segments: TranscriptSegment[] = [];
+  const boundaries: TranscriptPartBoundary[] = [];
+  let format: TranscriptFormat = "text";
+  let speakerPattern: string | undefined;
+  let timeOffset = 0;
+
+  parts.forEach((part, index) => {
+    const parsed = parseTranscriptSegments(part.rawText, options.speakerPattern);
+    if (index === 0) {
+      format = parsed.format;
+      speakerPattern = parsed.speakerPattern;
+    }
+
+    const localSpeakers = new Set<string>();
+    let partEnd = 0;
+    for (const segment of parsed.segments) {
+      const local = segment.speaker;
+      if (local) localSpeakers.add(local);
+      const speaker = !local
+        ? null
+        : (part.speakerAliases?.[local] ??
+          (index > 0 && DIARIZATION_ID_RE.test(local) ? `P${index + 1}_${local}` : local));
+
+      partEnd = Math.max(partEnd, segment.end ?? segment.start ?? 0);
+      segments.push({
+        ...segment,
+        speaker,
+        ...(segment.start !== undefined ? { start: segment.start + timeOffset } : {}),
+        ...(segment.end !== undefined ? { end: segment.end + timeOffset } : {}),
+      });
+    }
+
+    boundaries.push({
+      index,
+      name: part.name,
+      startLine: segments.length - parsed.segments.length + 1,
+      endLine: segments.length,
+      speakers: [...localSpeakers],
+    });
+    timeOffset += partEnd;
+  });
+
   const lines: PreprocessedLine[] = [];
   const speakerCounts: Record<string, number> = {};
   let untaggedCount = 0;
   let diceRollCount = 0;
+  let tableTalkCount = 0;
+  const replacements: Array<{ lineNumber: number; from: string; to: string }> = [];
+  const diceProfile: DiceProfile = options.diceProfile ?? { system: "generic" };
+  const applyGlossary = options.applyGlossary !== false;
+  const glossary = options.glossary?.fuzzy
+    ? withTranscriptVocabulary(options.glossary, segments.map((s) => s.text))
+    : options.glossary;
 
-  for (let i = 0; i < rawLines.length; i++) {
-    const raw = rawLines[i].trim();
-    if (!raw) {
+  for (let i = 0; i < segments.length; i++) {
+    const { speaker, start, end, isDiceRoll } = segments[i];
+    let { text } = segments[i];
+    if (glossary && text) {
+      const corrected = correctProperNouns(text, glossary);
+      for (const r of corrected.replacements) replacements.push({ lineNumber: i + 1, ...r });
+      if (applyGlossary) text = corrected.text;
+    }
+    const timing = start !== undefined ? { start, end } : {};
+    const outOfCharacter = isTableTalk(text);
+    if (outOfCharacter) tableTalkCount++;
+    const tableTalk = outOfCharacter ? { outOfCharacter } : {};
+    const diceRoll = text ? parseDiceRoll(text, diceProfile) : null;
+    const dice = diceRoll ? { diceRoll } : {};
+    if (!text && !speaker) {
       lines.push({
         lineNumber: i + 1,
         speaker: null,
@@ -43,33 +183,40 @@ export function preprocessTranscript(rawText: string): {
       continue;
     }
 
-    const speakerMatch = raw.match(SPEAKER_RE);
-    if (speakerMatch) {
-      const speaker = speakerMatch[1];
-      const text = speakerMatch[2].trim();
+    if (speaker) {
       speakerCounts[speaker] = (speakerCounts[speaker] || 0) + 1;
 
       // Detect dice rolls in text
-      const isDice = DICE_RE.test(text) || (text.length < 30 && DICE_INLINE_RE.test(text));
+      const isDice =
+        !!isDiceRoll ||
+        !!diceRoll ||
+        DICE_RE.test(text) ||
+        (text.length < 30 && DICE_INLINE_RE.test(text));
 
       lines.push({
         lineNumber: i + 1,
         speaker,
         text,
         type: isDice ? "dice_roll" : "dialogue",
+        ...timing,
+        ...tableTalk,
+        ...dice,
       });
       if (isDice) diceRollCount++;
     } else {
       // Untagged line
-      const isDice = DICE_RE.test(raw);
+      const isDice = !!isDiceRoll || !!diceRoll || DICE_RE.test(text);
       if (isDice) diceRollCount++;
       untaggedCount++;
 
       lines.push({
         lineNumber: i + 1,
         speaker: null,
-        text: raw,
+        text,
         type: isDice ? "dice_roll" : "untagged",
+        ...timing,
+        ...tableTalk,
+        ...dice,
       });
     }
   }
@@ -88,15 +235,156 @@ export function preprocessTranscript(rawText: string): {
   return {
     preprocessed,
     lines,
+    format,
+    speakerPattern,
+    parts: boundaries,
+    glossaryCorrections: summarizeGlossaryCorrections(replacements, applyGlossary),
     stats: {
       totalLines,
       speakerCounts,
       untaggedCount,
       diceRollCount,
+      tableTalkCount,
     },
   };
 }
 
+/**
+ * Workflow input: the uploaded parts when there are several, else the raw
+ * text. Proper nouns are checked against the universe glossary; the declared
+ * players and characters are never rewritten. Dice rolls are read with the
+ * dice system the universe file describes.
+ */
+export function preprocessSessionTranscript(input: {
+  rawTranscript: string;
+  transcriptParts?: TranscriptPart[];
+  speakerPattern?: string;
+  universeContext?: string;
+  playerInfo?: Array<{ playerName: string; characterName: string }>;
+  applyGlossary?: boolean;
+  fuzzyGlossary?: boolean;
+}): PreprocessedTranscript {
+  const protectedNames = (input.playerInfo ?? []).flatMap((p) => [
+    p.playerName,
+    p.characterName,
+  ]);
+  const options: PreprocessOptions = {
+    speakerPattern: input.speakerPattern,
+    glossary: createGlossaryMatcher(parseGlossary(input.universeContext ?? ""), protectedNames, {
+      fuzzy: input.fuzzyGlossary,
+    }),
+    applyGlossary: input.applyGlossary,
+    diceProfile: detectDiceProfile(input.universeContext ?? ""),
+  };
+  return input.transcriptParts && input.transcriptParts.length > 1
+    ? preprocessTranscriptParts(input.transcriptParts, options)
+    : preprocessTranscript(input.rawTranscript, options);
+}
+
+/**
+ * `speakerAliases` form field: one object per uploaded part, mapping a
+ * speaker id of that file to a session speaker. Null when malformed or when
+ * it lists more parts than were uploaded.
+ */
+export function parseSpeakerAliases(
+  value: unknown,
+  partsCount: number
+): Array<Record<string, string>> | null {
+  let parsed = value ?? [];
+  if (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(parsed) || parsed.length > partsCount) return null;
+
+  const aliases: Array<Record<string, string>> = [];
+  for (const entry of parsed) {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) return null;
+    const mapping: Record<string, string> = {};
+    for (const [from, to] of Object.entries(entry as Record<string, unknown>)) {
+      if (typeof to !== "string") return null;
+      if (to.trim()) mapping[from] = to.trim();
+    }
+    aliases.push(mapping);
+  }
+  return aliases;
+}
+
+export interface SpeakerSample {
+  speaker: string;
+  lineCount: number;
+  firstLine: number;
+  lastLine: number;
+  samples: Array<{ lineNumber: number; text: string }>;
+}
+
+// En dessous, une réplique ("Oui.", "Ok") n'aide pas à reconnaître quelqu'un
+const MIN_SAMPLE_LENGTH = 25;
+
+/**
+ * Per-speaker overview for roster assignment: first/last appearance and a few
+ * representative lines, the longest of each part of the session so the
+ * samples are spread over the whole transcript.
+ */
+export function sampleSpeakers(
+  lines: PreprocessedLine[],
+  samplesPerSpeaker = 3
+): SpeakerSample[] {
+  const bySpeaker = new Map<string, PreprocessedLine[]>();
+  for (const line of lines) {
+    if (!line.speaker) continue;
+    const speakerLines = bySpeaker.get(line.speaker) ?? [];
+    speakerLines.push(line);
+    bySpeaker.set(line.speaker, speakerLines);
+  }
+
+  return [...bySpeaker.entries()]
+    .map(([speaker, speakerLines]) => {
+      const dialogue = speakerLines.filter((l) => l.type === "dialogue");
+      const candidates = dialogue.some((l) => l.text.length >= MIN_SAMPLE_LENGTH)
+        ? dialogue.filter((l) => l.text.length >= MIN_SAMPLE_LENGTH)
+        : dialogue;
+
+      const partSize = Math.ceil(candidates.length / samplesPerSpeaker);
+      const samples: SpeakerSample["samples"] = [];
+      for (let i = 0; i < candidates.length; i += partSize) {
+        const longest = candidates
+          .slice(i, i + partSize)
+          .reduce((best, l) => (l.text.length > best.text.length ? l : best));
+        samples.push({ lineNumber: longest.lineNumber, text: longest.text });
+      }
+
+      return {
+        speaker,
+        lineCount: speakerLines.length,
+        firstLine: speakerLines[0].lineNumber,
+        lastLine: speakerLines[speakerLines.length - 1].lineNumber,
+        samples,
+      };
+    })
+    .sort((a, b) => b.lineCount - a.lineCount || a.speaker.localeCompare(b.speaker));
+}
+
+/**
+ * Recording time covered by a scene, from the first timed line at or after
+ * `startLine` to the last one up to `endLine`. Undefined for plain text.
+ */
+export function getSceneTimeRange(
+  lines: PreprocessedLine[],
+  startLine: number,
+  endLine: number
+): { startTime: number; endTime: number } | undefined {
+  const timed = lines.filter(
+    (l) => l.start !== undefined && l.lineNumber >= startLine && l.lineNumber <= endLine
+  );
+  if (timed.length === 0) return undefined;
+  const last = timed[timed.length - 1];
+  return { startTime: timed[0].start!, endTime: last.end ?? last.start! };
+}
+
 /**
  * Extract a range of lines from the preprocessed transcript for a scene.
  */
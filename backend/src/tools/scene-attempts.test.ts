@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  hasAttemptsLeft,
+  MAX_SCENE_ATTEMPTS,
+  scoreIssues,
+  selectBestAttempt,
+  withContinuityIssues,
+  type SceneAttempt,
+} from "./scene-attempts.js";
+
+type Severity = "error" | "warning" | "info";
+
+function issue(severity: Severity, sceneIds?: number[]) {
+  return { issue: `Probleme ${severity}`, severity, ...(sceneIds ? { sceneIds } : { sceneId: 1 }) };
+}
+
+function attempt(number: number, severities: Severity[]): SceneAttempt {
+  const issues = severities.map((severity) => issue(severity));
+  return {
+    attempt: number,
+    summary: { sceneId: 1, narrativeSummary: `Version ${number}`, keyEvents: [], diceRolls: [], npcsInvolved: [] },
+    issues,
+    score: scoreIssues(issues),
+  };
+}
+
+test("errors rank first, then weighted warnings, then the latest attempt", () => {
+  assert.deepEqual(scoreIssues([issue("warning"), issue("info"), issue("error")]), {
+    errors: 1,
+    weightedWarnings: 1.25,
+  });
+  assert.equal(selectBestAttempt(1, [attempt(1, ["error"]), attempt(2, ["warning", "warning"])])?.attempt, 2);
+  assert.equal(selectBestAttempt(1, [attempt(1, ["info"]), attempt(2, ["warning"])])?.attempt, 1);
+  assert.equal(selectBestAttempt(1, [attempt(1, ["warning"]), attempt(2, ["warning"])])?.attempt, 2);
+});
+
+test("attempts not yet validated are never selected", () => {
+  assert.equal(selectBestAttempt(1, [{ ...attempt(1, []), issues: null, score: null }]), null);
+});
+
+test("continuity issues naming the scene count in the attempt score", () => {
+  const first = withContinuityIssues(attempt(1, ["warning"]), []);
+  const second = withContinuityIssues(attempt(2, []), [issue("error", [1, 3])]);
+  assert.deepEqual(second.score, { errors: 1, weightedWarnings: 0 });
+  assert.deepEqual(second.issues, []);
+
+  const selection = selectBestAttempt(1, [first, second]);
+  assert.equal(selection?.attempt, 1);
+  assert.match(selection?.reason ?? "", /Moins d'erreurs : 0 contre 1 pour la tentative 2/);
+});
+
+test("continuity issues replace those found the previous time the attempt was selected", () => {
+  const flagged = withContinuityIssues(attempt(1, []), [issue("error", [1, 2])]);
+  assert.deepEqual(withContinuityIssues(flagged, []).score, { errors: 0, weightedWarnings: 0 });
+});
+
+test("a scene has a first summary and MAX_RETRIES corrections", () => {
+  const attempts = Array.from({ length: MAX_SCENE_ATTEMPTS }, (_, i) => attempt(i + 1, ["error"]));
+  assert.equal(hasAttemptsLeft(attempts.slice(0, -1)), true);
+  assert.equal(hasAttemptsLeft(attempts), false);
+});
@@ -0,0 +1,144 @@
+/**
+ * Tentatives de résumé par scène — code pur, pas de LLM.
+ *
+ * Chaque scène dispose de son propre budget : un premier résumé, puis au plus
+ * MAX_RETRIES corrections. Toutes les tentatives sont gardées avec leur score
+ * de validation, et la meilleure est retenue : une correction qui introduit
+ * plus d'erreurs qu'elle n'en corrige ne remplace pas la version précédente.
+ * Le score compte aussi les problèmes de continuité de la session qui citent
+ * la scène, relevés la dernière fois que la tentative était retenue.
+ */
+
+import type { z } from "zod";
+import type {
+  SceneSummarySchema,
+  ValidationIssueSchema,
+} from "../graph/state.js";
+import type { SummaryPatchRecord } from "./summary-patch.js";
+
+type SceneSummary = z.infer<typeof SceneSummarySchema>;
+type ValidationIssue = z.infer<typeof ValidationIssueSchema>;
+
+/** Passes de correction d'une scène après son premier résumé. */
+export const MAX_RETRIES = 2;
+export const MAX_SCENE_ATTEMPTS = 1 + MAX_RETRIES;
+
+// Départage à erreurs égales : un warning compte pour 1, une info pour 1/4
+const WARNING_WEIGHTS = { warning: 1, info: 0.25 } as const;
+
+export interface SceneAttemptScore {
+  errors: number;
+  /** Warnings et infos pondérés (warning = 1, info = 0,25). */
+  weightedWarnings: number;
+}
+
+export interface SceneAttempt {
+  /** Numéro de tentative, à partir de 1. */
+  attempt: number;
+  summary: SceneSummary;
+  /** Correction ciblée de la tentative retenue jusque-là : modifications appliquées et refusées. */
+  patch?: SummaryPatchRecord;
+  /** Problèmes propres à la scène ; null tant que la tentative n'est pas validée. */
+  issues: ValidationIssue[] | null;
+  /** Problèmes de continuité qui citent la scène (sceneIds), tentative retenue. */
+  continuityIssues?: ValidationIssue[];
+  score: SceneAttemptScore | null;
+}
+
+export interface SceneAttemptSelection {
+  sceneId: number;
+  attempt: number;
+  attemptsCount: number;
+  score: SceneAttemptScore;
+  reason: string;
+}
+
+export function scoreIssues(issues: ValidationIssue[]): SceneAttemptScore {
+  let errors = 0;
+  let weightedWarnings = 0;
+  for (const issue of issues) {
+    if (issue.severity === "error") errors++;
+    else weightedWarnings += WARNING_WEIGHTS[issue.severity];
+  }
+  return { errors, weightedWarnings };
+}
+
+/**
+ * The attempt with the session continuity issues that name its scene, found
+ * while it was the selected attempt, counted in its score.
+ */
+export function withContinuityIssues(
+  attempt: SceneAttempt,
+  continuityIssues: ValidationIssue[]
+): SceneAttempt {
+  return {
+    ...attempt,
+    continuityIssues,
+    score: scoreIssues([...(attempt.issues ?? []), ...continuityIssues]),
+  };
+}
+
+// Négatif quand `a` est meilleure ; à score égal, la plus récente l'emporte
+function compareAttempts(
+  a: SceneAttempt & { score: SceneAttemptScore },
+  b: SceneAttempt & { score: SceneAttemptScore }
+): number {
+  return (
+    a.score.errors - b.score.errors ||
+    a.score.weightedWarnings - b.score.weightedWarnings ||
+    b.attempt - a.attempt
+  );
+}
+
+function formatWarnings(score: SceneAttemptScore): string {
+  return Number.isInteger(score.weightedWarnings)
+    ? String(score.weightedWarnings)
+    : score.weightedWarnings.toFixed(2).replace(/0$/, "").replace(".", ",");
+}
+
+function formatScore(score: SceneAttemptScore): string {
+  return `${score.errors} erreur(s), ${formatWarnings(score)} avertissement(s) pondéré(s)`;
+}
+
+/**
+ * Best validated attempt of a scene, with the reason it beats the runner-up.
+ * Returns null while no attempt has been validated.
+ */
+export function selectBestAttempt(
+  sceneId: number,
+  attempts: SceneAttempt[]
+): SceneAttemptSelection | null {
+  const scored = attempts
+    .filter((a): a is SceneAttempt & { score: SceneAttemptScore } => a.score !== null)
+    .sort(compareAttempts);
+  if (scored.length === 0) return null;
+
+  const [best, runnerUp] = scored;
+  let reason: string;
+  if (!runnerUp) {
+    reason = `Seule tentative validée : ${formatScore(best.score)}`;
+  } else if (best.score.errors < runnerUp.score.errors) {
+    reason = `Moins d'erreurs : ${best.score.errors} contre ${runnerUp.score.errors} pour la tentative ${runnerUp.attempt}`;
+  } else if (best.score.weightedWarnings < runnerUp.score.weightedWarnings) {
+    reason = `À erreurs égales (${best.score.errors}), moins d'avertissements pondérés : ${formatWarnings(
+      best.score
+    )} contre ${formatWarnings(runnerUp.score)} pour la tentative ${runnerUp.attempt}`;
+  } else {
+    reason = `Score identique à la tentative ${runnerUp.attempt} (${formatScore(
+      best.score
+    )}) : la plus récente est retenue`;
+  }
+
+  return {
+    sceneId,
+    attempt: best.attempt,
+    attemptsCount: attempts.length,
+    score: best.score,
+    reason,
+  };
+}
+
+/** The scene still has attempts left in its budget. */
+export function hasAttemptsLeft(attempts: SceneAttempt[]): boolean {
+  return attempts.length < MAX_SCENE_ATTEMPTS;
+}
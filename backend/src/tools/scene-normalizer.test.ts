@@ -0,0 +1,146 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { PreprocessedLine } from "./preprocessing.js";
+import { normalizeScenes } from "./scene-normalizer.js";
+
+type SceneType = "narrative" | "combat" | "social" | "exploration" | "meta" | "pause";
+
+function scene(id: number, startLine: number, endLine: number, type: SceneType = "narrative") {
+  return { id, title: `Scène ${id}`, startLine, endLine, type };
+}
+
+function transcript(lineCount: number, emptyLines: number[] = []): PreprocessedLine[] {
+  return Array.from({ length: lineCount }, (_, i) => {
+    const lineNumber = i + 1;
+    return emptyLines.includes(lineNumber)
+      ? { lineNumber, speaker: "", text: "", type: "empty" as const }
+      : { lineNumber, speaker: "MJ", text: "On avance.", type: "dialogue" as const };
+  });
+}
+
+const bounds = (scenes: Array<{ id: number; startLine: number; endLine: number }>) =>
+  scenes.map((s) => [s.id, s.startLine, s.endLine]);
+
+test("at an equal start the longer scene keeps its lines and the shorter one is dropped", () => {
+  const { scenes, adjustments } = normalizeScenes(
+    [scene(1, 1, 5), scene(2, 1, 10), scene(3, 11, 20)],
+    transcript(20)
+  );
+  assert.deepEqual(bounds(scenes), [
+    [1, 1, 10],
+    [2, 11, 20],
+  ]);
+  assert.equal(scenes[0].title, "Scène 2");
+  assert.deepEqual(
+    adjustments.map((a) => [a.kind, a.sceneId]),
+    [
+      ["dropped", 1],
+      ["renumbered", 2],
+    ]
+  );
+  assert.equal(
+    adjustments[0].message,
+    "Scène 1 « Scène 1 » supprimée : entièrement comprise dans la scène 2"
+  );
+});
+
+test("a scene inside another cuts it short and takes the rest of its lines", () => {
+  const { scenes, adjustments } = normalizeScenes(
+    [scene(1, 1, 20), scene(2, 5, 8), scene(3, 21, 30)],
+    transcript(30)
+  );
+  assert.deepEqual(bounds(scenes), [
+    [1, 1, 4],
+    [2, 5, 20],
+    [3, 21, 30],
+  ]);
+  assert.deepEqual(
+    adjustments.map((a) => [a.kind, a.sceneId, a.after]),
+    [
+      ["overlap", 1, { startLine: 1, endLine: 4 }],
+      ["orphans", 2, { startLine: 5, endLine: 20 }],
+    ]
+  );
+});
+
+test("orphans before the first scene and after the last are attached to them", () => {
+  // L1 et L28 sont vides : ni bornes du transcript, ni lignes comptées
+  const { scenes, adjustments } = normalizeScenes(
+    [scene(1, 5, 15), scene(2, 16, 25)],
+    transcript(30, [1, 28])
+  );
+  assert.deepEqual(bounds(scenes), [
+    [1, 2, 15],
+    [2, 16, 30],
+  ]);
+  assert.deepEqual(
+    adjustments.map((a) => a.message),
+    [
+      "3 ligne(s) sans scène (L2-L4) rattachée(s) à la scène 1 « Scène 1 »",
+      "4 ligne(s) sans scène (L26-L30) rattachée(s) à la scène 2 « Scène 2 »",
+    ]
+  );
+});
+
+test("orphans after a pause go to the next scene, before a pause to the previous one", () => {
+  const { scenes } = normalizeScenes(
+    [scene(1, 1, 10), scene(2, 13, 15, "pause"), scene(3, 20, 30), scene(4, 31, 35, "meta")],
+    transcript(35)
+  );
+  assert.deepEqual(bounds(scenes), [
+    [1, 1, 12],
+    [2, 13, 15],
+    [3, 16, 30],
+    [4, 31, 35],
+  ]);
+});
+
+test("a micro-scene joins the previous narrative scene", () => {
+  const { scenes, adjustments } = normalizeScenes(
+    [
+      { ...scene(1, 1, 10), summary: "Kira entre." },
+      { ...scene(2, 11, 12), summary: "Le garde dort.", location: "Crypte" },
+      scene(3, 13, 20),
+    ],
+    transcript(20)
+  );
+  assert.deepEqual(scenes, [
+    {
+      ...scene(1, 1, 12),
+      summary: "Kira entre. Le garde dort.",
+      location: "Crypte",
+    },
+    { ...scene(2, 13, 20), title: "Scène 3" },
+  ]);
+  assert.deepEqual(
+    adjustments.map((a) => a.kind),
+    ["merged", "renumbered"]
+  );
+});
+
+test("a micro-scene after a pause joins the next scene instead, and a short pause stays", () => {
+  const { scenes, adjustments } = normalizeScenes(
+    [scene(1, 1, 2, "pause"), scene(2, 3, 4), scene(3, 5, 20, "combat")],
+    transcript(20)
+  );
+  assert.deepEqual(
+    scenes.map((s) => [s.id, s.startLine, s.endLine, s.type, s.title]),
+    [
+      [1, 1, 2, "pause", "Scène 1"],
+      [2, 3, 20, "combat", "Scène 3"],
+    ]
+  );
+  assert.equal(
+    adjustments[0].message,
+    "Scène 2 « Scène 2 » (2 ligne(s)) fusionnée avec la scène 3 « Scène 3 »"
+  );
+});
+
+test("a transcript without content lines leaves the scenes untouched", () => {
+  const input = [scene(1, 1, 5), scene(2, 3, 9)];
+  for (const lines of [[], transcript(3, [1, 2, 3])]) {
+    const { scenes, adjustments } = normalizeScenes(input, lines);
+    assert.equal(scenes, input);
+    assert.deepEqual(adjustments, []);
+  }
+});
@@ -0,0 +1,249 @@
+/**
+ * Normalisation du découpage en scènes — code pur, pas de LLM.
+ *
+ * Les bornes `startLine`/`endLine` viennent du modèle : scènes qui se
+ * chevauchent, lignes couvertes par aucune scène, numéros au-delà du
+ * transcript, scènes de deux lignes. Ce module ramène le découpage à une
+ * liste contiguë de scènes sur les vraies lignes du preprocessing et décrit
+ * chaque ajustement pour l'interface.
+ */
+
+import type { z } from "zod";
+import type { SceneSchema } from "../graph/state.js";
+import type { PreprocessedLine } from "./preprocessing.js";
+
+type Scene = z.infer<typeof SceneSchema>;
+
+export type SceneAdjustmentKind =
+  | "clamped"
+  | "dropped"
+  | "overlap"
+  | "orphans"
+  | "merged"
+  | "created"
+  | "renumbered";
+
+export interface SceneAdjustment {
+  kind: SceneAdjustmentKind;
+  /** Identifiant de la scène dans la sortie de l'analyst. */
+  sceneId: number;
+  message: string;
+  before?: { startLine: number; endLine: number };
+  after?: { startLine: number; endLine: number };
+}
+
+// En dessous, une scène narrative est rattachée à sa voisine
+export const MIN_SCENE_LINES = 3;
+
+const isNarrative = (scene: Scene) => scene.type !== "meta" && scene.type !== "pause";
+
+const range = (scene: Scene) => ({ startLine: scene.startLine, endLine: scene.endLine });
+
+/**
+ * Contiguous, non-overlapping scenes covering every non-empty line, with
+ * ids renumbered from 1. Adjustments are listed in the order they were made.
+ */
+export function normalizeScenes(
+  scenes: Scene[],
+  lines: PreprocessedLine[],
+  minSceneLines = MIN_SCENE_LINES
+): { scenes: Scene[]; adjustments: SceneAdjustment[] } {
+  const adjustments: SceneAdjustment[] = [];
+  const contentLines = lines.filter((l) => l.type !== "empty").map((l) => l.lineNumber);
+  if (contentLines.length === 0) return { scenes, adjustments };
+  const firstLine = contentLines[0];
+  const lastLine = contentLines[contentLines.length - 1];
+  const countLines = (start: number, end: number) =>
+    contentLines.filter((n) => n >= start && n <= end).length;
+
+  // 1. Bornes ramenées au transcript
+  let working: Scene[] = [];
+  for (const original of scenes) {
+    const start = Math.min(original.startLine, original.endLine);
+    const end = Math.max(original.startLine, original.endLine);
+    if (end < firstLine || start > lastLine) {
+      adjustments.push({
+        kind: "dropped",
+        sceneId: original.id,
+        message: `Scène ${original.id} « ${original.title} » supprimée : L${original.startLine}-L${original.endLine} hors du transcript (L${firstLine}-L${lastLine})`,
+        before: range(original),
+      });
+      continue;
+    }
+    const scene = {
+      ...original,
+      startLine: Math.max(start, firstLine),
+      endLine: Math.min(end, lastLine),
+    };
+    if (scene.startLine !== original.startLine || scene.endLine !== original.endLine) {
+      adjustments.push({
+        kind: "clamped",
+        sceneId: original.id,
+        message: `Scène ${original.id} « ${original.title} » ramenée de L${original.startLine}-L${original.endLine} à L${scene.startLine}-L${scene.endLine}`,
+        before: range(original),
+        after: range(scene),
+      });
+    }
+    working.push(scene);
+  }
+
+  // 2. Chevauchements : la scène suivante commence où l'analyst l'a placée,
+  // la précédente s'arrête juste avant ; à début égal, la plus longue garde
+  // ses lignes
+  working.sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+  const disjoint: Scene[] = [];
+  for (const scene of working) {
+    const previous = disjoint[disjoint.length - 1];
+    if (!previous || scene.startLine > previous.endLine) {
+      disjoint.push(scene);
+      continue;
+    }
+    if (scene.startLine > previous.startLine) {
+      const before = range(previous);
+      previous.endLine = scene.startLine - 1;
+      adjustments.push({
+        kind: "overlap",
+        sceneId: previous.id,
+        message: `Scène ${previous.id} « ${previous.title} » chevauchait la scène ${scene.id} : arrêtée à L${previous.endLine}`,
+        before,
+        after: range(previous),
+      });
+      disjoint.push(scene);
+      continue;
+    }
+    const before = range(scene);
+    scene.startLine = previous.endLine + 1;
+    if (scene.startLine > scene.endLine) {
+      adjustments.push({
+        kind: "dropped",
+        sceneId: scene.id,
+        message: `Scène ${scene.id} « ${scene.title} » supprimée : entièrement comprise dans la scène ${previous.id}`,
+        before,
+      });
+      continue;
+    }
+    adjustments.push({
+      kind: "overlap",
+      sceneId: scene.id,
+      message: `Scène ${scene.id} « ${scene.title} » chevauchait la scène ${previous.id} : commence à L${scene.startLine}`,
+      before,
+      after: range(scene),
+    });
+    disjoint.push(scene);
+  }
+  working = disjoint;
+
+  if (working.length === 0) {
+    const scene: Scene = {
+      id: 1,
+      title: "Session",
+      type: "narrative",
+      startLine: firstLine,
+      endLine: lastLine,
+    };
+    adjustments.push({
+      kind: "created",
+      sceneId: 1,
+      message: `Aucune scène exploitable : une scène unique couvre L${firstLine}-L${lastLine}`,
+      after: range(scene),
+    });
+    return { scenes: [scene], adjustments };
+  }
+
+  // 3. Lignes orphelines : rattachées à la scène précédente, ou à la
+  // suivante quand la précédente est une pause ou une discussion meta
+  const assignOrphans = (scene: Scene, start: number, end: number, edge: "start" | "end") => {
+    const before = range(scene);
+    if (edge === "start") scene.startLine = start;
+    else scene.endLine = end;
+    const orphans = countLines(start, end);
+    if (orphans === 0) return;
+    adjustments.push({
+      kind: "orphans",
+      sceneId: scene.id,
+      message: `${orphans} ligne(s) sans scène (L${start}-L${end}) rattachée(s) à la scène ${scene.id} « ${scene.title} »`,
+      before,
+      after: range(scene),
+    });
+  };
+
+  if (working[0].startLine > firstLine) {
+    assignOrphans(working[0], firstLine, working[0].startLine - 1, "start");
+  }
+  for (let i = 1; i < working.length; i++) {
+    const previous = working[i - 1];
+    const scene = working[i];
+    if (scene.startLine <= previous.endLine + 1) continue;
+    const [start, end] = [previous.endLine + 1, scene.startLine - 1];
+    if (!isNarrative(previous) && isNarrative(scene)) {
+      assignOrphans(scene, start, end, "start");
+    } else {
+      assignOrphans(previous, start, end, "end");
+    }
+  }
+  const last = working[working.length - 1];
+  if (last.endLine < lastLine) {
+    assignOrphans(last, last.endLine + 1, lastLine, "end");
+  }
+
+  // 4. Micro-scènes narratives fusionnées avec une voisine narrative ; les
+  // pauses et scènes meta, même courtes, restent à part
+  let merged = true;
+  while (merged) {
+    merged = false;
+    for (let i = 0; i < working.length; i++) {
+      const scene = working[i];
+      if (!isNarrative(scene)) continue;
+      const size = countLines(scene.startLine, scene.endLine);
+      if (size >= minSceneLines) continue;
+
+      const previous = working[i - 1];
+      const next = working[i + 1];
+      const target =
+        previous && isNarrative(previous) ? previous : next && isNarrative(next) ? next : null;
+      if (!target) continue;
+
+      const before = range(target);
+      const targetSize = countLines(target.startLine, target.endLine);
+      const absorbed: Scene = {
+        ...(targetSize >= size ? target : scene),
+        startLine: Math.min(target.startLine, scene.startLine),
+        endLine: Math.max(target.endLine, scene.endLine),
+        location: target.location ?? scene.location,
+        summary:
+          [target, scene]
+            .sort((a, b) => a.startLine - b.startLine)
+            .map((s) => s.summary)
+            .filter(Boolean)
+            .join(" ") || undefined,
+        id: target.id,
+      };
+      adjustments.push({
+        kind: "merged",
+        sceneId: scene.id,
+        message: `Scène ${scene.id} « ${scene.title} » (${size} ligne(s)) fusionnée avec la scène ${target.id} « ${target.title} »`,
+        before,
+        after: range(absorbed),
+      });
+      working.splice(Math.min(i, working.indexOf(target)), 2, absorbed);
+      merged = true;
+      break;
+    }
+  }
+
+  // 5. Identifiants séquentiels
+  const renumbered = working.map((scene, i) => ({ ...scene, id: i + 1 }));
+  const moved = working.filter((scene, i) => scene.id !== i + 1);
+  if (moved.length > 0) {
+    adjustments.push({
+      kind: "renumbered",
+      sceneId: moved[0].id,
+      message: `Scènes renumérotées : ${working
+        .map((scene, i) => (scene.id === i + 1 ? null : `${scene.id} → ${i + 1}`))
+        .filter(Boolean)
+        .join(", ")}`,
+    });
+  }
+
+  return { scenes: renumbered, adjustments };
+}
@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  assertSpeakerPattern,
+  isSpeakerPatternPreset,
+  parseSpeakerLines,
+} from "./speaker-patterns.js";
+
+test("only own preset ids are presets", () => {
+  assert.equal(isSpeakerPatternPreset("discord"), true);
+  assert.equal(isSpeakerPatternPreset("toString"), false);
+  assert.equal(isSpeakerPatternPreset("constructor"), false);
+  assert.equal(isSpeakerPatternPreset("__proto__"), false);
+});
+
+test("prototype keys are rejected as patterns instead of crashing the parser", () => {
+  assert.throws(() => assertSpeakerPattern("toString"), /Motif de ligne invalide/);
+  assert.throws(() => parseSpeakerLines("Emilie: bonjour", "constructor"), /Motif de ligne invalide/);
+});
+
+test("auto picks the preset that recognises the most lines", () => {
+  assert.equal(parseSpeakerLines("[SPEAKER_00] Bonjour\n[SPEAKER_01] Salut").pattern, "speaker-tag");
+  assert.equal(parseSpeakerLines("Emilie: On y va ?\nMJ: La porte grince.").pattern, "named");
+  assert.equal(
+    parseSpeakerLines("[21:04] Emilie — On y va\n[21:05] Marc — Je suis").pattern,
+    "discord"
+  );
+});
+
+test("a named line needs a capitalised speaker and a space after the colon", () => {
+  const { segments } = parseSpeakerLines("Emilie: On y va.\nil est 21:30 déjà\nhttp://exemple", "named");
+  assert.deepEqual(segments.map((s) => s.speaker), ["Emilie", null, null]);
+});
+
+test("Discord headers open a block whose lines share the header time", () => {
+  const { segments } = parseSpeakerLines(
+    "Emilie — Aujourd'hui à 21:04\nJ'ouvre la porte\nEt j'entre\nMarc — Aujourd'hui à 21:06\nJe suis",
+    "discord"
+  );
+  assert.deepEqual(
+    segments.map((s) => [s.speaker, s.text, s.start]),
+    [
+      [null, "", undefined],
+      ["Emilie", "J'ouvre la porte", 0],
+      ["Emilie", "Et j'entre", 0],
+      [null, "", undefined],
+      ["Marc", "Je suis", 120],
+    ]
+  );
+});
+
+test("log times keep increasing past midnight", () => {
+  const { segments } = parseSpeakerLines("[23:59] Emilie — Minuit approche\n[00:01] Marc — Déjà", "discord");
+  assert.deepEqual(segments.map((s) => s.start), [0, 120]);
+});
+
+test("Roll20 roll results are flagged as dice rolls, chat lines are not", () => {
+  const { segments } = parseSpeakerLines(
+    "Emilie: /roll 1d20+5\nEmilie: ( 12 )+5 = 17\nMarc: j'ai 17 pièces",
+    "roll20"
+  );
+  assert.deepEqual(segments.map((s) => s.isDiceRoll ?? false), [true, true, false]);
+});
+
+test("custom patterns need the speaker and text groups", () => {
+  const { segments } = parseSpeakerLines("<Emilie> bonjour", "^<(?<speaker>[^>]+)> (?<text>.+)$");
+  assert.deepEqual(segments, [{ speaker: "Emilie", text: "bonjour" }]);
+  assert.throws(() => assertSpeakerPattern("^(?<speaker>\\w+): (.+)$"), /groupes nommés/);
+  assert.throws(() => assertSpeakerPattern("^(?<speaker>[a-z+: (?<text>.+)$"), /Motif de ligne invalide/);
+});
+
+test("custom patterns prone to catastrophic backtracking are rejected", () => {
+  for (const pattern of [
+    "^(?<speaker>(\\w+)+): (?<text>.+)$",
+    "^(?<speaker>(?:\\w*\\s?)*): (?<text>.+)$",
+    "^(?<speaker>(a|ab)*): (?<text>.+)$",
+    "^(?<speaker>(\\w{1,}-)+): (?<text>.+)$",
+  ]) {
+    assert.throws(() => assertSpeakerPattern(pattern), /groupe répété/, pattern);
+  }
+  assert.throws(
+    () => assertSpeakerPattern(`^(?<speaker>\\w+): (?<text>${"a".repeat(200)})$`),
+    /200 caractères/
+  );
+});
+
+test("ordinary custom patterns are accepted", () => {
+  for (const pattern of [
+    "^(?<speaker>[^:]+) : (?<text>.+)$",
+    "^\\[(?<time>\\d+:\\d+)\\] (?<speaker>[\\w ]+?)(?: \\(MJ\\))?: (?<text>.*)$",
+    "^(?<speaker>[(+*)]+) (?<text>.+)$",
+    "^(?<speaker>\\(\\w+\\)+) (?<text>.+)$",
+  ]) {
+    assert.doesNotThrow(() => assertSpeakerPattern(pattern), pattern);
+  }
+});
@@ -0,0 +1,282 @@
+/**
+ * Motifs de ligne des transcripts texte — code pur, pas de LLM.
+ *
+ * Un transcript texte attribue chaque ligne à un speaker selon un motif :
+ * un preset intégré ("[SPEAKER_00]" de la diarization, "Nom: texte", Discord,
+ * Roll20/Craig) ou une expression régulière personnalisée avec les groupes
+ * nommés `speaker` et `text` (et `time` en option). "auto" choisit le preset
+ * qui reconnaît le plus de lignes.
+ *
+ * Les heures des logs (Discord, Roll20, Craig) sont ramenées en secondes
+ * depuis le premier message horodaté.
+ */
+
+import type { TranscriptSegment } from "./transcript-formats.js";
+
+export type SpeakerPatternPreset =
+  | "speaker-tag"
+  | "named"
+  | "discord"
+  | "roll20";
+
+type LineMatch = {
+  speaker: string;
+  text: string;
+  time?: string;
+};
+
+type SpeakerLineParser = {
+  match: (line: string) => LineMatch | null;
+  /** Discord header line ("Emilie — Aujourd'hui à 21:04") opening a block. */
+  header?: (line: string) => LineMatch | null;
+  /** Unmatched lines belong to the previous speaker. */
+  continues: boolean;
+  isDiceRoll?: (text: string) => boolean;
+};
+
+export const SPEAKER_PATTERN_PRESETS: Record<SpeakerPatternPreset, string> = {
+  "speaker-tag": "[SPEAKER_00] texte (diarization)",
+  named: "Nom: texte",
+  discord: "Discord ([21:04] Nom — texte)",
+  roll20: "Roll20 / Craig (Nom: texte, /roll)",
+};
+
+// Prénom, nom composé ou pseudo commençant par une majuscule
+const NAME = "[\\p{Lu}][\\p{L}\\p{M}\\p{N}'’._\\- ]{0,39}?";
+const CLOCK = "\\d{1,2}:\\d{2}(?::\\d{2})?";
+
+const SPEAKER_TAG_RE = /^\[([A-Z_]+\d+)\]\s*(.*)$/;
+const NAMED_RE = new RegExp(`^(${NAME})\\s*:\\s+(.+)$`, "u");
+const DISCORD_COMPACT_RE = new RegExp(
+  `^\\[(${CLOCK})\\]\\s*(${NAME})\\s*(?:—|–|:)\\s+(.+)$`,
+  "u"
+);
+const DISCORD_HEADER_RE = new RegExp(
+  `^(${NAME})\\s+—\\s+.*?\\b(${CLOCK})\\s*$`,
+  "u"
+);
+const ROLL20_RE = new RegExp(
+  `^(?:\\[(${CLOCK})\\]\\s*)?(${NAME})(?:\\s*\\((?:GM|MJ)\\))?\\s*:\\s*(.+)$`,
+  "u"
+);
+// "/roll 1d20+5", "rolling 1d20+5", "( 12 )+5 = 17"
+const ROLL20_DICE_RE =
+  /^(?:\/r(?:oll)?\s+|rolling\s+)\S|^\(\s*\d+(?:\s*[+,]\s*\d+)*\s*\)(?:\s*[+-]\s*\d+)*\s*=\s*\d+$/i;
+
+const PARSERS: Record<SpeakerPatternPreset, SpeakerLineParser> = {
+  "speaker-tag": {
+    match: (line) => {
+      const m = line.match(SPEAKER_TAG_RE);
+      return m ? { speaker: m[1], text: m[2].trim() } : null;
+    },
+    continues: false,
+  },
+  named: {
+    match: (line) => {
+      const m = line.match(NAMED_RE);
+      return m ? { speaker: m[1].trim(), text: m[2].trim() } : null;
+    },
+    continues: false,
+  },
+  discord: {
+    match: (line) => {
+      const m = line.match(DISCORD_COMPACT_RE);
+      return m ? { time: m[1], speaker: m[2].trim(), text: m[3].trim() } : null;
+    },
+    header: (line) => {
+      const m = line.match(DISCORD_HEADER_RE);
+      return m ? { speaker: m[1].trim(), text: "", time: m[2] } : null;
+    },
+    continues: true,
+  },
+  roll20: {
+    match: (line) => {
+      const m = line.match(ROLL20_RE);
+      return m ? { time: m[1], speaker: m[2].trim(), text: m[3].trim() } : null;
+    },
+    continues: true,
+    isDiceRoll: (text) => ROLL20_DICE_RE.test(text),
+  },
+};
+
+export function isSpeakerPatternPreset(value: string): value is SpeakerPatternPreset {
+  return Object.hasOwn(SPEAKER_PATTERN_PRESETS, value);
+}
+
+// Le motif vient de la requête et s'exécute sur chaque ligne du transcript
+const MAX_CUSTOM_PATTERN_LENGTH = 200;
+
+/**
+ * A repeated group that itself repeats or alternates ("(a+)+", "(\w*\s)*",
+ * "(a|ab)*"): exponential backtracking on a line that almost matches.
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  // Échappements puis classes de caractères : des atomes sans répétition
+  const source = pattern
+    .replace(/\\./g, "e")
+    .replace(/\[[^\]]*\]/g, "c");
+  const quantifierAt = (i: number) => /^(?:[*+]|\{\d+,)/.test(source.slice(i));
+
+  const groups: boolean[] = [];
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === "(") {
+      groups.push(false);
+    } else if (ch === ")") {
+      if (groups.length === 0) continue;
+      const repeats = groups.pop()!;
+      const quantified = quantifierAt(i + 1);
+      if (repeats && quantified) return true;
+      if ((repeats || quantified) && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (groups.length > 0 && (ch === "|" || quantifierAt(i))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Custom pattern: a regular expression with `speaker` and `text` named
+ * groups. Throws with a user-facing message when the pattern is unusable.
+ */
+function compileCustomPattern(pattern: string): SpeakerLineParser {
+  if (pattern.length > MAX_CUSTOM_PATTERN_LENGTH) {
+    throw new Error(
+      `Motif de ligne invalide : ${MAX_CUSTOM_PATTERN_LENGTH} caractères au plus.`
+    );
+  }
+  let re: RegExp;
+  try {
+    re = new RegExp(pattern, "u");
+  } catch (err) {
+    throw new Error(
+      `Motif de ligne invalide : ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+  if (!pattern.includes("(?<speaker>") || !pattern.includes("(?<text>")) {
+    throw new Error(
+      "Motif de ligne invalide : les groupes nommés (?<speaker>...) et (?<text>...) sont requis."
+    );
+  }
+  if (hasNestedQuantifier(pattern)) {
+    throw new Error(
+      "Motif de ligne invalide : un groupe répété ne peut pas contenir lui-même de répétition ou d'alternative, comme (a+)+ ou (a|b)*."
+    );
+  }
+  return {
+    match: (line) => {
+      const groups = line.match(re)?.groups;
+      if (!groups?.speaker?.trim()) return null;
+      return {
+        speaker: groups.speaker.trim(),
+        text: (groups.text ?? "").trim(),
+        time: groups.time,
+      };
+    },
+    continues: false,
+  };
+}
+
+/** Validates a request value: "auto", a preset id or a custom pattern. */
+export function assertSpeakerPattern(pattern: string): void {
+  if (pattern === "auto" || isSpeakerPatternPreset(pattern)) return;
+  compileCustomPattern(pattern);
+}
+
+/** "21:04" or "01:12:40" → seconds since midnight (or since start). */
+function clockToSeconds(clock: string): number {
+  const parts = clock.split(":").map(Number);
+  return parts.length === 3
+    ? parts[0] * 3600 + parts[1] * 60 + parts[2]
+    : parts[0] * 3600 + parts[1] * 60;
+}
+
+function parseLines(rawLines: string[], parser: SpeakerLineParser): TranscriptSegment[] {
+  let currentSpeaker: string | null = null;
+  // Heure de l'en-tête Discord, partagée par les lignes de son bloc
+  let blockStart: number | undefined;
+  let firstClock: number | null = null;
+  let dayOffset = 0;
+  let previousClock = 0;
+
+  const toStart = (time?: string): number | undefined => {
+    if (!time) return undefined;
+    const clock = clockToSeconds(time);
+    // Session passée minuit
+    if (firstClock !== null && clock + dayOffset < previousClock - 12 * 3600) {
+      dayOffset += 24 * 3600;
+    }
+    firstClock ??= clock;
+    previousClock = clock + dayOffset;
+    return previousClock - firstClock;
+  };
+
+  return rawLines.map((line): TranscriptSegment => {
+    const raw = line.trim();
+    if (!raw) return { speaker: null, text: "" };
+
+    const header = parser.header?.(raw);
+    if (header) {
+      currentSpeaker = header.speaker;
+      blockStart = toStart(header.time);
+      return { speaker: null, text: "" };
+    }
+
+    const matched = parser.match(raw);
+    const speaker = matched?.speaker ?? (parser.continues ? currentSpeaker : null);
+    const text = matched?.text ?? raw;
+    if (matched) {
+      currentSpeaker = matched.speaker;
+      blockStart = undefined;
+    }
+
+    const start = matched ? toStart(matched.time) : speaker ? blockStart : undefined;
+    return {
+      speaker,
+      text,
+      ...(start !== undefined ? { start } : {}),
+      ...(parser.isDiceRoll?.(text) ? { isDiceRoll: true } : {}),
+    };
+  });
+}
+
+// Nombre de lignes examinées pour choisir le preset
+const AUTO_DETECT_SAMPLE_LINES = 200;
+
+function detectPreset(rawLines: string[]): SpeakerPatternPreset {
+  const sample = rawLines
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .slice(0, AUTO_DETECT_SAMPLE_LINES);
+
+  let best: SpeakerPatternPreset = "speaker-tag";
+  let bestScore = 0;
+  for (const preset of Object.keys(PARSERS) as SpeakerPatternPreset[]) {
+    const parser = PARSERS[preset];
+    const score = sample.filter(
+      (l) => parser.match(l) || parser.header?.(l) || parser.isDiceRoll?.(l)
+    ).length;
+    // À égalité, le preset déclaré en premier (le plus strict) l'emporte
+    if (score > bestScore) {
+      best = preset;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * One segment per raw line, empty ones included, so line numbers match the
+ * uploaded file.
+ */
+export function parseSpeakerLines(
+  rawText: string,
+  pattern = "auto"
+): { pattern: string; segments: TranscriptSegment[] } {
+  const rawLines = rawText.split("\n");
+  const resolved = pattern === "auto" ? detectPreset(rawLines) : pattern;
+  const parser = isSpeakerPatternPreset(resolved)
+    ? PARSERS[resolved]
+    : compileCustomPattern(resolved);
+  return { pattern: resolved, segments: parseLines(rawLines, parser) };
+}
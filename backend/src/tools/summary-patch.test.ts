@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { attachParsedDiceRoll } from "./dice.js";
+import type { PreprocessedLine } from "./preprocessing.js";
+import { applySummaryPatch, formatNumberedDraft, type SummaryEdit } from "./summary-patch.js";
+
+// Entrées volontairement hors de l'ordre chronologique et de la mise en forme du merge
+const previous = {
+  sceneId: 3,
+  narrativeSummary: "Kira entre dans la crypte.\n\nLe garde dort.\n\nIls repartent.",
+  keyEvents: ["[L40-L42] Entrée dans la crypte", "[L43] Le garde dort"],
+  diceRolls: [
+    { character: "Marc", skill: "Perception", result: "raté, vraiment", context: "[L44] Il ne voit rien" },
+    { character: "Kira", skill: "Discrétion", result: "17 !", context: "[L41] Elle se faufile" },
+  ],
+  npcsInvolved: ["Garde"],
+};
+
+const sceneLines: PreprocessedLine[] = [
+  {
+    lineNumber: 42,
+    speaker: "SPEAKER_01",
+    text: "nat 20",
+    type: "dice_roll",
+    diceRoll: { system: "d20", dice: [20], outcome: "critical_success" },
+  },
+];
+
+function edit(overrides: Partial<SummaryEdit>): SummaryEdit {
+  return { target: "paragraph", action: "replace", index: 1, reason: "Probleme signale", ...overrides };
+}
+
+test("untargeted fields and entries are kept byte for byte", () => {
+  const { summary, record } = applySummaryPatch(previous, [
+    edit({ index: 2, text: "Le garde veille." }),
+  ]);
+  assert.equal(summary.narrativeSummary, "Kira entre dans la crypte.\n\nLe garde veille.\n\nIls repartent.");
+  assert.equal(summary.keyEvents, previous.keyEvents);
+  assert.equal(summary.diceRolls, previous.diceRolls);
+  assert.deepEqual(record.applied.map((a) => [a.before, a.after]), [["Le garde dort.", "Le garde veille."]]);
+});
+
+test("a dice edit only backs the inserted entry and leaves the others unchanged", () => {
+  const inserted = { character: "Kira", skill: "Attaque", result: "20", context: "[L42] Coup de dague" };
+  const { summary } = applySummaryPatch(
+    previous,
+    [edit({ target: "diceRoll", action: "insert_after", index: 2, diceRoll: inserted })],
+    (roll) => attachParsedDiceRoll(roll, sceneLines)
+  );
+  assert.equal(summary.diceRolls.length, 3);
+  assert.equal(summary.diceRolls[0], previous.diceRolls[0]);
+  assert.equal(summary.diceRolls[1], previous.diceRolls[1]);
+  assert.deepEqual(summary.diceRolls[2], {
+    ...inserted,
+    result: "20 naturel — réussite critique",
+    roll: sceneLines[0].diceRoll,
+  });
+});
+
+test("conflicting, out-of-range and empty edits are rejected, never guessed", () => {
+  const { summary, record } = applySummaryPatch(previous, [
+    edit({ target: "keyEvent", index: 1, text: "[L40] Entrée" }),
+    edit({ target: "keyEvent", action: "delete", index: 1 }),
+    edit({ target: "npc", index: 4, text: "Prêtre" }),
+    edit({ target: "npc", action: "insert_after", index: -1, text: "Prêtre" }),
+    edit({ index: 3, text: "   " }),
+    edit({ index: 3, text: "Ils repartent." }),
+  ]);
+  assert.deepEqual(summary.keyEvents, ["[L40] Entrée", "[L43] Le garde dort"]);
+  assert.equal(summary.npcsInvolved, previous.npcsInvolved);
+  assert.equal(summary.narrativeSummary, previous.narrativeSummary);
+  assert.deepEqual(
+    record.rejected.map((r) => r.reason),
+    [
+      "Contenu manquant",
+      "Contenu identique à la version précédente",
+      "Position 1 déjà modifiée par une autre correction",
+      "Position 4 hors de la version précédente (1 à 1)",
+      "Position -1 hors de la version précédente (0 à 1)",
+    ]
+  );
+});
+
+test("edits refer to the positions of the previous version, not the patched one", () => {
+  const { summary } = applySummaryPatch(previous, [
+    edit({ target: "keyEvent", action: "insert_after", index: 0, text: "[L39] Arrivée" }),
+    edit({ target: "keyEvent", action: "delete", index: 2 }),
+  ]);
+  assert.deepEqual(summary.keyEvents, ["[L39] Arrivée", "[L40-L42] Entrée dans la crypte"]);
+});
+
+test("the numbered draft lists every position the model can target", () => {
+  const draft = formatNumberedDraft(previous);
+  assert.match(draft, /\[P3\] Ils repartent\./);
+  assert.match(draft, /\[D1\] Marc \| Perception \| raté, vraiment \| \[L44\] Il ne voit rien/);
+  assert.match(draft, /### Notes techniques\n\(aucun\)/);
+});
@@ -0,0 +1,218 @@
+/**
+ * Correction ciblée d'un résumé de scène — code pur, pas de LLM.
+ *
+ * En correction, le summarizer ne réécrit plus la scène : le modèle reçoit la
+ * version précédente numérotée et renvoie des modifications (remplacer le
+ * paragraphe 2, supprimer le key event 5...). Elles sont appliquées ici, sur
+ * les positions de la version précédente ; tout ce qui n'est pas visé reste
+ * identique à l'octet près. Chaque modification appliquée ou refusée est
+ * gardée pour l'historique.
+ */
+
+import type { z } from "zod";
+import type {
+  SceneSummarySchema,
+  SummaryEditSchema,
+} from "../graph/state.js";
+
+type SceneSummary = z.infer<typeof SceneSummarySchema>;
+type SceneDiceRoll = SceneSummary["diceRolls"][number];
+export type SummaryEdit = z.infer<typeof SummaryEditSchema>;
+export type SummaryEditTarget = SummaryEdit["target"];
+
+export interface SummaryDiffEntry {
+  target: SummaryEditTarget;
+  action: SummaryEdit["action"];
+  /** Position dans la version précédente. */
+  index: number;
+  before?: string;
+  after?: string;
+  reason: string;
+}
+
+export interface SummaryPatchRecord {
+  applied: SummaryDiffEntry[];
+  rejected: Array<{ edit: SummaryEdit; reason: string }>;
+}
+
+const PARAGRAPH_SEPARATOR = "\n\n";
+
+const TARGET_LABELS: Record<SummaryEditTarget, { prefix: string; title: string }> = {
+  paragraph: { prefix: "P", title: "Récit (paragraphes)" },
+  keyEvent: { prefix: "E", title: "Key events" },
+  diceRoll: { prefix: "D", title: "Jets de dés" },
+  npc: { prefix: "N", title: "PNJs" },
+  technicalNote: { prefix: "T", title: "Notes techniques" },
+};
+
+// split/join sur le même séparateur : un récit non modifié est reconstruit tel quel
+function splitParagraphs(narrative: string): string[] {
+  return narrative.split(PARAGRAPH_SEPARATOR);
+}
+
+function formatDiceRollEntry(roll: SceneDiceRoll): string {
+  return `${roll.character} | ${roll.skill} | ${roll.result} | ${roll.context}`;
+}
+
+/** Previous draft with the positions the edits refer to ([P1], [E1], [D1]...). */
+export function formatNumberedDraft(summary: SceneSummary): string {
+  const sections: Array<[SummaryEditTarget, string[]]> = [
+    ["paragraph", splitParagraphs(summary.narrativeSummary)],
+    ["keyEvent", summary.keyEvents],
+    ["diceRoll", summary.diceRolls.map(formatDiceRollEntry)],
+    ["npc", summary.npcsInvolved],
+    ["technicalNote", summary.technicalNotes ?? []],
+  ];
+  return sections
+    .map(([target, items]) => {
+      const { prefix, title } = TARGET_LABELS[target];
+      const body =
+        items.length > 0
+          ? items.map((item, i) => `[${prefix}${i + 1}] ${item}`).join("\n")
+          : "(aucun)";
+      return `### ${title}\n${body}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Applies the edits of one list against its previous version. Returns the
+ * original array when nothing applies, so untouched fields keep their
+ * identity.
+ */
+function patchList<T>(
+  items: T[],
+  edits: SummaryEdit[],
+  valueOf: (edit: SummaryEdit) => T | undefined,
+  render: (item: T) => string,
+  record: SummaryPatchRecord
+): T[] {
+  if (edits.length === 0) return items;
+
+  const replaced = new Map<number, T | null>();
+  const inserted = new Map<number, T[]>();
+
+  for (const edit of edits) {
+    const reject = (reason: string) => record.rejected.push({ edit, reason });
+    const index = edit.index;
+    if (!Number.isInteger(index)) {
+      reject("Position non entière");
+      continue;
+    }
+
+    if (edit.action === "insert_after") {
+      if (index < 0 || index > items.length) {
+        reject(`Position ${index} hors de la version précédente (0 à ${items.length})`);
+        continue;
+      }
+      const value = valueOf(edit);
+      if (value === undefined) {
+        reject("Contenu manquant");
+        continue;
+      }
+      inserted.set(index, [...(inserted.get(index) ?? []), value]);
+      record.applied.push({
+        target: edit.target,
+        action: edit.action,
+        index,
+        after: render(value),
+        reason: edit.reason,
+      });
+      continue;
+    }
+
+    if (index < 1 || index > items.length) {
+      reject(`Position ${index} hors de la version précédente (1 à ${items.length})`);
+      continue;
+    }
+    if (replaced.has(index)) {
+      reject(`Position ${index} déjà modifiée par une autre correction`);
+      continue;
+    }
+    const before = render(items[index - 1]);
+    if (edit.action === "delete") {
+      replaced.set(index, null);
+      record.applied.push({ target: edit.target, action: edit.action, index, before, reason: edit.reason });
+      continue;
+    }
+    const value = valueOf(edit);
+    if (value === undefined) {
+      reject("Contenu manquant");
+      continue;
+    }
+    const after = render(value);
+    if (after === before) {
+      reject("Contenu identique à la version précédente");
+      continue;
+    }
+    replaced.set(index, value);
+    record.applied.push({ target: edit.target, action: edit.action, index, before, after, reason: edit.reason });
+  }
+
+  if (replaced.size === 0 && inserted.size === 0) return items;
+
+  const patched: T[] = [...(inserted.get(0) ?? [])];
+  items.forEach((item, i) => {
+    const replacement = replaced.get(i + 1);
+    if (replacement === undefined) patched.push(item);
+    else if (replacement !== null) patched.push(replacement);
+    patched.push(...(inserted.get(i + 1) ?? []));
+  });
+  return patched;
+}
+
+function textOf(edit: SummaryEdit): string | undefined {
+  const text = edit.text?.trim();
+  return text ? text : undefined;
+}
+
+/**
+ * Applies targeted edits to the previous summary of a scene. Edits refer to
+ * the positions of `previous`; conflicting or out-of-range edits are rejected
+ * and recorded, never guessed. `prepareDiceRoll` completes the dice entries
+ * an edit brings (parsed roll of the cited line); untouched entries are kept
+ * as they are.
+ */
+export function applySummaryPatch(
+  previous: SceneSummary,
+  edits: SummaryEdit[],
+  prepareDiceRoll: (roll: SceneDiceRoll) => SceneDiceRoll = (roll) => roll
+): { summary: SceneSummary; record: SummaryPatchRecord } {
+  const record: SummaryPatchRecord = { applied: [], rejected: [] };
+  const editsFor = (target: SummaryEditTarget) => edits.filter((e) => e.target === target);
+  const identity = (value: string) => value;
+
+  const paragraphs = splitParagraphs(previous.narrativeSummary);
+  const patchedParagraphs = patchList(paragraphs, editsFor("paragraph"), textOf, identity, record);
+  const keyEvents = patchList(previous.keyEvents, editsFor("keyEvent"), textOf, identity, record);
+  const diceRolls = patchList(
+    previous.diceRolls,
+    editsFor("diceRoll"),
+    (edit) => (edit.diceRoll ? prepareDiceRoll(edit.diceRoll) : undefined),
+    formatDiceRollEntry,
+    record
+  );
+  const npcsInvolved = patchList(previous.npcsInvolved, editsFor("npc"), textOf, identity, record);
+  const technicalNotes = patchList(
+    previous.technicalNotes ?? [],
+    editsFor("technicalNote"),
+    textOf,
+    identity,
+    record
+  );
+
+  return {
+    summary: {
+      ...previous,
+      narrativeSummary:
+        patchedParagraphs === paragraphs
+          ? previous.narrativeSummary
+          : patchedParagraphs.join(PARAGRAPH_SEPARATOR),
+      keyEvents,
+      diceRolls,
+      npcsInvolved,
+      ...(previous.technicalNotes || technicalNotes.length > 0 ? { technicalNotes } : {}),
+    },
+    record,
+  };
+}
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { PreprocessedLine } from "./preprocessing.js";
+import { collectTableTalkLines, isTableTalk, renderTableTalkNotes } from "./table-talk.js";
+
+const emptyNotes = { scheduling: [], rulings: [], houseRules: [], todos: [] };
+
+test("organisation, rulings and to-dos are table talk", () => {
+  for (const text of [
+    "HRP : je dois partir à 23h",
+    "On se revoit vendredi prochain ?",
+    "Je serai absente la semaine prochaine.",
+    "Selon le manuel, l'attaque d'opportunité se fait avant.",
+    "Mettez à jour vos fiches d'ici la prochaine session.",
+  ]) {
+    assert.equal(isTableTalk(text), true, text);
+  }
+});
+
+test("in-character lines are not table talk", () => {
+  for (const text of [
+    "Je dégaine mon épée et j'avance vers le garde.",
+    "Le prochain qui bouge, je l'abats.",
+    "Nous partirons vendredi à l'aube.",
+  ]) {
+    assert.equal(isTableTalk(text), false, text);
+  }
+});
+
+test("meta and pause scenes, flagged and tagged lines are collected, empty lines never", () => {
+  const lines: PreprocessedLine[] = [
+    { lineNumber: 1, speaker: "MJ", text: "On reprend.", type: "dialogue" },
+    { lineNumber: 2, speaker: "MJ", text: "", type: "empty" },
+    { lineNumber: 3, speaker: "Emilie", text: "J'avance.", type: "dialogue" },
+    { lineNumber: 4, speaker: "Marc", text: "HRP : pizza ?", type: "dialogue", outOfCharacter: true },
+    { lineNumber: 5, speaker: "MJ", text: "Le garde dort.", type: "dialogue" },
+    { lineNumber: 6, speaker: "MJ", text: "Pause de dix minutes.", type: "dialogue" },
+  ];
+  const scenes = [
+    { id: 1, title: "Récap", startLine: 1, endLine: 2, type: "meta" as const },
+    { id: 2, title: "Crypte", startLine: 3, endLine: 5, type: "exploration" as const },
+    { id: 3, title: "Pause", startLine: 6, endLine: 6, type: "pause" as const },
+  ];
+  assert.deepEqual(collectTableTalkLines(lines, scenes, [5, 2]), [1, 4, 5, 6]);
+});
+
+test("no notes, or only empty categories, render nothing", () => {
+  assert.equal(renderTableTalkNotes(null), "");
+  assert.equal(renderTableTalkNotes(emptyNotes), "");
+});
+
+test("only the categories with entries are rendered, with their line references", () => {
+  const rendered = renderTableTalkNotes({
+    ...emptyNotes,
+    scheduling: ["[L12] Prochaine session vendredi 21h", "[L40-L42] Marc absent"],
+    todos: ["[L98] Monter les fiches au niveau 5"],
+  });
+  assert.equal(
+    rendered,
+    "## Notes hors-jeu\n\n" +
+      "### 📅 Organisation\n\n- [L12] Prochaine session vendredi 21h\n- [L40-L42] Marc absent\n\n" +
+      "### ✅ À faire\n\n- [L98] Monter les fiches au niveau 5"
+  );
+});
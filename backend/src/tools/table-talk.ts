@@ -0,0 +1,79 @@
+/**
+ * Hors-jeu (HRP) — code pur, pas de LLM.
+ *
+ * Les scènes "meta" et "pause" ne passent pas par le summarizer, mais on y
+ * trouve la logistique de la table : date de la prochaine session, absences,
+ * arbitrages de règles, règles maison. Ce module repère les lignes hors-jeu
+ * dans les scènes narratives (heuristiques lexicales), rassemble le texte à
+ * résumer et met en forme la section "Notes hors-jeu" du compte-rendu.
+ */
+
+import type { z } from "zod";
+import type { SceneSchema, TableTalkNotesSchema } from "../graph/state.js";
+import type { PreprocessedLine } from "./preprocessing.js";
+
+type Scene = z.infer<typeof SceneSchema>;
+export type TableTalkNotes = z.infer<typeof TableTalkNotesSchema>;
+
+const DAYS = "lundi|mardi|mercredi|jeudi|vendredi|samedi|dimanche";
+
+const TABLE_TALK_PATTERNS: RegExp[] = [
+  // Marqueurs explicites
+  /\b(?:hrp|ooc|hors[- ]jeu|hors roleplay)\b/i,
+  // Organisation
+  /\b(?:prochaine (?:session|séance|partie|fois)|semaine prochaine|on se (?:revoit|retrouve|fait ça)|(?:je serai|il sera|elle sera|je suis) absente?|pas dispo(?:nible)?)\b/i,
+  new RegExp(`\\b(?:${DAYS}) (?:prochain|soir|en huit)\\b`, "i"),
+  // Arbitrages et règles maison
+  /\b(?:règle maison|house rules?|la règle (?:dit|c'est)|(?:dans|selon) (?:le manuel|les règles|le livre de base)|on a dit que)\b/i,
+  // À faire entre deux sessions
+  /\b(?:(?:mettez|mets|mettre) à jour (?:vos|ta|votre|sa) fiches?|montée? de niveau|d'ici la prochaine)\b/i,
+];
+
+/** Heuristic: the line is the table talking, not the characters. */
+export function isTableTalk(text: string): boolean {
+  return TABLE_TALK_PATTERNS.some((re) => re.test(text));
+}
+
+/**
+ * Line numbers to summarize as table talk: every line of meta/pause scenes,
+ * plus lines tagged out-of-character inside narrative scenes.
+ */
+export function collectTableTalkLines(
+  lines: PreprocessedLine[],
+  scenes: Scene[],
+  taggedLines: Iterable<number> = []
+): number[] {
+  const selected = new Set<number>(taggedLines);
+  for (const line of lines) {
+    if (line.outOfCharacter) selected.add(line.lineNumber);
+  }
+  for (const scene of scenes) {
+    if (scene.type !== "meta" && scene.type !== "pause") continue;
+    for (const line of lines) {
+      if (line.lineNumber >= scene.startLine && line.lineNumber <= scene.endLine) {
+        selected.add(line.lineNumber);
+      }
+    }
+  }
+  const nonEmpty = new Set(
+    lines.filter((l) => l.type !== "empty").map((l) => l.lineNumber)
+  );
+  return [...selected].filter((n) => nonEmpty.has(n)).sort((a, b) => a - b);
+}
+
+const SECTIONS: Array<{ key: keyof TableTalkNotes; title: string }> = [
+  { key: "scheduling", title: "📅 Organisation" },
+  { key: "rulings", title: "⚖️ Arbitrages de règles" },
+  { key: "houseRules", title: "🏠 Règles maison" },
+  { key: "todos", title: "✅ À faire" },
+];
+
+/** "Notes hors-jeu" appendix, empty when nothing was noted. */
+export function renderTableTalkNotes(notes: TableTalkNotes | null): string {
+  if (!notes) return "";
+  const sections = SECTIONS.filter(({ key }) => notes[key].length > 0).map(
+    ({ key, title }) => `### ${title}\n\n${notes[key].map((e) => `- ${e}`).join("\n")}`
+  );
+  if (sections.length === 0) return "";
+  return `## Notes hors-jeu\n\n${sections.join("\n\n")}`;
+}
@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { PreprocessedLine } from "./preprocessing.js";
+import {
+  COVERAGE_ERROR_LINES,
+  COVERAGE_WARNING_LINES,
+  findCoverageGaps,
+  parseKeyEventLineRange,
+} from "./transcript-coverage.js";
+
+function lines(
+  from: number,
+  to: number,
+  overrides: Partial<PreprocessedLine> = {}
+): PreprocessedLine[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => ({
+    lineNumber: from + i,
+    speaker: "SPEAKER_00",
+    text: "On avance dans le couloir.",
+    type: "dialogue" as const,
+    ...overrides,
+  }));
+}
+
+test("key event ranges are read from a leading [Lx-Ly] tag", () => {
+  assert.deepEqual(parseKeyEventLineRange("[L12-L20] Kira ouvre la porte"), { start: 12, end: 20 });
+  assert.deepEqual(parseKeyEventLineRange("[L12-20] Kira ouvre la porte"), { start: 12, end: 20 });
+  assert.deepEqual(parseKeyEventLineRange("[L7] Un jet raté"), { start: 7, end: 7 });
+});
+
+test("missing, reversed or zero ranges are not ranges", () => {
+  assert.equal(parseKeyEventLineRange("Kira ouvre la porte [L12-L20]"), null);
+  assert.equal(parseKeyEventLineRange("[L20-L12] À l'envers"), null);
+  assert.equal(parseKeyEventLineRange("[L0] Avant la première ligne"), null);
+  assert.equal(parseKeyEventLineRange("(L3-L5) Mauvais crochets"), null);
+});
+
+test("a fully cited scene has no gap", () => {
+  assert.deepEqual(findCoverageGaps(lines(1, 60), ["[L1-L30] Début", "[L31-L60] Fin"]), []);
+});
+
+test("uncited runs shorter than the warning threshold are ignored", () => {
+  const sceneLines = lines(1, 40);
+  const keyEvents = [`[L1-L${40 - COVERAGE_WARNING_LINES + 1}] Presque tout`];
+  assert.deepEqual(findCoverageGaps(sceneLines, keyEvents), []);
+});
+
+test("long uncited runs are warnings, then errors, with their dice rolls counted", () => {
+  const sceneLines = [
+    ...lines(1, 10),
+    ...lines(11, 10 + COVERAGE_WARNING_LINES),
+    ...lines(11 + COVERAGE_WARNING_LINES, 11 + COVERAGE_WARNING_LINES, { type: "dice_roll" }),
+    ...lines(12 + COVERAGE_WARNING_LINES, 20 + COVERAGE_WARNING_LINES),
+    ...lines(21 + COVERAGE_WARNING_LINES, 20 + COVERAGE_WARNING_LINES + COVERAGE_ERROR_LINES),
+  ];
+  const gaps = findCoverageGaps(sceneLines, [
+    "[L1-L10] Début",
+    `[L${12 + COVERAGE_WARNING_LINES}-L${20 + COVERAGE_WARNING_LINES}] Milieu`,
+  ]);
+  assert.deepEqual(gaps, [
+    {
+      startLine: 11,
+      endLine: 11 + COVERAGE_WARNING_LINES,
+      lineCount: COVERAGE_WARNING_LINES + 1,
+      diceRollCount: 1,
+      severity: "warning",
+    },
+    {
+      startLine: 21 + COVERAGE_WARNING_LINES,
+      endLine: 20 + COVERAGE_WARNING_LINES + COVERAGE_ERROR_LINES,
+      lineCount: COVERAGE_ERROR_LINES,
+      diceRollCount: 0,
+      severity: "error",
+    },
+  ]);
+});
+
+test("table talk and empty lines neither count nor break a run", () => {
+  const sceneLines = [
+    ...lines(1, 10),
+    ...lines(11, 20, { outOfCharacter: true }),
+    ...lines(21, 25, { type: "empty", speaker: null, text: "" }),
+    ...lines(26, 35),
+  ];
+  assert.deepEqual(findCoverageGaps(sceneLines, []), [
+    { startLine: 1, endLine: 35, lineCount: 20, diceRollCount: 0, severity: "warning" },
+  ]);
+  assert.deepEqual(findCoverageGaps(lines(1, 30, { outOfCharacter: true }), []), []);
+});
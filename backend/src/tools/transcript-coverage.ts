@@ -0,0 +1,79 @@
+/**
+ * Couverture du transcript par les key events — code pur, pas de LLM.
+ *
+ * Chaque key event cite sa plage source `[Lx-Ly]`. Une longue suite de
+ * répliques ou de jets qu'aucune plage ne cite est le plus souvent un passage
+ * oublié par le résumé : le validator la signale pour que la relance la
+ * rattrape.
+ */
+
+import type { PreprocessedLine } from "./preprocessing.js";
+
+export interface CoverageGap {
+  startLine: number;
+  endLine: number;
+  /** Répliques et jets non cités dans la plage. */
+  lineCount: number;
+  diceRollCount: number;
+  severity: "warning" | "error";
+}
+
+// Seuils en lignes de jeu (répliques et jets, hors-jeu exclu)
+export const COVERAGE_WARNING_LINES = 15;
+export const COVERAGE_ERROR_LINES = 40;
+
+export function parseKeyEventLineRange(
+  keyEvent: string
+): { start: number; end: number } | null {
+  const match = keyEvent.match(/^\s*\[L(\d+)(?:-L?(\d+))?\]/i);
+  if (!match) return null;
+  const start = Number.parseInt(match[1], 10);
+  const end = Number.parseInt(match[2] ?? match[1], 10);
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return null;
+  if (start <= 0 || end <= 0 || end < start) return null;
+  return { start, end };
+}
+
+const isGameplayLine = (line: PreprocessedLine) =>
+  (line.type === "dialogue" || line.type === "untagged" || line.type === "dice_roll") &&
+  !line.outOfCharacter;
+
+/**
+ * Runs of consecutive gameplay lines of a scene that no key event range
+ * cites, at least COVERAGE_WARNING_LINES long. Empty lines and table talk
+ * neither break nor extend a run.
+ */
+export function findCoverageGaps(
+  sceneLines: PreprocessedLine[],
+  keyEvents: string[]
+): CoverageGap[] {
+  const ranges = keyEvents
+    .map(parseKeyEventLineRange)
+    .filter((range): range is { start: number; end: number } => range !== null);
+  const isCited = (lineNumber: number) =>
+    ranges.some((range) => lineNumber >= range.start && lineNumber <= range.end);
+
+  const gaps: CoverageGap[] = [];
+  let run: PreprocessedLine[] = [];
+  const closeRun = () => {
+    if (run.length >= COVERAGE_WARNING_LINES) {
+      gaps.push({
+        startLine: run[0].lineNumber,
+        endLine: run[run.length - 1].lineNumber,
+        lineCount: run.length,
+        diceRollCount: run.filter((line) => line.type === "dice_roll").length,
+        severity: run.length >= COVERAGE_ERROR_LINES ? "error" : "warning",
+      });
+    }
+    run = [];
+  };
+
+  for (const line of sceneLines) {
+    if (!isGameplayLine(line)) continue;
+    if (isCited(line.lineNumber)) closeRun();
+    else run.push(line);
+  }
+  closeRun();
+
+  return gaps;
+}
@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  detectTranscriptFormat,
+  formatTimestamp,
+  parseTranscriptSegments,
+} from "./transcript-formats.js";
+import { getSceneTimeRange, preprocessTranscript } from "./preprocessing.js";
+
+const SRT = `1
+00:00:01,000 --> 00:00:04,500
+[SPEAKER_00]: Vous entrez dans la taverne.
+
+2
+01:02:03,250 --> 01:02:05,000
+[SPEAKER_01]: Je commande une bière.
+`;
+
+const VTT = `WEBVTT
+
+NOTE export de test
+
+00:01.500 --> 00:03.000
+<v SPEAKER_00>Bienvenue à Thylea.
+
+00:00:04.000 --> 00:00:06.000
+<v.loud SPEAKER_01>Je dégaine !
+`;
+
+test("detects the format from the content", () => {
+  assert.equal(detectTranscriptFormat(SRT), "srt");
+  assert.equal(detectTranscriptFormat(VTT), "vtt");
+  assert.equal(
+    detectTranscriptFormat(JSON.stringify({ segments: [{ start: 0, end: 1, text: "Salut" }] })),
+    "whisperx-json"
+  );
+  assert.equal(detectTranscriptFormat("[SPEAKER_00] Bonjour"), "text");
+  assert.equal(detectTranscriptFormat("[1, 2, 3]"), "text");
+});
+
+test("parses SRT cue timings and speakers", () => {
+  const { segments } = parseTranscriptSegments(SRT);
+  assert.deepEqual(segments, [
+    { speaker: "SPEAKER_00", text: "Vous entrez dans la taverne.", start: 1, end: 4.5 },
+    { speaker: "SPEAKER_01", text: "Je commande une bière.", start: 3723.25, end: 3725 },
+  ]);
+});
+
+test("parses WebVTT short timings and voice tags, skipping NOTE blocks", () => {
+  const { segments } = parseTranscriptSegments(VTT);
+  assert.deepEqual(segments, [
+    { speaker: "SPEAKER_00", text: "Bienvenue à Thylea.", start: 1.5, end: 3 },
+    { speaker: "SPEAKER_01", text: "Je dégaine !", start: 4, end: 6 },
+  ]);
+});
+
+test("keeps WhisperX segments without a valid time, untimed", () => {
+  const { format, segments } = parseTranscriptSegments(
+    JSON.stringify([
+      { start: 2, end: 3, text: " Bonjour ", speaker: "SPEAKER_00" },
+      { start: -1, end: "x", text: "Sans horodatage" },
+      { start: 4, end: 5, text: "   " },
+    ])
+  );
+  assert.equal(format, "whisperx-json");
+  assert.deepEqual(segments, [
+    { speaker: "SPEAKER_00", text: "Bonjour", start: 2, end: 3 },
+    { speaker: null, text: "Sans horodatage", start: undefined, end: undefined },
+  ]);
+});
+
+test("formats seconds as hh:mm:ss", () => {
+  assert.equal(formatTimestamp(0), "00:00:00");
+  assert.equal(formatTimestamp(3723.9), "01:02:03");
+});
+
+test("a scene time range spans its first and last timed lines", () => {
+  const { lines } = preprocessTranscript(SRT);
+  assert.deepEqual(getSceneTimeRange(lines, 1, 2), { startTime: 1, endTime: 3725 });
+  assert.equal(getSceneTimeRange(lines, 3, 10), undefined);
+  const text = preprocessTranscript("[SPEAKER_00] Bonjour\n[SPEAKER_01] Salut");
+  assert.equal(getSceneTimeRange(text.lines, 1, 2), undefined);
+});
@@ -0,0 +1,171 @@
+/**
+ * Formats d'entrée du transcript — code pur, pas de LLM.
+ *
+ * Détecte le format à partir du contenu (le nom de fichier n'est pas conservé
+ * dans l'état du workflow) et le ramène à une suite de segments :
+ * - texte brut : un segment par ligne, le speaker venant du motif de ligne
+ *   (speaker-patterns.ts) ;
+ * - JSON WhisperX / pyannote : { segments: [{ start, end, text, speaker }] } ou
+ *   directement le tableau de segments ;
+ * - SRT et WebVTT : un bloc de sous-titre par segment, le speaker venant du
+ *   préfixe "[SPEAKER_00]:" (export WhisperX) ou de la balise <v SPEAKER_00>.
+ */
+
+import { parseSpeakerLines } from "./speaker-patterns.js";
+
+export type TranscriptFormat = "text" | "whisperx-json" | "srt" | "vtt";
+
+export interface TranscriptSegment {
+  speaker: string | null;
+  text: string;
+  /** Secondes depuis le début de l'enregistrement. */
+  start?: number;
+  end?: number;
+  /** Jet reconnu par le format lui-même (résultat de /roll Roll20). */
+  isDiceRoll?: boolean;
+}
+
+// "[SPEAKER_00]: texte" (WhisperX) ou "SPEAKER_00: texte"
+const CUE_SPEAKER_RE = /^(?:\[([A-Z_]+\d+)\]:?|([A-Z_]+\d+):)\s*(.*)$/s;
+const VTT_VOICE_RE = /^<v(?:\.[^\s>]+)?\s+([^>]+)>\s*(.*)$/s;
+const SRT_TIMING_RE =
+  /^\s*\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}\s*-->/;
+const CUE_TIMING_RE =
+  /^((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/;
+
+type JsonSegment = {
+  start?: unknown;
+  end?: unknown;
+  text?: unknown;
+  speaker?: unknown;
+};
+
+function readJsonSegments(rawText: string): JsonSegment[] | null {
+  const trimmed = rawText.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    // "[SPEAKER_00] ..." commence aussi par un crochet
+    return null;
+  }
+
+  const segments = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { segments?: unknown })?.segments;
+  if (!Array.isArray(segments)) return null;
+  return segments.every((s) => s && typeof s === "object" && typeof s.text === "string")
+    ? (segments as JsonSegment[])
+    : null;
+}
+
+export function detectTranscriptFormat(rawText: string): TranscriptFormat {
+  const head = rawText.replace(/^\uFEFF/, "").trimStart();
+  if (/^WEBVTT\b/.test(head)) return "vtt";
+  if (SRT_TIMING_RE.test(head)) return "srt";
+  if (readJsonSegments(head)) return "whisperx-json";
+  return "text";
+}
+
+function toSeconds(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? value
+    : undefined;
+}
+
+/** "01:12:40,500", "01:12:40.500" or "12:40.500" → seconds. */
+function parseCueTimestamp(value: string): number {
+  const [clock, millis = "0"] = value.split(/[,.]/);
+  const parts = clock.split(":").map(Number);
+  const [hours, minutes, seconds] =
+    parts.length === 3 ? parts : [0, parts[0], parts[1]];
+  return hours * 3600 + minutes * 60 + seconds + Number(millis.padEnd(3, "0")) / 1000;
+}
+
+function splitSpeaker(text: string): { speaker: string | null; text: string } {
+  const voice = text.match(VTT_VOICE_RE);
+  if (voice) return { speaker: voice[1].trim(), text: voice[2] };
+  const tagged = text.match(CUE_SPEAKER_RE);
+  if (tagged) return { speaker: tagged[1] ?? tagged[2], text: tagged[3] };
+  return { speaker: null, text };
+}
+
+function parseCues(rawText: string): TranscriptSegment[] {
+  const blocks = rawText
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/);
+
+  const segments: TranscriptSegment[] = [];
+  for (const block of blocks) {
+    const blockLines = block.split("\n").map((l) => l.trim());
+    const timingIndex = blockLines.findIndex((l) => CUE_TIMING_RE.test(l));
+    // En-tête WEBVTT, blocs NOTE / STYLE, index SRT orphelins
+    if (timingIndex === -1) continue;
+
+    const timing = blockLines[timingIndex].match(CUE_TIMING_RE)!;
+    const cueText = blockLines
+      .slice(timingIndex + 1)
+      .filter(Boolean)
+      .join(" ");
+    const { speaker, text } = splitSpeaker(cueText);
+    const cleanText = text.replace(/<[^>]+>/g, "").trim();
+    if (!cleanText) continue;
+
+    segments.push({
+      speaker,
+      text: cleanText,
+      start: parseCueTimestamp(timing[1]),
+      end: parseCueTimestamp(timing[2]),
+    });
+  }
+  return segments;
+}
+
+function parseJsonSegments(segments: JsonSegment[]): TranscriptSegment[] {
+  return segments
+    .map((s) => ({
+      speaker: typeof s.speaker === "string" && s.speaker.trim() ? s.speaker.trim() : null,
+      text: String(s.text).trim(),
+      start: toSeconds(s.start),
+      end: toSeconds(s.end),
+    }))
+    .filter((s) => s.text);
+}
+
+/**
+ * Segments in transcript order. For plain text, `speakerPattern` is "auto",
+ * a preset id or a custom pattern, and the resolved pattern is returned.
+ */
+export function parseTranscriptSegments(
+  rawText: string,
+  speakerPattern = "auto"
+): {
+  format: TranscriptFormat;
+  speakerPattern?: string;
+  segments: TranscriptSegment[];
+} {
+  const format = detectTranscriptFormat(rawText);
+
+  switch (format) {
+    case "whisperx-json":
+      return { format, segments: parseJsonSegments(readJsonSegments(rawText) ?? []) };
+    case "srt":
+    case "vtt":
+      return { format, segments: parseCues(rawText) };
+    case "text": {
+      const { pattern, segments } = parseSpeakerLines(rawText, speakerPattern);
+      return { format, speakerPattern: pattern, segments };
+    }
+  }
+}
+
+/** Seconds → "01:12:40". */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  return [Math.floor(total / 3600), Math.floor((total % 3600) / 60), total % 60]
+    .map((n) => String(n).padStart(2, "0"))
+    .join(":");
+}
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { estimateTokens, splitTranscriptWindows } from "./transcript-windows.js";
+
+// Plancher du budget de l'analyst (MIN_WINDOW_TOKENS dans agents/analyst.ts)
+const MIN_WINDOW_TOKENS = 2_000;
+
+function transcript(lineCount: number, text = "On avance dans le couloir."): string {
+  return Array.from({ length: lineCount }, (_, i) => {
+    const speaker = i % 3 === 2 ? "UNTAGGED" : `SPEAKER_0${i % 3}`;
+    return `L${i + 1} [${speaker}] ${text}`;
+  }).join("\n");
+}
+
+test("a transcript under the minimum budget is a single window over every line", () => {
+  const text = transcript(30);
+  assert.ok(estimateTokens(text) < MIN_WINDOW_TOKENS);
+
+  const windows = splitTranscriptWindows(text, MIN_WINDOW_TOKENS);
+  assert.equal(windows.length, 1);
+  const { text: windowText, ...bounds } = windows[0];
+  assert.equal(windowText, text);
+  assert.deepEqual(bounds, {
+    index: 0,
+    startLine: 1,
+    endLine: 30,
+    speakerLineCounts: { SPEAKER_00: 10, SPEAKER_01: 10 },
+  });
+});
+
+test("lines without a line number are left out of the windows", () => {
+  const [window] = splitTranscriptWindows(`# En-tête\n${transcript(3)}\n\n`, MIN_WINDOW_TOKENS);
+  assert.equal(window.text, transcript(3));
+  assert.deepEqual([window.startLine, window.endLine], [1, 3]);
+});
+
+test("long transcripts overlap by at most a quarter of a window and cover every line", () => {
+  const text = transcript(400);
+  const windows = splitTranscriptWindows(text, MIN_WINDOW_TOKENS, 30);
+  assert.ok(windows.length > 1);
+  assert.equal(windows[0].startLine, 1);
+  assert.equal(windows.at(-1)!.endLine, 400);
+
+  for (let i = 1; i < windows.length; i++) {
+    const previous = windows[i - 1];
+    const overlap = previous.endLine - windows[i].startLine + 1;
+    const previousLength = previous.endLine - previous.startLine + 1;
+    assert.ok(overlap > 0, `fenêtre ${i} sans chevauchement`);
+    assert.ok(overlap <= Math.min(30, Math.floor(previousLength / 4)), `fenêtre ${i}`);
+  }
+  for (const window of windows.slice(0, -1)) {
+    assert.ok(estimateTokens(window.text) <= MIN_WINDOW_TOKENS);
+  }
+});
+
+test("a line longer than the budget still gets a window of its own", () => {
+  const text = transcript(3, "x".repeat(3 * 50));
+  const windows = splitTranscriptWindows(text, 10);
+  assert.deepEqual(
+    windows.map((w) => [w.startLine, w.endLine]),
+    [
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ]
+  );
+});
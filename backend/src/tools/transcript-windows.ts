@@ -0,0 +1,80 @@
+/**
+ * Découpage d'un transcript prétraité ("L12 [SPEAKER_00] texte") en fenêtres
+ * de lignes qui se chevauchent, pour les transcripts trop longs pour la
+ * fenêtre de contexte du modèle.
+ */
+
+export type TranscriptWindow = {
+  index: number;
+  startLine: number;
+  endLine: number;
+  text: string;
+  /** Nombre de répliques par speaker dans la fenêtre (vote du speakerMap). */
+  speakerLineCounts: Record<string, number>;
+};
+
+// Approximation volontairement pessimiste (texte français, tags de lignes)
+const CHARS_PER_TOKEN = 3;
+const DEFAULT_OVERLAP_LINES = 30;
+
+const NUMBERED_LINE_RE = /^L(\d+) \[([^\]]+)\]/;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Splits the transcript into windows of at most `maxTokens` (estimated), each
+ * starting `overlapLines` lines before the end of the previous one.
+ */
+export function splitTranscriptWindows(
+  preprocessed: string,
+  maxTokens: number,
+  overlapLines = DEFAULT_OVERLAP_LINES
+): TranscriptWindow[] {
+  const lines = preprocessed
+    .split("\n")
+    .map((raw) => ({ raw, match: raw.match(NUMBERED_LINE_RE) }))
+    .filter((l): l is { raw: string; match: RegExpMatchArray } => !!l.match)
+    .map((l) => ({
+      raw: l.raw,
+      lineNumber: Number.parseInt(l.match[1], 10),
+      speaker: l.match[2],
+      tokens: estimateTokens(l.raw) + 1,
+    }));
+
+  const windows: TranscriptWindow[] = [];
+  let start = 0;
+  while (start < lines.length) {
+    let end = start;
+    let tokens = 0;
+    while (
+      end < lines.length &&
+      (end === start || tokens + lines[end].tokens <= maxTokens)
+    ) {
+      tokens += lines[end].tokens;
+      end++;
+    }
+
+    const windowLines = lines.slice(start, end);
+    const speakerLineCounts: Record<string, number> = {};
+    for (const line of windowLines) {
+      if (line.speaker === "UNTAGGED") continue;
+      speakerLineCounts[line.speaker] = (speakerLineCounts[line.speaker] ?? 0) + 1;
+    }
+    windows.push({
+      index: windows.length,
+      startLine: windowLines[0].lineNumber,
+      endLine: windowLines[windowLines.length - 1].lineNumber,
+      text: windowLines.map((l) => l.raw).join("\n"),
+      speakerLineCounts,
+    });
+
+    if (end >= lines.length) break;
+    // Le chevauchement ne dépasse jamais le quart de la fenêtre, pour avancer
+    const overlap = Math.min(overlapLines, Math.floor((end - start) / 4));
+    start = Math.max(start + 1, end - overlap);
+  }
+
+  return windows;
+}
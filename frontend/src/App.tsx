@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Scroll, Sparkles, AlertCircle } from "lucide-react";
 import DropZone from "./components/DropZone";
 import UniverseSelector from "./components/UniverseSelector";
@@ -7,14 +7,21 @@ import ProgressPanel from "./components/ProgressPanel";
 import ReportViewer from "./components/ReportViewer";
 import ReportHistoryPanel from "./components/ReportHistoryPanel";
 import ProcessingJobsPanel from "./components/ProcessingJobsPanel";
+import RunEstimatePanel from "./components/RunEstimatePanel";
+import SpeakerAssignmentPanel from "./components/SpeakerAssignmentPanel";
+import SpeakerReconciliationPanel from "./components/SpeakerReconciliationPanel";
+import GlossaryCorrectionsPanel from "./components/GlossaryCorrectionsPanel";
 import { useSSE } from "./hooks/useSSE";
 import {
   checkHealth,
   listProcessJobs,
+  resumeProcessJob,
   fetchReports,
   fetchReport,
   deleteReportApi,
   correctReport,
+  estimateProcessRun,
+  previewTranscript,
 } from "./lib/api";
 import type {
   PlayerInfo,
@@ -22,15 +29,22 @@ import type {
   ProcessJobSummary,
   ReportSummary,
   ReportDetail,
+  RunEstimate,
+  TranscriptPreview,
 } from "./lib/api";
 
 type AppStep = "config" | "processing" | "result";
 
+// Jobs shown in the processing panel (running ones and recent history)
+const RECENT_JOBS_LIMIT = 10;
+// Délai avant de relancer l'estimation et l'aperçu pendant une saisie
+const ESTIMATE_DEBOUNCE_MS = 500;
+
 export default function App() {
   const [step, setStep] = useState<AppStep>("config");
 
   // Config state
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [selectedUniverse, setSelectedUniverse] = useState("mage");
   const [universeContext, setUniverseContext] = useState("");
   const [sessionHistory, setSessionHistory] = useState("");
@@ -38,6 +52,18 @@ export default function App() {
     { playerName: "", characterName: "", speakerHint: "" },
   ]);
   const [runningJobs, setRunningJobs] = useState<ProcessJobSummary[]>([]);
+  const [estimate, setEstimate] = useState<RunEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<TranscriptPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [speakerPattern, setSpeakerPattern] = useState("auto");
+  const [applyGlossary, setApplyGlossary] = useState(true);
+  const [fuzzyGlossary, setFuzzyGlossary] = useState(false);
+  const [tableTalkTagging, setTableTalkTagging] = useState(false);
+  // Par partie : speaker du fichier → speaker de la session
+  const [speakerAliases, setSpeakerAliases] = useState<Array<Record<string, string>>>([]);
 
   // Report state (SQLite-backed)
   const [reportHistory, setReportHistory] = useState<ReportSummary[]>([]);
@@ -79,7 +105,7 @@ export default function App() {
 
   const refreshRunningJobs = useCallback(async () => {
     try {
-      const jobs = await listProcessJobs(["pending", "running"]);
+      const jobs = await listProcessJobs(undefined, RECENT_JOBS_LIMIT);
       setRunningJobs(jobs);
     } catch {
       // Ignore transient API errors
@@ -134,24 +160,126 @@ export default function App() {
     });
   }, [sse.result, sse.resultData, sse.isProcessing, refreshReportHistory]);
 
-  // ── Actions ────────────────────────────────────────────────────────────────
-
-  const handleProcess = async () => {
-    if (!file) return;
+  // ── Process config (shared by preview, estimate and job creation) ──────────
 
-    setStep("processing");
+  // Section "## Glossaire" du fichier univers, comme backend/src/tools/glossary.ts
+  const hasGlossary = useMemo(
+    () => /^#{1,6}\s+(?:\d+\.\s*)?Glossaire\b/im.test(universeContext),
+    [universeContext]
+  );
 
-    const config: ProcessConfig = {
-      transcript: file,
-      universeName: selectedUniverse,
+  const processConfig = useMemo<ProcessConfig | null>(
+    () =>
+      files.length > 0
+        ? {
+            transcripts: files,
+            speakerAliases,
+            universeName: selectedUniverse,
+            universeContext,
+            sessionHistory,
+            playerInfo: players.filter((p) =>
+              p.isGameMaster
+                ? p.playerName.trim() || p.speakerHint?.trim()
+                : p.playerName.trim() && p.characterName.trim()
+            ),
+            speakerPattern: speakerPattern || "auto",
+            applyGlossary,
+            fuzzyGlossary,
+            tableTalkTagging,
+          }
+        : null,
+    [
+      files,
+      speakerAliases,
+      selectedUniverse,
       universeContext,
       sessionHistory,
-      playerInfo: players.filter(
-        (p) => p.playerName.trim() && p.characterName.trim()
-      ),
+      players,
+      speakerPattern,
+      applyGlossary,
+      fuzzyGlossary,
+      tableTalkTagging,
+    ]
+  );
+
+  // ── Speaker preview (roster assignment) ────────────────────────────────────
+
+  useEffect(() => {
+    setPreview(null);
+    setSpeakerAliases([]);
+  }, [files]);
+
+  useEffect(() => {
+    setPreviewError(null);
+    if (!processConfig) return;
+
+    const abortController = new AbortController();
+    setIsPreviewing(true);
+    // Debounce : motif personnalisé et roster sont saisis au clavier
+    const timeoutId = window.setTimeout(() => {
+      previewTranscript(processConfig, abortController.signal)
+        .then(setPreview)
+        .catch((err) => {
+          if (abortController.signal.aborted) return;
+          setPreview(null);
+          setPreviewError(
+            `Impossible de lire les speakers de ce transcript : ${
+              err instanceof Error ? err.message : String(err)
+            }`
+          );
+        })
+        .finally(() => {
+          if (!abortController.signal.aborted) setIsPreviewing(false);
+        });
+    }, ESTIMATE_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+      abortController.abort();
+    };
+  }, [processConfig]);
+
+  // ── Pre-run estimate ───────────────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!processConfig) {
+      setEstimate(null);
+      setEstimateError(null);
+      return;
+    }
+
+    const abortController = new AbortController();
+    setIsEstimating(true);
+    const timeoutId = window.setTimeout(() => {
+      estimateProcessRun(processConfig, abortController.signal)
+        .then((next) => {
+          setEstimate(next);
+          setEstimateError(null);
+        })
+        .catch(() => {
+          if (abortController.signal.aborted) return;
+          setEstimate(null);
+          setEstimateError("Estimation indisponible pour ce transcript.");
+        })
+        .finally(() => {
+          if (!abortController.signal.aborted) setIsEstimating(false);
+        });
+    }, ESTIMATE_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+      abortController.abort();
     };
+  }, [processConfig]);
+
+  // ── Actions ────────────────────────────────────────────────────────────────
 
-    await sse.process(config);
+  const handleProcess = async () => {
+    if (!processConfig) return;
+
+    setStep("processing");
+
+    await sse.process(processConfig);
   };
 
   const handleReset = () => {
@@ -175,6 +303,24 @@ export default function App() {
     void sse.followJob(jobId);
   };
 
+  const handleCancelJob = async (jobId: string) => {
+    await sse.cancelJob(jobId);
+    void refreshRunningJobs();
+  };
+
+  const handleResumeJob = async (jobId: string) => {
+    try {
+      await resumeProcessJob(jobId);
+      setStep("processing");
+      void sse.followJob(jobId);
+      void refreshRunningJobs();
+    } catch (err) {
+      setReportError(
+        err instanceof Error ? err.message : "Impossible de reprendre ce job."
+      );
+    }
+  };
+
   const handleDeleteHistoryReport = async (reportId: string) => {
     try {
       await deleteReportApi(reportId);
@@ -270,9 +416,10 @@ export default function App() {
             <p className="text-xs mt-0.5">
               Configure ta{" "}
               <code className="rounded bg-amber-100 px-1">GOOGLE_API_KEY</code>{" "}
+              (ou la clef du fournisseur choisi via{" "}
+              <code className="rounded bg-amber-100 px-1">LLM_PROVIDER</code>)
               dans le fichier{" "}
-              <code className="rounded bg-amber-100 px-1">.env</code> pour
-              utiliser Gemini.
+              <code className="rounded bg-amber-100 px-1">.env</code>.
             </p>
           </div>
         </div>
@@ -297,7 +444,7 @@ export default function App() {
       {/* Config step */}
       {step === "config" && (
         <div className="space-y-5">
-          <DropZone file={file} onFileChange={setFile} />
+          <DropZone files={files} onFilesChange={setFiles} />
           <UniverseSelector
             selectedUniverse={selectedUniverse}
             universeContext={universeContext}
@@ -314,13 +461,62 @@ export default function App() {
               );
             }}
           />
+          {preview && preview.parts.length > 1 && (
+            <SpeakerReconciliationPanel
+              parts={preview.parts}
+              aliases={speakerAliases}
+              onChange={setSpeakerAliases}
+            />
+          )}
+          {preview && (preview.glossaryCorrections.length > 0 || hasGlossary) && (
+            <GlossaryCorrectionsPanel
+              corrections={preview.glossaryCorrections}
+              apply={applyGlossary}
+              onApplyChange={setApplyGlossary}
+              fuzzy={fuzzyGlossary}
+              onFuzzyChange={setFuzzyGlossary}
+            />
+          )}
+          {files.length > 0 && (
+            <SpeakerAssignmentPanel
+              preview={preview}
+              isLoading={isPreviewing}
+              error={previewError}
+              speakerPattern={speakerPattern}
+              onSpeakerPatternChange={setSpeakerPattern}
+              players={players}
+              onChange={setPlayers}
+            />
+          )}
           <PlayerForm players={players} onChange={setPlayers} />
 
           {/* Submit */}
-          <div className="pt-2">
+          <div className="pt-2 space-y-3">
+            {files.length > 0 && (
+              <label className="flex items-center gap-2 text-xs text-parchment-700">
+                <input
+                  type="checkbox"
+                  checked={tableTalkTagging}
+                  onChange={(e) => setTableTalkTagging(e.target.checked)}
+                />
+                Repérer le hors-jeu avec le modèle (appel LLM supplémentaire)
+                {preview && preview.stats.tableTalkCount > 0 && (
+                  <span className="text-parchment-500">
+                    · {preview.stats.tableTalkCount} ligne(s) déjà repérée(s)
+                  </span>
+                )}
+              </label>
+            )}
+            {files.length > 0 && (
+              <RunEstimatePanel
+                estimate={estimate}
+                isLoading={isEstimating}
+                error={estimateError}
+              />
+            )}
             <button
               onClick={handleProcess}
-              disabled={!file || apiReady === false}
+              disabled={files.length === 0 || apiReady === false}
               className="btn-primary w-full justify-center text-base"
             >
               <Sparkles className="h-4 w-4" />
@@ -338,9 +534,14 @@ export default function App() {
             currentStep={sse.currentStep}
             error={sse.error}
             isProcessing={sse.isProcessing}
+            isCancelled={sse.isCancelled}
+            usage={sse.usage}
+            onCancel={
+              sse.activeJobId ? () => void handleCancelJob(sse.activeJobId!) : undefined
+            }
           />
 
-          {sse.error && (
+          {(sse.error || sse.isCancelled) && (
             <button
               onClick={handleReset}
               className="btn-secondary w-full justify-center"
@@ -388,6 +589,8 @@ export default function App() {
           jobs={runningJobs}
           activeJobId={sse.activeJobId}
           onFollowJob={handleFollowJob}
+          onResumeJob={handleResumeJob}
+          onCancelJob={handleCancelJob}
         />
         <ReportHistoryPanel
           history={reportHistory}
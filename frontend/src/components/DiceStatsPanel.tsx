@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { Dices, Loader2, Skull } from "lucide-react";
+import { fetchReportDiceStats, type DiceStats, type ReportDiceStats } from "../lib/api";
+
+interface DiceStatsPanelProps {
+  reportId: string;
+}
+
+type Scope = "session" | "campaign";
+
+function StatBadge({ label, value }: { label: string; value: string | number }) {
+  return (
+    <span className="inline-flex items-center gap-1 rounded-full bg-parchment-100 px-2 py-0.5 text-xs text-parchment-700">
+      <span className="font-semibold text-parchment-900 tabular-nums">{value}</span>
+      {label}
+    </span>
+  );
+}
+
+function DiceStatsView({ stats }: { stats: DiceStats }) {
+  if (stats.totals.rolls === 0) {
+    return <p className="text-sm text-parchment-500">Aucun jet de dés relevé.</p>;
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-wrap gap-2">
+        <StatBadge label="jet(s)" value={stats.totals.rolls} />
+        <StatBadge label="réussite(s) critique(s)" value={stats.totals.criticalSuccesses} />
+        <StatBadge label="échec(s) critique(s)" value={stats.totals.criticalFailures} />
+        {stats.totals.averageD20 !== null && (
+          <StatBadge label="de moyenne au d20" value={stats.totals.averageD20} />
+        )}
+      </div>
+
+      {stats.mostCursedRoll && (
+        <div className="rounded-lg border border-red-200 bg-red-50/70 px-4 py-3">
+          <p className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-red-700">
+            <Skull className="h-4 w-4" />
+            Le jet le plus maudit
+          </p>
+          <p className="mt-1 text-sm text-parchment-900">
+            <strong>{stats.mostCursedRoll.character}</strong> — {stats.mostCursedRoll.skill} :{" "}
+            {stats.mostCursedRoll.result}
+          </p>
+          <p className="text-xs text-parchment-500">
+            {stats.mostCursedRoll.transcriptName} · {stats.mostCursedRoll.sceneTitle} ·{" "}
+            {stats.mostCursedRoll.context}
+          </p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-parchment-200 text-left text-parchment-500">
+              <th className="py-2 pr-3 font-medium">Personnage</th>
+              <th className="py-2 pr-3 font-medium text-right">Jets</th>
+              <th className="py-2 pr-3 font-medium text-right">Réussites</th>
+              <th className="py-2 pr-3 font-medium text-right">Critiques</th>
+              <th className="py-2 pr-3 font-medium text-right">Échecs crit.</th>
+              <th className="py-2 pr-3 font-medium text-right">Moy. d20</th>
+              <th className="py-2 font-medium">Compétences favorites</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.characters.map((c) => (
+              <tr key={c.character} className="border-b border-parchment-100 text-parchment-700">
+                <td className="py-2 pr-3 font-medium text-parchment-900">{c.character}</td>
+                <td className="py-2 pr-3 text-right tabular-nums">{c.rolls}</td>
+                <td className="py-2 pr-3 text-right tabular-nums">
+                  {c.successes}/{c.successes + c.failures}
+                </td>
+                <td className="py-2 pr-3 text-right tabular-nums text-green-700">
+                  {c.criticalSuccesses}
+                </td>
+                <td className="py-2 pr-3 text-right tabular-nums text-red-700">
+                  {c.criticalFailures}
+                </td>
+                <td className="py-2 pr-3 text-right tabular-nums">
+                  {c.averageD20 ?? "—"}
+                  {c.d20Count > 0 && (
+                    <span className="text-parchment-400"> ({c.d20Count})</span>
+                  )}
+                </td>
+                <td className="py-2 text-parchment-600">
+                  {c.topSkills.map((s) => `${s.skill} ×${s.count}`).join(", ") || "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/** Statistiques de dés du rapport, ou de la campagne (même univers). */
+export default function DiceStatsPanel({ reportId }: DiceStatsPanelProps) {
+  const [stats, setStats] = useState<ReportDiceStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scope, setScope] = useState<Scope>("session");
+
+  useEffect(() => {
+    let cancelled = false;
+    setStats(null);
+    setError(null);
+    fetchReportDiceStats(reportId)
+      .then((loaded) => {
+        if (!cancelled) setStats(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Impossible de charger les statistiques de dés.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reportId]);
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Dices className="h-5 w-5 text-parchment-600" />
+          <h3 className="text-sm font-semibold text-parchment-900">Statistiques de dés</h3>
+        </div>
+        {stats && (
+          <div className="flex gap-1 rounded-lg bg-parchment-100 p-0.5 text-xs">
+            {(["session", "campaign"] as const).map((s) => (
+              <button
+                key={s}
+                onClick={() => setScope(s)}
+                className={`rounded-md px-2.5 py-1 transition-colors ${
+                  scope === s
+                    ? "bg-white font-medium text-parchment-900 shadow-sm"
+                    : "text-parchment-600 hover:text-parchment-900"
+                }`}
+              >
+                {s === "session"
+                  ? "Cette session"
+                  : `Campagne ${stats.campaign.universeName} (${stats.campaign.sessions} session(s))`}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {!stats && !error && (
+        <p className="flex items-center gap-1 text-xs text-parchment-500">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Chargement des statistiques...
+        </p>
+      )}
+      {stats && <DiceStatsView stats={scope === "session" ? stats.session : stats.campaign} />}
+    </div>
+  );
+}
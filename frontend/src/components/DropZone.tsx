@@ -1,25 +1,42 @@
 import { useCallback, useState, useRef } from "react";
-import { Upload, FileText, X } from "lucide-react";
+import { Upload, FileText, X, ChevronUp, ChevronDown, Plus } from "lucide-react";
+
+// Texte "[SPEAKER_00] ...", JSON WhisperX/pyannote, sous-titres SRT et WebVTT
+const TRANSCRIPT_EXTENSIONS = [".txt", ".text", ".json", ".srt", ".vtt"];
+// Même limite que le backend (MAX_TRANSCRIPT_PARTS)
+const MAX_PARTS = 10;
+
+function isTranscriptFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return TRANSCRIPT_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
 
 interface DropZoneProps {
-  file: File | null;
-  onFileChange: (file: File | null) => void;
+  /** Parties de la session, dans l'ordre de l'enregistrement. */
+  files: File[];
+  onFilesChange: (files: File[]) => void;
 }
 
-export default function DropZone({ file, onFileChange }: DropZoneProps) {
+export default function DropZone({ files, onFilesChange }: DropZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const addFiles = useCallback(
+    (added: File[]) => {
+      const accepted = added.filter(isTranscriptFile);
+      if (accepted.length === 0) return;
+      onFilesChange([...files, ...accepted].slice(0, MAX_PARTS));
+    },
+    [files, onFilesChange]
+  );
+
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
       setIsDragging(false);
-      const dropped = e.dataTransfer.files[0];
-      if (dropped && dropped.type === "text/plain") {
-        onFileChange(dropped);
-      }
+      addFiles(Array.from(e.dataTransfer.files));
     },
-    [onFileChange]
+    [addFiles]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -36,34 +53,93 @@ export default function DropZone({ file, onFileChange }: DropZoneProps) {
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selected = e.target.files?.[0];
-    if (selected) onFileChange(selected);
+    addFiles(Array.from(e.target.files ?? []));
+    // Permet de re-sélectionner le même fichier après suppression
+    e.target.value = "";
   };
 
-  if (file) {
+  const moveFile = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= files.length) return;
+    const reordered = [...files];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onFilesChange(reordered);
+  };
+
+  const fileInput = (
+    <input
+      ref={inputRef}
+      type="file"
+      multiple
+      accept={TRANSCRIPT_EXTENSIONS.join(",")}
+      onChange={handleInputChange}
+      className="hidden"
+    />
+  );
+
+  if (files.length > 0) {
     return (
-      <div className="card p-6">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <div className="rounded-lg bg-parchment-100 p-2.5">
-              <FileText className="h-5 w-5 text-parchment-700" />
+      <div
+        className="card p-6 space-y-3"
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+      >
+        {fileInput}
+        {files.map((file, index) => (
+          <div key={`${file.name}-${index}`} className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="rounded-lg bg-parchment-100 p-2.5">
+                <FileText className="h-5 w-5 text-parchment-700" />
+              </div>
+              <div>
+                <p className="text-sm font-semibold text-parchment-900">
+                  {files.length > 1 && (
+                    <span className="mr-1.5 text-parchment-500">Partie {index + 1}</span>
+                  )}
+                  {file.name}
+                </p>
+                <p className="text-xs text-parchment-500">
+                  {(file.size / 1024).toFixed(1)} Ko
+                </p>
+              </div>
             </div>
-            <div>
-              <p className="text-sm font-semibold text-parchment-900">
-                {file.name}
-              </p>
-              <p className="text-xs text-parchment-500">
-                {(file.size / 1024).toFixed(1)} Ko
-              </p>
+            <div className="flex items-center gap-1">
+              {files.length > 1 && (
+                <>
+                  <button
+                    onClick={() => moveFile(index, -1)}
+                    disabled={index === 0}
+                    title="Monter"
+                    className="rounded-lg p-1.5 text-parchment-400 transition-colors hover:bg-parchment-100 hover:text-parchment-600 disabled:opacity-30"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => moveFile(index, 1)}
+                    disabled={index === files.length - 1}
+                    title="Descendre"
+                    className="rounded-lg p-1.5 text-parchment-400 transition-colors hover:bg-parchment-100 hover:text-parchment-600 disabled:opacity-30"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => onFilesChange(files.filter((_, i) => i !== index))}
+                className="rounded-lg p-1.5 text-parchment-400 transition-colors hover:bg-parchment-100 hover:text-parchment-600"
+              >
+                <X className="h-4 w-4" />
+              </button>
             </div>
           </div>
-          <button
-            onClick={() => onFileChange(null)}
-            className="rounded-lg p-1.5 text-parchment-400 transition-colors hover:bg-parchment-100 hover:text-parchment-600"
-          >
-            <X className="h-4 w-4" />
+        ))}
+        {files.length < MAX_PARTS && (
+          <button onClick={handleClick} className="btn-secondary text-xs">
+            <Plus className="h-3.5 w-3.5" />
+            Ajouter une partie (après la pause...)
           </button>
-        </div>
+        )}
       </div>
     );
   }
@@ -80,13 +156,7 @@ export default function DropZone({ file, onFileChange }: DropZoneProps) {
           : "border-parchment-300 hover:border-parchment-400 hover:bg-parchment-50/50"
       }`}
     >
-      <input
-        ref={inputRef}
-        type="file"
-        accept=".txt,.text"
-        onChange={handleInputChange}
-        className="hidden"
-      />
+      {fileInput}
       <Upload
         className={`mx-auto mb-4 h-10 w-10 ${
           isDragging ? "text-parchment-600" : "text-parchment-400"
@@ -96,7 +166,8 @@ export default function DropZone({ file, onFileChange }: DropZoneProps) {
         Glisse ton fichier transcript ici
       </p>
       <p className="mt-1 text-xs text-parchment-400">
-        ou clique pour parcourir (.txt)
+        ou clique pour parcourir (.txt, .json, .srt, .vtt) — plusieurs fichiers
+        pour une session enregistrée en plusieurs parties
       </p>
     </div>
   );
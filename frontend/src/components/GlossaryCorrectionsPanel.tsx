@@ -0,0 +1,79 @@
+import { SpellCheck } from "lucide-react";
+import type { GlossaryCorrection } from "../lib/api";
+
+interface GlossaryCorrectionsPanelProps {
+  corrections: GlossaryCorrection[];
+  apply: boolean;
+  onApplyChange: (apply: boolean) => void;
+  /** Rapproche aussi les graphies non déclarées (faute de frappe). */
+  fuzzy: boolean;
+  onFuzzyChange: (fuzzy: boolean) => void;
+}
+
+// Au-delà, la liste des lignes est tronquée
+const MAX_LISTED_LINES = 5;
+
+export default function GlossaryCorrectionsPanel({
+  corrections,
+  apply,
+  onApplyChange,
+  fuzzy,
+  onFuzzyChange,
+}: GlossaryCorrectionsPanelProps) {
+  return (
+    <div className="card p-6 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <SpellCheck className="h-5 w-5 text-parchment-600" />
+          <h3 className="text-sm font-semibold text-parchment-900">Noms propres</h3>
+          <span className="text-xs text-parchment-500">
+            d'après le glossaire de l'univers
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label
+            className="flex items-center gap-1.5 text-xs text-parchment-700"
+            title="Graphies proches d'un nom du glossaire sans y être déclarées ; jamais un pluriel, un féminin ou un mot courant du transcript"
+          >
+            <input
+              type="checkbox"
+              checked={fuzzy}
+              onChange={(e) => onFuzzyChange(e.target.checked)}
+            />
+            Fautes non déclarées
+          </label>
+          <label className="flex items-center gap-1.5 text-xs text-parchment-700">
+            <input
+              type="checkbox"
+              checked={apply}
+              onChange={(e) => onApplyChange(e.target.checked)}
+            />
+            Corriger avant l'analyse
+          </label>
+        </div>
+      </div>
+
+      {corrections.length === 0 && (
+        <p className="text-xs text-parchment-500">Aucun nom propre à corriger.</p>
+      )}
+      <ul className="space-y-0.5">
+        {corrections.map((correction) => (
+          <li key={`${correction.from}-${correction.to}`} className="text-xs text-parchment-600">
+            <span className={apply ? "line-through text-parchment-400" : ""}>
+              {correction.from}
+            </span>{" "}
+            → <span className="font-medium text-parchment-900">{correction.to}</span>{" "}
+            <span className="text-parchment-400">
+              ×{correction.count} ·{" "}
+              {correction.lines
+                .slice(0, MAX_LISTED_LINES)
+                .map((line) => `L${line}`)
+                .join(", ")}
+              {correction.lines.length > MAX_LISTED_LINES && "…"}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { Users, Plus, Trash2 } from "lucide-react";
-import type { PlayerInfo } from "../lib/api";
+import type { PlayerInfo, Pronouns } from "../lib/api";
 
 interface PlayerFormProps {
   players: PlayerInfo[];
@@ -25,6 +25,14 @@ export default function PlayerForm({ players, onChange }: PlayerFormProps) {
     onChange(updated);
   };
 
+  const updatePronouns = (index: number, value: string) => {
+    onChange(
+      players.map((p, i) =>
+        i === index ? { ...p, pronouns: (value || undefined) as Pronouns | undefined } : p
+      )
+    );
+  };
+
   return (
     <div className="card p-6 space-y-4">
       <div className="flex items-center justify-between">
@@ -50,7 +58,7 @@ export default function PlayerForm({ players, onChange }: PlayerFormProps) {
         {players.map((player, index) => (
           <div
             key={index}
-            className="grid grid-cols-[1fr_1fr_auto_auto] gap-2 items-end"
+            className="grid grid-cols-[1fr_1fr_auto_auto_auto] gap-2 items-end"
           >
             <div>
               {index === 0 && <label className="label">Joueur</label>}
@@ -60,21 +68,42 @@ export default function PlayerForm({ players, onChange }: PlayerFormProps) {
                 onChange={(e) =>
                   updatePlayer(index, "playerName", e.target.value)
                 }
-                placeholder="Emilie"
+                placeholder={player.isGameMaster ? "Nom du MJ" : "Emilie"}
                 className="input"
               />
             </div>
             <div>
               {index === 0 && <label className="label">Personnage (PJ)</label>}
-              <input
-                type="text"
-                value={player.characterName}
-                onChange={(e) =>
-                  updatePlayer(index, "characterName", e.target.value)
-                }
-                placeholder="Yumi"
-                className="input"
-              />
+              {player.isGameMaster ? (
+                <span className="inline-flex items-center rounded-full bg-parchment-100 px-3 py-2 text-xs font-medium text-parchment-700">
+                  MJ
+                </span>
+              ) : (
+                <input
+                  type="text"
+                  value={player.characterName}
+                  onChange={(e) =>
+                    updatePlayer(index, "characterName", e.target.value)
+                  }
+                  placeholder="Yumi"
+                  className="input"
+                />
+              )}
+            </div>
+            <div>
+              {index === 0 && <label className="label text-xs">Pronoms</label>}
+              <select
+                value={player.pronouns || ""}
+                onChange={(e) => updatePronouns(index, e.target.value)}
+                disabled={player.isGameMaster}
+                className="input w-20 text-xs"
+                title="Accord en genre du personnage dans le compte-rendu"
+              >
+                <option value="">—</option>
+                <option value="il">il</option>
+                <option value="elle">elle</option>
+                <option value="iel">iel</option>
+              </select>
             </div>
             <div>
               {index === 0 && (
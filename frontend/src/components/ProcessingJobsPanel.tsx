@@ -1,10 +1,24 @@
-import { Activity, Clock3, Eye } from "lucide-react";
-import type { ProcessJobSummary } from "../lib/api";
+import { useEffect, useState } from "react";
+import {
+  Activity,
+  Clock3,
+  Eye,
+  History,
+  Loader2,
+  RotateCcw,
+  Square,
+} from "lucide-react";
+import { fetchProcessJobEvents, fetchProcessJobUsage } from "../lib/api";
+import type { ProcessJobEvent, ProcessJobSummary } from "../lib/api";
+import { formatCostUsd } from "../lib/usage";
+import UsageBreakdown from "./UsageBreakdown";
 
 interface ProcessingJobsPanelProps {
   jobs: ProcessJobSummary[];
   activeJobId: string | null;
   onFollowJob: (jobId: string) => void;
+  onResumeJob: (jobId: string) => void;
+  onCancelJob: (jobId: string) => void;
 }
 
 const dateFormatter = new Intl.DateTimeFormat("fr-FR", {
@@ -17,6 +31,109 @@ function formatDate(value: string): string {
   return Number.isNaN(parsed.getTime()) ? value : dateFormatter.format(parsed);
 }
 
+const timeFormatter = new Intl.DateTimeFormat("fr-FR", {
+  dateStyle: "short",
+  timeStyle: "medium",
+});
+
+function formatTime(value: string): string {
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? value : timeFormatter.format(parsed);
+}
+
+function eventLabel(event: ProcessJobEvent): string {
+  const data = event.data ?? {};
+  switch (event.type) {
+    case "step:scenes": {
+      const scenes = Array.isArray(data.scenes) ? data.scenes : [];
+      return data.group === "validator"
+        ? `${scenes.length} scène(s) à valider`
+        : `${scenes.length} scène(s) à résumer`;
+    }
+    case "result":
+      return "Compte-rendu enregistré";
+    default:
+      if (typeof data.label === "string") return data.label;
+      if (typeof data.message === "string") return data.message;
+      return event.type;
+  }
+}
+
+function eventTone(type: string): string {
+  switch (type) {
+    case "error":
+      return "text-red-700";
+    case "cancelled":
+      return "text-parchment-500";
+    case "done":
+    case "result":
+      return "text-green-700";
+    default:
+      return "text-parchment-700";
+  }
+}
+
+function JobTimeline({ jobId }: { jobId: string }) {
+  const [events, setEvents] = useState<ProcessJobEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchProcessJobEvents(jobId)
+      .then((loaded) => {
+        if (!cancelled) setEvents(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Impossible de charger le journal du job.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId]);
+
+  if (error) {
+    return <p className="mt-2 text-xs text-red-600">{error}</p>;
+  }
+
+  if (events === null) {
+    return (
+      <p className="mt-2 flex items-center gap-1 text-xs text-parchment-500">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Chargement du journal...
+      </p>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <p className="mt-2 text-xs text-parchment-500">
+        Aucun événement enregistré pour ce job.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <UsageBreakdown sourceId={jobId} load={fetchProcessJobUsage} />
+      <ol className="mt-2 max-h-64 space-y-0.5 overflow-y-auto border-l-2 border-parchment-200 pl-3 text-xs">
+        {events
+          .filter(
+            (event) =>
+              event.type !== "step:progress" && event.type !== "step:usage"
+          )
+          .map((event) => (
+            <li key={event.id} className="flex gap-2">
+              <span className="flex-shrink-0 tabular-nums text-parchment-400">
+                {formatTime(event.timestamp)}
+              </span>
+              <span className={eventTone(event.type)}>{eventLabel(event)}</span>
+            </li>
+          ))}
+      </ol>
+    </>
+  );
+}
+
 function statusLabel(status: ProcessJobSummary["status"]): string {
   switch (status) {
     case "pending":
@@ -27,6 +144,10 @@ function statusLabel(status: ProcessJobSummary["status"]): string {
       return "Terminé";
     case "failed":
       return "En erreur";
+    case "interrupted":
+      return "Interrompu";
+    case "cancelled":
+      return "Annulé";
     default:
       return status;
   }
@@ -36,7 +157,13 @@ export default function ProcessingJobsPanel({
   jobs,
   activeJobId,
   onFollowJob,
+  onResumeJob,
+  onCancelJob,
 }: ProcessingJobsPanelProps) {
+  const [openTimelineJobId, setOpenTimelineJobId] = useState<string | null>(
+    null
+  );
+
   if (jobs.length === 0) return null;
 
   return (
@@ -44,13 +171,20 @@ export default function ProcessingJobsPanel({
       <div className="flex items-center gap-2">
         <Activity className="h-5 w-5 text-parchment-600" />
         <h3 className="text-sm font-semibold text-parchment-900">
-          Jobs de traitement en cours
+          Jobs de traitement
         </h3>
       </div>
 
       <div className="space-y-2">
         {jobs.map((job) => {
           const isActive = activeJobId === job.id;
+          const isResumable =
+            job.status === "failed" || job.status === "interrupted";
+          const isFinished =
+            isResumable ||
+            job.status === "completed" ||
+            job.status === "cancelled";
+          const isTimelineOpen = openTimelineJobId === job.id;
           return (
             <div
               key={job.id}
@@ -73,19 +207,65 @@ export default function ProcessingJobsPanel({
                       <Clock3 className="h-3.5 w-3.5" />
                       {formatDate(job.createdAt)}
                     </span>
+                    {job.costUsd !== null && (
+                      <span className="tabular-nums">
+                        {formatCostUsd(job.costUsd)}
+                      </span>
+                    )}
                   </div>
+                  {isResumable && job.error && (
+                    <p className="mt-1 truncate text-xs text-red-600">
+                      {job.error}
+                    </p>
+                  )}
                 </div>
 
-                <button
-                  type="button"
-                  onClick={() => onFollowJob(job.id)}
-                  className="btn-secondary px-2.5 py-1.5 text-xs"
-                  disabled={isActive}
-                >
-                  <Eye className="h-3.5 w-3.5" />
-                  {isActive ? "Suivi en cours" : "Suivre"}
-                </button>
+                {isFinished ? (
+                  <div className="flex flex-shrink-0 gap-2">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setOpenTimelineJobId(isTimelineOpen ? null : job.id)
+                      }
+                      className="btn-secondary px-2.5 py-1.5 text-xs"
+                    >
+                      <History className="h-3.5 w-3.5" />
+                      Journal
+                    </button>
+                    {isResumable && (
+                      <button
+                        type="button"
+                        onClick={() => onResumeJob(job.id)}
+                        className="btn-secondary px-2.5 py-1.5 text-xs"
+                      >
+                        <RotateCcw className="h-3.5 w-3.5" />
+                        Reprendre
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <div className="flex flex-shrink-0 gap-2">
+                    <button
+                      type="button"
+                      onClick={() => onFollowJob(job.id)}
+                      className="btn-secondary px-2.5 py-1.5 text-xs"
+                      disabled={isActive}
+                    >
+                      <Eye className="h-3.5 w-3.5" />
+                      {isActive ? "Suivi en cours" : "Suivre"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onCancelJob(job.id)}
+                      className="btn-secondary px-2.5 py-1.5 text-xs text-red-700"
+                    >
+                      <Square className="h-3.5 w-3.5" />
+                      Annuler
+                    </button>
+                  </div>
+                )}
               </div>
+              {isTimelineOpen && <JobTimeline key={job.id} jobId={job.id} />}
             </div>
           );
         })}
@@ -8,12 +8,20 @@ import {
   FileOutput,
   Cog,
   FileText,
+  Ban,
+  Square,
+  MessageSquare,
+  Scissors,
 } from "lucide-react";
 import type { StepEvent } from "../hooks/useSSE";
+import type { LlmUsageTotals, SceneAdjustment, SceneAttemptSelection } from "../lib/api";
+import { formatCostUsd, formatTokens } from "../lib/usage";
 
 const STEP_ICONS: Record<string, React.ReactNode> = {
   preprocessor: <Cog className="h-4 w-4" />,
   analyst: <Search className="h-4 w-4" />,
+  sceneNormalizer: <Scissors className="h-4 w-4" />,
+  tableTalk: <MessageSquare className="h-4 w-4" />,
   summarizer: <BookOpen className="h-4 w-4" />,
   validator: <ShieldCheck className="h-4 w-4" />,
   formatter: <FileOutput className="h-4 w-4" />,
@@ -22,6 +30,8 @@ const STEP_ICONS: Record<string, React.ReactNode> = {
 const STEP_NAMES: Record<string, string> = {
   preprocessor: "Preprocessing",
   analyst: "Analyse",
+  sceneNormalizer: "Découpage des scènes",
+  tableTalk: "Notes hors-jeu",
   summarizer: "Resume par scene",
   validator: "Validation par scene",
   formatter: "Mise en forme",
@@ -30,6 +40,8 @@ const STEP_NAMES: Record<string, string> = {
 const MAIN_STEP_ORDER = [
   "preprocessor",
   "analyst",
+  "sceneNormalizer",
+  "tableTalk",
   "summarizer",
   "validator",
   "formatter",
@@ -64,6 +76,9 @@ interface ProgressPanelProps {
   currentStep: string | null;
   error: string | null;
   isProcessing: boolean;
+  isCancelled?: boolean;
+  usage?: LlmUsageTotals | null;
+  onCancel?: () => void;
 }
 
 export default function ProgressPanel({
@@ -71,8 +86,11 @@ export default function ProgressPanel({
   currentStep: _currentStep,
   error,
   isProcessing,
+  isCancelled = false,
+  usage = null,
+  onCancel,
 }: ProgressPanelProps) {
-  if (steps.length === 0 && !error) return null;
+  if (steps.length === 0 && !error && !isCancelled) return null;
 
   const latestById = steps.reduce((map, step) => {
     map.set(step.step, step);
@@ -101,7 +119,30 @@ export default function ProgressPanel({
 
   return (
     <div className="card p-6">
-      <h3 className="mb-4 text-sm font-semibold text-parchment-900">Progression</h3>
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <h3 className="text-sm font-semibold text-parchment-900">Progression</h3>
+          {usage && (
+            <p
+              className="text-xs text-parchment-500"
+              title={`${formatTokens(usage.promptTokens)} en entrée, ${formatTokens(usage.completionTokens)} en sortie`}
+            >
+              {formatCostUsd(usage.costUsd)} · {formatTokens(usage.promptTokens + usage.completionTokens)} ·{" "}
+              {usage.calls} appel(s) LLM
+            </p>
+          )}
+        </div>
+        {isProcessing && onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="btn-secondary px-2.5 py-1.5 text-xs text-red-700"
+          >
+            <Square className="h-3.5 w-3.5" />
+            Annuler
+          </button>
+        )}
+      </div>
 
       <div className="space-y-3">
         {orderedMainSteps.map((step) => {
@@ -118,7 +159,8 @@ export default function ProgressPanel({
             childSteps.length > 0 &&
             childSteps.every((child) => getStepStatus(child) === "completed");
 
-          const isActive = status === "in_progress" || childActive;
+          const isActive =
+            !isCancelled && (status === "in_progress" || childActive);
           const isDone =
             status === "completed" ||
             childDone ||
@@ -170,6 +212,31 @@ export default function ProgressPanel({
                     </div>
                   )}
 
+                  {step.data && step.step === "sceneNormalizer" && (
+                    <>
+                      {isDone && step.data.scenesCount != null && (
+                        <div className="mt-1.5 flex flex-wrap gap-2">
+                          <span className="inline-flex items-center rounded-full bg-parchment-100 px-2 py-0.5 text-xs text-parchment-700">
+                            {String(step.data.scenesCount)} scenes
+                            {step.data.narrativeScenesCount != null && (
+                              <> ({String(step.data.narrativeScenesCount)} narratives)</>
+                            )}
+                          </span>
+                        </div>
+                      )}
+                      {Array.isArray(step.data.adjustments) && step.data.adjustments.length > 0 && (
+                        <ul className="mt-1.5 space-y-0.5 text-xs text-amber-700">
+                          {(step.data.adjustments as SceneAdjustment[]).map((adjustment, i) => (
+                            <li key={i} className="flex items-start gap-1">
+                              <AlertTriangle className="mt-0.5 h-3 w-3 flex-shrink-0" />
+                              <span>{adjustment.message}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  )}
+
                   {step.data && (step.step === "summarizer" || step.step === "validator") && (
                     <div className="mt-1.5 flex flex-wrap gap-2">
                       {step.data.totalScenes != null && (
@@ -191,10 +258,14 @@ export default function ProgressPanel({
                 <div className="ml-6 mt-1 space-y-1 border-l-2 border-parchment-200 pl-3">
                   {childSteps.map((sceneStep) => {
                     const sceneStatus = getStepStatus(sceneStep);
-                    const sceneActive = sceneStatus === "in_progress";
+                    const sceneActive =
+                      !isCancelled && sceneStatus === "in_progress";
                     const sceneDone =
                       sceneStatus === "completed" ||
                       (!isProcessing && sceneStatus !== "in_progress");
+                    const selection = sceneStep.data?.selection as
+                      | SceneAttemptSelection
+                      | undefined;
 
                     return (
                       <div
@@ -223,6 +294,11 @@ export default function ProgressPanel({
                               Lignes {String(sceneStep.data.startLine)}-{String(sceneStep.data.endLine)} uniquement
                             </p>
                           )}
+                          {selection && selection.attemptsCount > 1 && (
+                            <p className="mt-0.5 text-parchment-500">
+                              Tentative {selection.attempt} retenue : {selection.reason}
+                            </p>
+                          )}
                         </div>
                       </div>
                     );
@@ -234,6 +310,13 @@ export default function ProgressPanel({
         })}
       </div>
 
+      {isCancelled && (
+        <div className="mt-4 flex items-start gap-2 rounded-lg bg-parchment-100 p-3 text-sm text-parchment-700">
+          <Ban className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <p>Traitement annulé.</p>
+        </div>
+      )}
+
       {error && (
         <div className="mt-4 flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700">
           <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
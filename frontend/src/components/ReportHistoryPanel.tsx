@@ -1,5 +1,9 @@
-import { Clock3, Eye, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { CircleDollarSign, Clock3, Eye, Trash2 } from "lucide-react";
+import { fetchReportUsage } from "../lib/api";
 import type { ReportSummary } from "../lib/api";
+import { formatCostUsd } from "../lib/usage";
+import UsageBreakdown from "./UsageBreakdown";
 
 interface ReportHistoryPanelProps {
   history: ReportSummary[];
@@ -43,6 +47,10 @@ export default function ReportHistoryPanel({
   openDisabled = false,
   storageError = null,
 }: ReportHistoryPanelProps) {
+  const [openUsageReportId, setOpenUsageReportId] = useState<string | null>(
+    null
+  );
+
   return (
     <div className="card p-6 space-y-4">
       <div className="flex items-center justify-between gap-3">
@@ -78,6 +86,7 @@ export default function ReportHistoryPanel({
         <div className="space-y-2">
           {history.map((item) => {
             const playersStr = formatPlayers(item.players);
+            const isUsageOpen = openUsageReportId === item.id;
             return (
               <div
                 key={item.id}
@@ -94,6 +103,9 @@ export default function ReportHistoryPanel({
                     </p>
                     <p className="text-xs text-parchment-500">
                       {formatDate(item.createdAt)}
+                      {item.costUsd !== null && (
+                        <> · {formatCostUsd(item.costUsd)}</>
+                      )}
                     </p>
                     {playersStr && (
                       <p className="mt-0.5 truncate text-xs text-parchment-500">
@@ -103,6 +115,16 @@ export default function ReportHistoryPanel({
                   </div>
 
                   <div className="flex shrink-0 items-center gap-1.5">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setOpenUsageReportId(isUsageOpen ? null : item.id)
+                      }
+                      className="rounded-lg p-2 text-parchment-400 transition-colors hover:bg-parchment-100 hover:text-parchment-700"
+                      aria-label="Détail des coûts LLM"
+                    >
+                      <CircleDollarSign className="h-4 w-4" />
+                    </button>
                     <button
                       type="button"
                       onClick={() => onOpenReport(item.id)}
@@ -122,6 +144,9 @@ export default function ReportHistoryPanel({
                     </button>
                   </div>
                 </div>
+                {isUsageOpen && (
+                  <UsageBreakdown sourceId={item.id} load={fetchReportUsage} />
+                )}
               </div>
             );
           })}
@@ -10,9 +10,12 @@ import {
   Check,
   ChevronDown,
   ChevronUp,
+  FileText,
+  Dices,
 } from "lucide-react";
 import { useState, useCallback, useRef, useEffect } from "react";
 import SceneEditor from "./SceneEditor";
+import DiceStatsPanel from "./DiceStatsPanel";
 import { fetchScenes, updateScene, type SceneWithSummary } from "../lib/api";
 
 interface ReportViewerProps {
@@ -55,6 +58,7 @@ export default function ReportViewer({
   const [editingSceneId, setEditingSceneId] = useState<number | null>(null);
   const [isSavingScene, setIsSavingScene] = useState(false);
   const [scenesExpanded, setScenesExpanded] = useState(true);
+  const [view, setView] = useState<"report" | "dice">("report");
 
   // ── Load scenes when reportId is available ────────────────────────────────
 
@@ -433,8 +437,35 @@ export default function ReportViewer({
         </div>
       </div>
 
+      {/* Tabs: report / dice stats */}
+      {reportId && (
+        <div className="flex gap-1 border-b border-parchment-200">
+          {(
+            [
+              { id: "report", label: "Compte-rendu", icon: <FileText className="h-3.5 w-3.5" /> },
+              { id: "dice", label: "Statistiques de dés", icon: <Dices className="h-3.5 w-3.5" /> },
+            ] as const
+          ).map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setView(tab.id)}
+              className={`-mb-px inline-flex items-center gap-1.5 border-b-2 px-3 py-2 text-xs font-medium transition-colors ${
+                view === tab.id
+                  ? "border-amber-600 text-parchment-900"
+                  : "border-transparent text-parchment-500 hover:text-parchment-800"
+              }`}
+            >
+              {tab.icon}
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {reportId && view === "dice" && <DiceStatsPanel reportId={reportId} />}
+
       {/* Scene editors (if reportId available) */}
-      {reportId && scenes.length > 0 && scenesExpanded && (
+      {view === "report" && reportId && scenes.length > 0 && scenesExpanded && (
         <div className="card border-2 border-amber-400 overflow-hidden bg-gradient-to-br from-amber-50 to-amber-100/50 animate-scale-in">
           <div className="bg-amber-600 text-white px-4 py-3 flex items-center justify-between">
             <div className="flex items-center gap-2">
@@ -574,7 +605,7 @@ export default function ReportViewer({
       <div
         className={`card p-8 prose-report relative transition-all duration-300 ${
           isCorrecting ? "correction-in-progress" : ""
-        }`}
+        } ${view === "report" ? "" : "hidden"}`}
         ref={reportContentRef}
       >
         <ReactMarkdown>{report}</ReactMarkdown>
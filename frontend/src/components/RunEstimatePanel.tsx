@@ -0,0 +1,68 @@
+import { Calculator, Loader2 } from "lucide-react";
+import type { RunEstimate, RunEstimateCase } from "../lib/api";
+import { formatCostUsd, formatDuration, formatTokens } from "../lib/usage";
+
+interface RunEstimatePanelProps {
+  estimate: RunEstimate | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+function formatCost(value: number | null): string {
+  return value === null ? "coût inconnu" : formatCostUsd(value);
+}
+
+function EstimateRow({ label, value }: { label: string; value: RunEstimateCase }) {
+  return (
+    <div className="flex flex-wrap items-baseline justify-between gap-x-3">
+      <span className="font-medium text-parchment-800">{label}</span>
+      <span className="tabular-nums text-parchment-600">
+        ~{value.scenes} scènes · {value.calls} appels ·{" "}
+        {formatTokens(value.promptTokens + value.completionTokens)} ·{" "}
+        {formatCost(value.costUsd)} · {formatDuration(value.durationSeconds)}
+      </span>
+    </div>
+  );
+}
+
+export default function RunEstimatePanel({
+  estimate,
+  isLoading,
+  error,
+}: RunEstimatePanelProps) {
+  if (error) {
+    return <p className="text-xs text-parchment-500">{error}</p>;
+  }
+
+  if (!estimate) {
+    return isLoading ? (
+      <p className="flex items-center gap-1 text-xs text-parchment-500">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Estimation du traitement...
+      </p>
+    ) : null;
+  }
+
+  const { transcript } = estimate;
+  return (
+    <div
+      className={`rounded-lg border border-parchment-200 bg-parchment-50 px-3 py-2 text-xs space-y-1 ${
+        isLoading ? "opacity-60" : ""
+      }`}
+    >
+      <p className="flex items-center gap-1.5 text-parchment-700">
+        <Calculator className="h-3.5 w-3.5" />
+        Estimation : {transcript.totalLines} lignes, {transcript.speakersCount}{" "}
+        speakers, {formatTokens(transcript.analystInputTokens)} pour l'analyse
+        {transcript.analystWindows > 1 && ` (${transcript.analystWindows} fenêtres)`}
+      </p>
+      <EstimateRow label="Meilleur cas" value={estimate.best} />
+      <EstimateRow label="Pire cas" value={estimate.worst} />
+      {estimate.unpricedModels.length > 0 && (
+        <p className="text-amber-700">
+          Sans tarif configuré : {estimate.unpricedModels.join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { AudioLines, Loader2 } from "lucide-react";
+import { SPEAKER_PATTERN_PRESETS } from "../lib/api";
+import type {
+  PlayerInfo,
+  SpeakerPatternPreset,
+  TranscriptFormat,
+  TranscriptPreview,
+} from "../lib/api";
+
+interface SpeakerAssignmentPanelProps {
+  preview: TranscriptPreview | null;
+  isLoading: boolean;
+  error: string | null;
+  players: PlayerInfo[];
+  onChange: (players: PlayerInfo[]) => void;
+  /** "auto", un preset, ou une regex personnalisée ("" pendant la saisie). */
+  speakerPattern: string;
+  onSpeakerPatternChange: (pattern: string) => void;
+}
+
+const GAME_MASTER = "mj";
+const CUSTOM_PATTERN = "custom";
+
+function isPreset(pattern: string): pattern is SpeakerPatternPreset {
+  return pattern in SPEAKER_PATTERN_PRESETS;
+}
+
+const FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  text: "Texte",
+  "whisperx-json": "JSON WhisperX",
+  srt: "SRT",
+  vtt: "WebVTT",
+};
+
+function currentAssignment(players: PlayerInfo[], speaker: string): string {
+  const index = players.findIndex((p) => p.speakerHint === speaker);
+  if (index === -1) return "";
+  return players[index].isGameMaster ? GAME_MASTER : String(index);
+}
+
+/**
+ * Un speaker n'appartient qu'à une entrée du roster : l'ancienne attribution
+ * est retirée avant la nouvelle. Une entrée MJ sans nom ni speaker disparaît.
+ */
+function assignSpeaker(
+  players: PlayerInfo[],
+  speaker: string,
+  value: string
+): PlayerInfo[] {
+  const cleared = players
+    .map((p) => (p.speakerHint === speaker ? { ...p, speakerHint: "" } : p))
+    .filter((p) => !p.isGameMaster || p.playerName.trim() || p.speakerHint);
+
+  if (value === GAME_MASTER) {
+    return [
+      ...cleared,
+      { playerName: "", characterName: "", speakerHint: speaker, isGameMaster: true },
+    ];
+  }
+  if (value === "") return cleared;
+
+  // Les index des options portent sur la liste avant nettoyage
+  const target = players[Number(value)];
+  return cleared.map((p) => (p === target ? { ...p, speakerHint: speaker } : p));
+}
+
+function playerLabel(player: PlayerInfo): string {
+  if (player.playerName.trim() && player.characterName.trim()) {
+    return `${player.playerName} (${player.characterName})`;
+  }
+  return player.playerName.trim() || player.characterName.trim();
+}
+
+export default function SpeakerAssignmentPanel({
+  preview,
+  isLoading,
+  error,
+  players,
+  onChange,
+  speakerPattern,
+  onSpeakerPatternChange,
+}: SpeakerAssignmentPanelProps) {
+  const patternChoice =
+    speakerPattern === "auto" || isPreset(speakerPattern) ? speakerPattern : CUSTOM_PATTERN;
+  // Le motif ne concerne que les transcripts texte
+  const showPatternPicker = !preview || preview.format === "text";
+  const detectedPreset =
+    preview?.speakerPattern && isPreset(preview.speakerPattern)
+      ? SPEAKER_PATTERN_PRESETS[preview.speakerPattern]
+      : null;
+
+  const patternPicker = showPatternPicker && (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-xs text-parchment-600">Lignes du transcript</label>
+        <select
+          value={patternChoice}
+          onChange={(e) =>
+            onSpeakerPatternChange(e.target.value === CUSTOM_PATTERN ? "" : e.target.value)
+          }
+          className="input w-auto py-1 text-xs"
+        >
+          <option value="auto">
+            Détection automatique{detectedPreset && ` (${detectedPreset})`}
+          </option>
+          {(Object.keys(SPEAKER_PATTERN_PRESETS) as SpeakerPatternPreset[]).map((preset) => (
+            <option key={preset} value={preset}>
+              {SPEAKER_PATTERN_PRESETS[preset]}
+            </option>
+          ))}
+          <option value={CUSTOM_PATTERN}>Motif personnalisé...</option>
+        </select>
+      </div>
+      {patternChoice === CUSTOM_PATTERN && (
+        <input
+          type="text"
+          value={speakerPattern}
+          onChange={(e) => onSpeakerPatternChange(e.target.value)}
+          placeholder="^(?<speaker>[^:]+) : (?<text>.+)$"
+          className="input font-mono text-xs"
+        />
+      )}
+    </div>
+  );
+
+  if (error || !preview) {
+    if (!error && !isLoading) return null;
+    return (
+      <div className="card p-6 space-y-3">
+        {patternPicker}
+        {error ? (
+          <p className="text-xs text-red-600">{error}</p>
+        ) : (
+          <p className="flex items-center gap-1 text-xs text-parchment-500">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Lecture des speakers du transcript...
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const { format, stats, speakers } = preview;
+  const playerOptions = players
+    .map((player, index) => ({ player, index }))
+    .filter(({ player }) => !player.isGameMaster && playerLabel(player));
+
+  return (
+    <div className={`card p-6 space-y-4 ${isLoading ? "opacity-60" : ""}`}>
+      <div className="flex items-center gap-2">
+        <AudioLines className="h-5 w-5 text-parchment-600" />
+        <h3 className="text-sm font-semibold text-parchment-900">Speakers</h3>
+        <span className="text-xs text-parchment-500">
+          {FORMAT_LABELS[format]} · {stats.totalLines} lignes · {stats.diceRollCount}{" "}
+          jets de dés
+          {stats.untaggedCount > 0 && ` · ${stats.untaggedCount} sans speaker`}
+        </span>
+      </div>
+
+      {patternPicker}
+
+      {speakers.length === 0 ? (
+        <p className="text-xs text-parchment-400 italic">
+          Aucun speaker reconnu dans ce transcript.
+        </p>
+      ) : (
+        <>
+          {playerOptions.length === 0 && (
+            <p className="text-xs text-parchment-400 italic">
+              Ajoute les joueurs ci-dessous pour leur attribuer un speaker.
+            </p>
+          )}
+          <ul className="divide-y divide-parchment-100">
+            {speakers.map((speaker) => (
+              <li key={speaker.speaker} className="py-3 first:pt-0 last:pb-0 space-y-1.5">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="text-xs">
+                    <span className="font-mono font-medium text-parchment-900">
+                      {speaker.speaker}
+                    </span>{" "}
+                    <span className="text-parchment-500">
+                      {speaker.lineCount} lignes · L{speaker.firstLine} à L
+                      {speaker.lastLine}
+                    </span>
+                  </div>
+                  <select
+                    value={currentAssignment(players, speaker.speaker)}
+                    onChange={(e) =>
+                      onChange(assignSpeaker(players, speaker.speaker, e.target.value))
+                    }
+                    className="input w-auto py-1 text-xs"
+                  >
+                    <option value="">Non attribué</option>
+                    <option value={GAME_MASTER}>MJ</option>
+                    {playerOptions.map(({ player, index }) => (
+                      <option key={index} value={String(index)}>
+                        {playerLabel(player)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <ul className="space-y-0.5">
+                  {speaker.samples.map((sample) => (
+                    <li
+                      key={sample.lineNumber}
+                      className="truncate text-xs text-parchment-600"
+                      title={sample.text}
+                    >
+                      <span className="tabular-nums text-parchment-400">
+                        L{sample.lineNumber}
+                      </span>{" "}
+                      « {sample.text} »
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { Link2 } from "lucide-react";
+import type { TranscriptPartBoundary } from "../lib/api";
+
+interface SpeakerReconciliationPanelProps {
+  parts: TranscriptPartBoundary[];
+  /** Par partie : speaker du fichier → speaker de la session. */
+  aliases: Array<Record<string, string>>;
+  onChange: (aliases: Array<Record<string, string>>) => void;
+}
+
+// Même règle que backend/src/tools/preprocessing.ts
+const DIARIZATION_ID_RE = /^[A-Z_]+\d+$/;
+
+/** Nom du speaker dans la session, sans raccord : "P2_SPEAKER_01". */
+function defaultSessionSpeaker(partIndex: number, speaker: string): string {
+  return partIndex > 0 && DIARIZATION_ID_RE.test(speaker)
+    ? `P${partIndex + 1}_${speaker}`
+    : speaker;
+}
+
+function sessionSpeaker(
+  aliases: Array<Record<string, string>>,
+  partIndex: number,
+  speaker: string
+): string {
+  return aliases[partIndex]?.[speaker] ?? defaultSessionSpeaker(partIndex, speaker);
+}
+
+/**
+ * La diarization renumérote les speakers à chaque fichier : chaque speaker
+ * d'une partie peut être raccordé à un speaker d'une partie précédente.
+ */
+export default function SpeakerReconciliationPanel({
+  parts,
+  aliases,
+  onChange,
+}: SpeakerReconciliationPanelProps) {
+  const setAlias = (partIndex: number, speaker: string, target: string) => {
+    const next = parts.map((_, i) => ({ ...(aliases[i] ?? {}) }));
+    if (target) {
+      next[partIndex][speaker] = target;
+    } else {
+      delete next[partIndex][speaker];
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <Link2 className="h-5 w-5 text-parchment-600" />
+        <h3 className="text-sm font-semibold text-parchment-900">Raccord des parties</h3>
+        <span className="text-xs text-parchment-500">
+          {parts.length} parties · L1 à L{parts[parts.length - 1].endLine}
+        </span>
+      </div>
+
+      {parts.slice(1).map((part) => {
+        const earlierSpeakers = [
+          ...new Set(
+            parts
+              .slice(0, part.index)
+              .flatMap((p) => p.speakers.map((s) => sessionSpeaker(aliases, p.index, s)))
+          ),
+        ];
+
+        return (
+          <div key={part.index} className="space-y-2">
+            <p className="text-xs font-medium text-parchment-700">
+              Partie {part.index + 1} — {part.name}{" "}
+              <span className="font-normal text-parchment-500">
+                L{part.startLine} à L{part.endLine}
+              </span>
+            </p>
+            {part.speakers.length === 0 ? (
+              <p className="text-xs text-parchment-400 italic">Aucun speaker reconnu.</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {part.speakers.map((speaker) => (
+                  <li
+                    key={speaker}
+                    className="flex flex-wrap items-center justify-between gap-2 text-xs"
+                  >
+                    <span className="font-mono text-parchment-900">{speaker}</span>
+                    <select
+                      value={aliases[part.index]?.[speaker] ?? ""}
+                      onChange={(e) => setAlias(part.index, speaker, e.target.value)}
+                      className="input w-auto py-1 text-xs"
+                    >
+                      <option value="">
+                        Nouveau speaker ({defaultSessionSpeaker(part.index, speaker)})
+                      </option>
+                      {earlierSpeakers.map((target) => (
+                        <option key={target} value={target}>
+                          = {target}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
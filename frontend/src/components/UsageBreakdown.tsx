@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import type { LlmUsageSummary, LlmUsageTotals } from "../lib/api";
+import { formatCostUsd, formatTokens } from "../lib/usage";
+
+interface UsageBreakdownProps {
+  /** Identifiant du job ou du rapport : change de valeur => rechargement. */
+  sourceId: string;
+  load: (sourceId: string) => Promise<LlmUsageSummary>;
+}
+
+const NODE_LABELS: Record<string, string> = {
+  analyst: "Analyse",
+  tableTalk: "Notes hors-jeu",
+  summarizer: "Résumés",
+  validator: "Validation",
+  formatter: "Mise en forme",
+  correction: "Corrections",
+};
+
+function formatLine(totals: LlmUsageTotals): string {
+  return `${formatCostUsd(totals.costUsd)} · ${formatTokens(
+    totals.promptTokens + totals.completionTokens
+  )} · ${totals.calls} appel(s)`;
+}
+
+export default function UsageBreakdown({ sourceId, load }: UsageBreakdownProps) {
+  const [usage, setUsage] = useState<LlmUsageSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    load(sourceId)
+      .then((loaded) => {
+        if (!cancelled) setUsage(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Impossible de charger les coûts.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceId, load]);
+
+  if (error) {
+    return <p className="mt-2 text-xs text-red-600">{error}</p>;
+  }
+
+  if (usage === null) {
+    return (
+      <p className="mt-2 flex items-center gap-1 text-xs text-parchment-500">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Chargement des coûts...
+      </p>
+    );
+  }
+
+  if (usage.totals.calls === 0) {
+    return (
+      <p className="mt-2 text-xs text-parchment-500">
+        Aucun appel LLM enregistré.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-1 rounded-lg bg-parchment-50 px-3 py-2 text-xs text-parchment-700">
+      <p className="font-medium text-parchment-900">
+        Total : {formatLine(usage.totals)}
+      </p>
+      <ul className="space-y-0.5">
+        {usage.byNode.map((node) => (
+          <li key={node.node} className="flex justify-between gap-3">
+            <span>{NODE_LABELS[node.node] ?? node.node}</span>
+            <span className="tabular-nums text-parchment-500">{formatLine(node)}</span>
+          </li>
+        ))}
+      </ul>
+      {usage.byScene.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-parchment-500">
+            Détail par scène
+          </summary>
+          <ul className="mt-1 space-y-0.5">
+            {usage.byScene.map((scene) => (
+              <li key={scene.sceneId} className="flex justify-between gap-3">
+                <span>Scène {scene.sceneId}</span>
+                <span className="tabular-nums text-parchment-500">{formatLine(scene)}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {usage.unpricedModels.length > 0 && (
+        <p className="text-amber-700">
+          Sans tarif configuré : {usage.unpricedModels.join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
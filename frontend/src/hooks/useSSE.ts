@@ -1,6 +1,6 @@
 import { useState, useCallback, useRef, useEffect } from "react";
-import { createProcessJob } from "../lib/api";
-import type { ProcessConfig } from "../lib/api";
+import { cancelProcessJob, createProcessJob } from "../lib/api";
+import type { LlmUsageTotals, ProcessConfig } from "../lib/api";
 
 export interface StepEvent {
   step: string;
@@ -16,6 +16,9 @@ export interface SSEState {
   result: string | null;
   resultData: Record<string, unknown> | null;
   error: string | null;
+  isCancelled: boolean;
+  /** Dépense LLM cumulée du job, mise à jour à chaque appel de modèle. */
+  usage: LlmUsageTotals | null;
 }
 
 type ScenePayload = {
@@ -47,6 +50,9 @@ function upsertStep(
 }
 
 const ACTIVE_JOB_STORAGE_KEY = "cr-session.active-job-id.v1";
+const RECONNECT_DELAY_MS = 3000;
+// ~5 minutes: long enough for a backend restart or redeploy
+const MAX_RECONNECT_ATTEMPTS = 100;
 
 function saveActiveJobId(jobId: string | null): void {
   if (typeof window === "undefined") return;
@@ -72,6 +78,8 @@ export function useSSE() {
     result: null,
     resultData: null,
     error: null,
+    isCancelled: false,
+    usage: null,
   });
 
   const abortRef = useRef<AbortController | null>(null);
@@ -166,6 +174,33 @@ export function useSSE() {
         }));
         break;
 
+      case "step:adjustment":
+        setState((prev) => ({
+          ...prev,
+          steps: prev.steps.map((s) =>
+            s.step === data.step
+              ? {
+                  ...s,
+                  data: {
+                    ...(s.data || {}),
+                    adjustments: [
+                      ...((s.data?.adjustments as unknown[]) || []),
+                      data.adjustment,
+                    ],
+                  },
+                }
+              : s
+          ),
+        }));
+        break;
+
+      case "step:usage":
+        setState((prev) => ({
+          ...prev,
+          usage: (data.totals as LlmUsageTotals) ?? prev.usage,
+        }));
+        break;
+
       case "result":
         setState((prev) => ({
           ...prev,
@@ -185,6 +220,21 @@ export function useSSE() {
         }));
         break;
 
+      case "cancelled":
+        saveActiveJobId(null);
+        setState((prev) => ({
+          ...prev,
+          activeJobId: null,
+          isProcessing: false,
+          currentStep: null,
+          isCancelled: true,
+        }));
+        break;
+
+      case "resumed":
+        setState((prev) => ({ ...prev, error: null, isCancelled: false }));
+        break;
+
       case "done":
         saveActiveJobId(null);
         setState((prev) => ({
@@ -201,7 +251,8 @@ export function useSSE() {
     async (jobId: string) => {
       const nextConnectionId = ++connectionRef.current;
       abortRef.current?.abort();
-      abortRef.current = new AbortController();
+      const abortController = new AbortController();
+      abortRef.current = abortController;
       saveActiveJobId(jobId);
 
       setState({
@@ -212,16 +263,27 @@ export function useSSE() {
         result: null,
         resultData: null,
         error: null,
+        isCancelled: false,
+        usage: null,
       });
 
       let terminalEventReceived = false;
+      // Events are persisted server-side: after a disconnection (or a backend
+      // restart) the stream resumes right after the last event received
+      let lastEventId: number | null = null;
+      let failedAttempts = 0;
+      let lastError = "Connexion au job interrompue.";
 
-      try {
+      const readStream = async () => {
         const response = await fetch(
           `/api/jobs/${encodeURIComponent(jobId)}/stream`,
           {
             method: "GET",
-            signal: abortRef.current.signal,
+            headers:
+              lastEventId !== null
+                ? { "Last-Event-ID": String(lastEventId) }
+                : undefined,
+            signal: abortController.signal,
           }
         );
 
@@ -236,6 +298,7 @@ export function useSSE() {
         const reader = response.body.getReader();
         const decoder = new TextDecoder();
         let buffer = "";
+        let eventId: number | null = null;
         let eventType: string | null = null;
         let dataBuffer: string[] = [];
 
@@ -250,13 +313,22 @@ export function useSSE() {
             const parsed: unknown = JSON.parse(rawPayload);
             if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
               handleEvent(eventType, parsed as Record<string, unknown>);
-              if (eventType === "done" || eventType === "error") {
+              if (
+                eventType === "done" ||
+                eventType === "error" ||
+                eventType === "cancelled"
+              ) {
                 terminalEventReceived = true;
               }
             }
           } catch {
             // ignore invalid payloads
           } finally {
+            if (eventId !== null) {
+              lastEventId = eventId;
+            }
+            failedAttempts = 0;
+            eventId = null;
             eventType = null;
             dataBuffer = [];
           }
@@ -280,6 +352,12 @@ export function useSSE() {
               continue;
             }
 
+            if (line.startsWith("id:")) {
+              const parsedId = Number.parseInt(line.slice(3).trim(), 10);
+              eventId = Number.isFinite(parsedId) ? parsedId : null;
+              continue;
+            }
+
             if (line.startsWith("event:")) {
               eventType = line.slice(6).trim();
               continue;
@@ -293,39 +371,50 @@ export function useSSE() {
         }
 
         flushEvent();
+      };
+
+      while (!terminalEventReceived) {
+        try {
+          await readStream();
+        } catch (err) {
+          if ((err as Error).name === "AbortError") return;
+          if (nextConnectionId !== connectionRef.current) return;
+
+          if ((err as Error).message === "JOB_NOT_FOUND") {
+            saveActiveJobId(null);
+            setState((prev) => ({
+              ...prev,
+              activeJobId: null,
+              isProcessing: false,
+              currentStep: null,
+              error: "Ce job est introuvable.",
+            }));
+            return;
+          }
 
-        if (!terminalEventReceived && nextConnectionId === connectionRef.current) {
-          setState((prev) => ({
-            ...prev,
-            isProcessing: false,
-            currentStep: null,
-            error:
-              prev.error ||
-              "Connexion au job interrompue. Clique sur \"Suivre\" pour reprendre.",
-          }));
+          lastError = (err as Error).message;
         }
-      } catch (err) {
-        if ((err as Error).name === "AbortError") return;
+
+        if (terminalEventReceived) return;
         if (nextConnectionId !== connectionRef.current) return;
 
-        if ((err as Error).message === "JOB_NOT_FOUND") {
-          saveActiveJobId(null);
+        failedAttempts++;
+        if (failedAttempts > MAX_RECONNECT_ATTEMPTS) {
           setState((prev) => ({
             ...prev,
-            activeJobId: null,
             isProcessing: false,
             currentStep: null,
-            error: "Ce job n'est plus disponible (backend redémarré ou job expiré).",
+            error:
+              prev.error ||
+              `${lastError} Clique sur "Suivre" pour reprendre.`,
           }));
           return;
         }
 
-        setState((prev) => ({
-          ...prev,
-          isProcessing: false,
-          currentStep: null,
-          error: (err as Error).message,
-        }));
+        await new Promise((resolve) =>
+          window.setTimeout(resolve, RECONNECT_DELAY_MS)
+        );
+        if (abortController.signal.aborted) return;
       }
     },
     [handleEvent]
@@ -343,6 +432,8 @@ export function useSSE() {
         result: null,
         resultData: null,
         error: null,
+        isCancelled: false,
+        usage: null,
       });
 
       try {
@@ -371,6 +462,15 @@ export function useSSE() {
     }));
   }, []);
 
+  /** Stops the job server-side; the stream then receives `cancelled`. */
+  const cancelJob = useCallback(async (jobId: string) => {
+    try {
+      await cancelProcessJob(jobId);
+    } catch (err) {
+      setState((prev) => ({ ...prev, error: (err as Error).message }));
+    }
+  }, []);
+
   useEffect(() => {
     const persistedJobId = loadActiveJobId();
     if (persistedJobId) {
@@ -381,5 +481,5 @@ export function useSSE() {
     };
   }, [followJob]);
 
-  return { ...state, process, followJob, cancel };
+  return { ...state, process, followJob, cancel, cancelJob };
 }
@@ -4,25 +4,44 @@ export interface Universe {
   defaultPrompt: string;
 }
 
+export type Pronouns = "il" | "elle" | "iel";
+
 export interface PlayerInfo {
   playerName: string;
   characterName: string;
   speakerHint?: string;
+  /** Entrée du roster désignant le MJ : pas de personnage. */
+  isGameMaster?: boolean;
+  /** Pronoms du personnage, pour l'accord en genre du compte-rendu. */
+  pronouns?: Pronouns;
 }
 
 export interface ProcessConfig {
-  transcript: File;
+  /** Parties de la session, dans l'ordre de l'enregistrement. */
+  transcripts: File[];
+  /** Par partie : speaker du fichier → speaker de la session. */
+  speakerAliases: Array<Record<string, string>>;
   universeName: string;
   universeContext: string;
   sessionHistory: string;
   playerInfo: PlayerInfo[];
+  /** Motif des lignes d'un transcript texte : "auto", preset ou regex. */
+  speakerPattern: string;
+  /** Corrige les noms propres d'après le glossaire de l'univers. */
+  applyGlossary: boolean;
+  /** Rapproche aussi les graphies non déclarées dans le glossaire. */
+  fuzzyGlossary: boolean;
+  /** Passe LLM en plus des heuristiques pour repérer le hors-jeu. */
+  tableTalkTagging: boolean;
 }
 
 export type ProcessJobStatus =
   | "pending"
   | "running"
   | "completed"
-  | "failed";
+  | "failed"
+  | "interrupted"
+  | "cancelled";
 
 export interface ProcessJobSummary {
   id: string;
@@ -33,6 +52,31 @@ export interface ProcessJobSummary {
   universeName: string;
   playersCount: number;
   error: string | null;
+  /** Coût LLM cumulé en USD, null tant qu'aucun appel n'est enregistré. */
+  costUsd: number | null;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  costUsd: number;
+}
+
+export interface LlmUsageSummary {
+  totals: LlmUsageTotals;
+  byNode: Array<LlmUsageTotals & { node: string }>;
+  byScene: Array<LlmUsageTotals & { sceneId: number }>;
+  byModel: Array<LlmUsageTotals & { provider: string; model: string }>;
+  unpricedModels: string[];
+}
+
+export interface ProcessJobEvent {
+  id: number;
+  type: string;
+  data: Record<string, unknown> | null;
+  timestamp: string;
 }
 
 interface CreateUniverseInput {
@@ -110,15 +154,139 @@ export async function checkHealth(): Promise<{ status: string; hasApiKey: boolea
 
 function toProcessFormData(config: ProcessConfig): FormData {
   const formData = new FormData();
-  formData.append("transcript", config.transcript);
-  formData.append("transcriptName", config.transcript.name);
+  for (const transcript of config.transcripts) {
+    formData.append("transcript", transcript);
+  }
+  formData.append("transcriptName", config.transcripts.map((f) => f.name).join(" + "));
   formData.append("universeName", config.universeName);
   formData.append("universeContext", config.universeContext);
   formData.append("sessionHistory", config.sessionHistory);
   formData.append("playerInfo", JSON.stringify(config.playerInfo));
+  formData.append("speakerPattern", config.speakerPattern);
+  formData.append("speakerAliases", JSON.stringify(config.speakerAliases));
+  formData.append("applyGlossary", String(config.applyGlossary));
+  formData.append("fuzzyGlossary", String(config.fuzzyGlossary));
+  formData.append("tableTalkTagging", String(config.tableTalkTagging));
   return formData;
 }
 
+export interface SpeakerSample {
+  speaker: string;
+  lineCount: number;
+  firstLine: number;
+  lastLine: number;
+  samples: Array<{ lineNumber: number; text: string }>;
+}
+
+export type TranscriptFormat = "text" | "whisperx-json" | "srt" | "vtt";
+
+/** Presets de motif de ligne, miroir de backend/src/tools/speaker-patterns.ts. */
+export const SPEAKER_PATTERN_PRESETS = {
+  "speaker-tag": "[SPEAKER_00] texte (diarization)",
+  named: "Nom: texte",
+  discord: "Discord ([21:04] Nom — texte)",
+  roll20: "Roll20 / Craig (Nom: texte, /roll)",
+} as const;
+
+export type SpeakerPatternPreset = keyof typeof SPEAKER_PATTERN_PRESETS;
+
+export interface TranscriptPartBoundary {
+  index: number;
+  name: string;
+  startLine: number;
+  endLine: number;
+  /** Speakers tels qu'ils apparaissent dans le fichier, avant raccord. */
+  speakers: string[];
+}
+
+export interface GlossaryCorrection {
+  from: string;
+  to: string;
+  count: number;
+  lines: number[];
+  /** false : seulement proposée, le transcript garde la graphie d'origine. */
+  applied: boolean;
+}
+
+export interface TranscriptPreview {
+  format: TranscriptFormat;
+  /** Motif retenu (preset détecté en "auto"), pour un transcript texte. */
+  speakerPattern?: string;
+  parts: TranscriptPartBoundary[];
+  /** Noms propres du transcript rapprochés du glossaire de l'univers. */
+  glossaryCorrections: GlossaryCorrection[];
+  stats: {
+    totalLines: number;
+    speakerCounts: Record<string, number>;
+    untaggedCount: number;
+    diceRollCount: number;
+    /** Lignes hors-jeu repérées par les heuristiques. */
+    tableTalkCount: number;
+  };
+  speakers: SpeakerSample[];
+}
+
+export async function previewTranscript(
+  config: ProcessConfig,
+  signal?: AbortSignal
+): Promise<TranscriptPreview> {
+  const res = await fetch("/api/preprocess", {
+    method: "POST",
+    body: toProcessFormData(config),
+    signal,
+  });
+  if (!res.ok) {
+    let errorMessage = `HTTP ${res.status}`;
+    try {
+      const body = (await res.json()) as { message?: string };
+      if (body?.message) {
+        errorMessage = body.message;
+      }
+    } catch {
+      // Ignore JSON parse errors and keep default message.
+    }
+    throw new Error(errorMessage);
+  }
+  return res.json();
+}
+
+export interface RunEstimateCase {
+  scenes: number;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number | null;
+  durationSeconds: number;
+}
+
+export interface RunEstimate {
+  transcript: {
+    totalLines: number;
+    speakersCount: number;
+    diceRollCount: number;
+    analystInputTokens: number;
+    analystWindows: number;
+  };
+  best: RunEstimateCase;
+  worst: RunEstimateCase;
+  unpricedModels: string[];
+}
+
+export async function estimateProcessRun(
+  config: ProcessConfig,
+  signal?: AbortSignal
+): Promise<RunEstimate> {
+  const res = await fetch("/api/estimate", {
+    method: "POST",
+    body: toProcessFormData(config),
+    signal,
+  });
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status}`);
+  }
+  return res.json();
+}
+
 export async function createProcessJob(
   config: ProcessConfig
 ): Promise<ProcessJobSummary> {
@@ -142,13 +310,18 @@ export async function createProcessJob(
 }
 
 export async function listProcessJobs(
-  statuses?: ProcessJobStatus[]
+  statuses?: ProcessJobStatus[],
+  limit?: number
 ): Promise<ProcessJobSummary[]> {
-  const query =
-    statuses && statuses.length > 0
-      ? `?status=${encodeURIComponent(statuses.join(","))}`
-      : "";
-  const res = await fetch(`/api/jobs${query}`);
+  const params = new URLSearchParams();
+  if (statuses && statuses.length > 0) {
+    params.set("status", statuses.join(","));
+  }
+  if (limit) {
+    params.set("limit", String(limit));
+  }
+  const query = params.toString();
+  const res = await fetch(`/api/jobs${query ? `?${query}` : ""}`);
   if (!res.ok) {
     throw new Error(`HTTP ${res.status}`);
   }
@@ -163,6 +336,68 @@ export async function fetchProcessJob(jobId: string): Promise<ProcessJobSummary>
   return res.json();
 }
 
+export async function fetchProcessJobEvents(
+  jobId: string
+): Promise<ProcessJobEvent[]> {
+  const res = await fetch(`/api/jobs/${encodeURIComponent(jobId)}/events`);
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status}`);
+  }
+  return res.json();
+}
+
+export async function fetchProcessJobUsage(
+  jobId: string
+): Promise<LlmUsageSummary> {
+  const res = await fetch(`/api/jobs/${encodeURIComponent(jobId)}/usage`);
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status}`);
+  }
+  return res.json();
+}
+
+export async function cancelProcessJob(
+  jobId: string
+): Promise<ProcessJobSummary> {
+  const res = await fetch(`/api/jobs/${encodeURIComponent(jobId)}/cancel`, {
+    method: "POST",
+  });
+  if (!res.ok) {
+    let errorMessage = `HTTP ${res.status}`;
+    try {
+      const body = (await res.json()) as { message?: string };
+      if (body?.message) {
+        errorMessage = body.message;
+      }
+    } catch {
+      // no-op
+    }
+    throw new Error(errorMessage);
+  }
+  return res.json();
+}
+
+export async function resumeProcessJob(
+  jobId: string
+): Promise<ProcessJobSummary> {
+  const res = await fetch(`/api/jobs/${encodeURIComponent(jobId)}/resume`, {
+    method: "POST",
+  });
+  if (!res.ok) {
+    let errorMessage = `HTTP ${res.status}`;
+    try {
+      const body = (await res.json()) as { message?: string };
+      if (body?.message) {
+        errorMessage = body.message;
+      }
+    } catch {
+      // no-op
+    }
+    throw new Error(errorMessage);
+  }
+  return res.json();
+}
+
 // ── Reports (SQLite-backed) ──────────────────────────────────────────────────
 
 export interface ReportSummary {
@@ -171,6 +406,7 @@ export interface ReportSummary {
   universeName: string;
   transcriptName: string;
   players: PlayerInfo[];
+  costUsd: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -204,6 +440,57 @@ export async function fetchReport(reportId: string): Promise<ReportDetail> {
   return res.json();
 }
 
+export async function fetchReportUsage(
+  reportId: string
+): Promise<LlmUsageSummary> {
+  const res = await fetch(`/api/reports/${encodeURIComponent(reportId)}/usage`);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.json();
+}
+
+export interface DiceRollCounts {
+  rolls: number;
+  successes: number;
+  failures: number;
+  criticalSuccesses: number;
+  criticalFailures: number;
+  d20Count: number;
+  averageD20: number | null;
+}
+
+export interface CharacterDiceStats extends DiceRollCounts {
+  character: string;
+  topSkills: Array<{ skill: string; count: number }>;
+}
+
+export interface DiceStats {
+  sessions: number;
+  totals: DiceRollCounts;
+  characters: CharacterDiceStats[];
+  mostCursedRoll: {
+    character: string;
+    skill: string;
+    result: string;
+    context: string;
+    reportId: string;
+    transcriptName: string;
+    sceneId: number;
+    sceneTitle: string;
+  } | null;
+}
+
+export interface ReportDiceStats {
+  session: DiceStats;
+  /** Tous les rapports du même univers. */
+  campaign: DiceStats & { universeName: string };
+}
+
+export async function fetchReportDiceStats(reportId: string): Promise<ReportDiceStats> {
+  const res = await fetch(`/api/reports/${encodeURIComponent(reportId)}/dice-stats`);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.json();
+}
+
 export async function deleteReportApi(reportId: string): Promise<void> {
   const res = await fetch(`/api/reports/${encodeURIComponent(reportId)}`, {
     method: "DELETE",
@@ -248,6 +535,35 @@ export interface SceneMeta {
   location?: string;
 }
 
+/** Correction apportée au découpage de l'analyst avant le résumé des scènes. */
+export interface SceneAdjustment {
+  kind: "clamped" | "dropped" | "overlap" | "orphans" | "merged" | "created" | "renumbered";
+  sceneId: number;
+  message: string;
+  before?: { startLine: number; endLine: number };
+  after?: { startLine: number; endLine: number };
+}
+
+/** Tentative de résumé retenue pour une scène après validation. */
+export interface SceneAttemptSelection {
+  sceneId: number;
+  attempt: number;
+  attemptsCount: number;
+  score: { errors: number; weightedWarnings: number };
+  reason: string;
+}
+
+export interface ParsedDiceRoll {
+  system: "d20" | "pool" | "generic";
+  notation?: string;
+  dice?: number[];
+  modifier?: number;
+  total?: number;
+  target?: number;
+  successes?: number;
+  outcome?: "critical_success" | "success" | "failure" | "critical_failure";
+}
+
 export interface SceneSummary {
   sceneId: number;
   narrativeSummary: string;
@@ -257,6 +573,8 @@ export interface SceneSummary {
     skill: string;
     result: string;
     context: string;
+    /** Jet lu dans le transcript par le preprocessing. */
+    roll?: ParsedDiceRoll;
   }>;
   npcsInvolved: string[];
   technicalNotes?: string[];
@@ -0,0 +1,23 @@
+const costFormatter = new Intl.NumberFormat("fr-FR", {
+  style: "currency",
+  currency: "USD",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 4,
+});
+
+const tokenFormatter = new Intl.NumberFormat("fr-FR");
+
+export function formatCostUsd(value: number): string {
+  return costFormatter.format(value);
+}
+
+export function formatTokens(value: number): string {
+  return `${tokenFormatter.format(value)} tokens`;
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))} s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, "0")}`;
+}